@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readLutFile } from "@/lib/lutLibrary";
+
+interface RouteContext {
+  params: { lutId: string };
+}
+
+/** The normalised `.cube` file, which the preview parses to grade frames with the same table as the export. */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const data = await readLutFile(context.params.lutId);
+
+  if (!data) {
+    return NextResponse.json({ message: "LUT não encontrada" }, { status: 404 });
+  }
+
+  return new NextResponse(data, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      // A LUT is never rewritten under the same id.
+      "Cache-Control": "private, max-age=31536000, immutable",
+      "Content-Length": String(data.length)
+    }
+  });
+}
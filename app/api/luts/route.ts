@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_LUT_BYTES, importLut, listLuts } from "@/lib/lutLibrary";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ luts: await listLuts() });
+}
+
+export async function POST(request: NextRequest) {
+  const formData = await request.formData().catch(() => undefined);
+  const file = formData?.get("lut");
+
+  if (!file || typeof file === "string") {
+    return NextResponse.json({ message: "Envie um arquivo .cube" }, { status: 400 });
+  }
+  if (file.size > MAX_LUT_BYTES) {
+    return NextResponse.json({ message: "Arquivo excede o tamanho máximo permitido" }, { status: 413 });
+  }
+
+  try {
+    const lut = await importLut(file.name.replace(/\.cube$/i, ""), await file.text());
+    return NextResponse.json(lut, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Não foi possível importar a LUT";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+}
@@ -0,0 +1,44 @@
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { createEtag, matchesEtag } from "@/lib/httpRange";
+import { isMediaImageVariant } from "@/lib/media";
+import { openMediaFile, statMediaFile } from "@/lib/mediaLibrary";
+
+interface RouteContext {
+  params: { assetId: string; variant: string };
+}
+
+/** The preview images of an asset: `thumbnail`, and `poster` for videos. */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { assetId, variant } = context.params;
+  if (!isMediaImageVariant(variant)) {
+    return NextResponse.json({ message: "Imagem não encontrada" }, { status: 404 });
+  }
+
+  const info = await statMediaFile(assetId, variant);
+  if (!info) {
+    return NextResponse.json({ message: "Imagem não encontrada" }, { status: 404 });
+  }
+
+  const etag = createEtag(variant, info);
+  const headers = {
+    "Content-Type": "image/jpeg",
+    // Preview images are rendered once per asset and never change under the same id.
+    "Cache-Control": "private, max-age=31536000, immutable",
+    ETag: etag
+  };
+
+  if (matchesEtag(request.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const stream = await openMediaFile(assetId, variant);
+  if (!stream) {
+    return NextResponse.json({ message: "Imagem não encontrada" }, { status: 404 });
+  }
+
+  return new NextResponse(Readable.toWeb(stream) as unknown as BodyInit, {
+    status: 200,
+    headers: { ...headers, "Content-Length": String(info.size) }
+  });
+}
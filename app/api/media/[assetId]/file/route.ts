@@ -0,0 +1,61 @@
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { createEtag, matchesEtag, parseRangeHeader } from "@/lib/httpRange";
+import { getMedia, openMediaFile, statMediaFile } from "@/lib/mediaLibrary";
+
+interface RouteContext {
+  params: { assetId: string };
+}
+
+const toBody = (stream: Readable) => Readable.toWeb(stream) as unknown as BodyInit;
+
+/** Serves the original upload with byte ranges so the composer preview can seek inside videos. */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { assetId } = context.params;
+  const [asset, info] = await Promise.all([getMedia(assetId), statMediaFile(assetId, "source")]);
+
+  if (!asset || !info) {
+    return NextResponse.json({ message: "Mídia não encontrada" }, { status: 404 });
+  }
+
+  const etag = createEtag(assetId, info);
+  const headers: Record<string, string> = {
+    "Content-Type": asset.mimeType || "application/octet-stream",
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, max-age=0, must-revalidate",
+    "Last-Modified": new Date(info.modifiedAt).toUTCString(),
+    ETag: etag
+  };
+
+  if (matchesEtag(request.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const ifRange = request.headers.get("if-range");
+  const range = ifRange && ifRange !== etag ? null : parseRangeHeader(request.headers.get("range"), info.size);
+
+  if (range === "unsatisfiable") {
+    return new NextResponse(null, { status: 416, headers: { ...headers, "Content-Range": `bytes */${info.size}` } });
+  }
+
+  const stream = await openMediaFile(assetId, "source", range ?? undefined);
+  if (!stream) {
+    return NextResponse.json({ message: "Mídia não encontrada" }, { status: 404 });
+  }
+
+  if (range) {
+    return new NextResponse(toBody(stream), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${range.start}-${range.end}/${info.size}`,
+        "Content-Length": String(range.end - range.start + 1)
+      }
+    });
+  }
+
+  return new NextResponse(toBody(stream), {
+    status: 200,
+    headers: { ...headers, "Content-Length": String(info.size) }
+  });
+}
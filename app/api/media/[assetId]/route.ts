@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteMedia, getMedia } from "@/lib/mediaLibrary";
+import { findProjectsUsingMedia } from "@/lib/projectManager";
+
+interface RouteContext {
+  params: { assetId: string };
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const asset = await getMedia(context.params.assetId);
+
+  if (!asset) {
+    return NextResponse.json({ message: "Mídia não encontrada" }, { status: 404 });
+  }
+
+  return NextResponse.json(asset);
+}
+
+/** Removes the asset and its preview images, unless a saved project still uses it. */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { assetId } = context.params;
+
+  if (!(await getMedia(assetId))) {
+    return NextResponse.json({ message: "Mídia não encontrada" }, { status: 404 });
+  }
+
+  const projects = await findProjectsUsingMedia(assetId);
+  if (projects.length) {
+    return NextResponse.json(
+      { message: `Mídia usada nos projetos: ${projects.map((project) => project.name).join(", ")}`, projects },
+      { status: 409 }
+    );
+  }
+
+  await deleteMedia(assetId);
+  return NextResponse.json({ assetId, status: "deleted" });
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { listMedia } from "@/lib/mediaLibrary";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ assets: await listMedia() });
+}
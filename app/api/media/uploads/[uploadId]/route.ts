@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { appendMediaChunk, cancelMediaUpload, getMediaUpload } from "@/lib/mediaLibrary";
+
+interface RouteContext {
+  params: { uploadId: string };
+}
+
+/** Reports how many bytes the server holds, so an interrupted upload can resume from there. */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const upload = await getMediaUpload(context.params.uploadId);
+
+  if (!upload) {
+    return NextResponse.json({ message: "Upload não encontrado" }, { status: 404 });
+  }
+
+  return NextResponse.json({ uploadId: upload.id, offset: upload.offset, size: upload.size });
+}
+
+/** Appends the request body at the `Upload-Offset` header; the last chunk returns the processed asset. */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { uploadId } = context.params;
+  const offset = Number(request.headers.get("upload-offset"));
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ message: "Cabeçalho Upload-Offset inválido" }, { status: 400 });
+  }
+
+  const data = Buffer.from(await request.arrayBuffer());
+  if (!data.length) {
+    return NextResponse.json({ message: "Bloco vazio" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await appendMediaChunk(uploadId, offset, data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Falha ao receber o arquivo";
+    return NextResponse.json({ message }, { status: 422 });
+  }
+
+  if (!result) {
+    return NextResponse.json({ message: "Upload não encontrado" }, { status: 404 });
+  }
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { message: "Posição do bloco não confere com o servidor", offset: result.upload.offset, size: result.upload.size },
+      { status: 409 }
+    );
+  }
+
+  if (result.status === "partial") {
+    return NextResponse.json({ uploadId, offset: result.upload.offset, size: result.upload.size });
+  }
+
+  return NextResponse.json({ uploadId, asset: result.asset }, { status: 201 });
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { uploadId } = context.params;
+
+  if (!(await getMediaUpload(uploadId))) {
+    return NextResponse.json({ message: "Upload não encontrado" }, { status: 404 });
+  }
+
+  await cancelMediaUpload(uploadId);
+  return NextResponse.json({ uploadId, status: "cancelled" });
+}
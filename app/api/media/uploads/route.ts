@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { UPLOAD_CHUNK_BYTES } from "@/lib/media";
+import { createMediaUpload, isWithinMediaLimit, parseMediaUploadRequest } from "@/lib/mediaLibrary";
+
+/** Opens a resumable upload; the file is then sent in order with PATCH requests to the returned URL. */
+export async function POST(request: NextRequest) {
+  const uploadRequest = parseMediaUploadRequest(await request.json().catch(() => null));
+
+  if (!uploadRequest) {
+    return NextResponse.json({ message: "Arquivo inválido ou tipo de mídia não suportado" }, { status: 400 });
+  }
+
+  if (!isWithinMediaLimit(uploadRequest.size)) {
+    return NextResponse.json({ message: "Arquivo excede o tamanho máximo permitido" }, { status: 413 });
+  }
+
+  const upload = await createMediaUpload(uploadRequest);
+
+  return NextResponse.json(
+    { uploadId: upload.id, offset: upload.offset, size: upload.size, chunkSize: UPLOAD_CHUNK_BYTES },
+    { status: 201, headers: { Location: `/api/media/uploads/${upload.id}` } }
+  );
+}
@@ -0,0 +1,34 @@
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { PROJECT_ARCHIVE_EXTENSION } from "@/lib/project";
+import { exportProjectArchive } from "@/lib/projectManager";
+
+interface RouteContext {
+  params: { projectId: string };
+}
+
+const toFileName = (name: string) => name.normalize("NFD").replace(/[^a-zA-Z0-9._-]+/g, "-").replace(/^-+|-+$/g, "") || "projeto";
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  let exported;
+  try {
+    exported = await exportProjectArchive(context.params.projectId);
+  } catch (error) {
+    console.error(error);
+    const message = error instanceof Error ? error.message : "Falha ao empacotar o projeto";
+    return NextResponse.json({ message }, { status: 500 });
+  }
+
+  if (!exported) {
+    return NextResponse.json({ message: "Projeto não encontrado" }, { status: 404 });
+  }
+
+  return new NextResponse(Readable.toWeb(exported.archive.stream) as unknown as BodyInit, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-tar",
+      "Content-Disposition": `attachment; filename="${toFileName(exported.document.name)}.${PROJECT_ARCHIVE_EXTENSION}"`,
+      "Content-Length": String(exported.archive.size)
+    }
+  });
+}
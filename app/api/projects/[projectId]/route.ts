@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteProject, findMissingMedia, getProject, parseProjectSubmission, saveProject } from "@/lib/projectManager";
+
+interface RouteContext {
+  params: { projectId: string };
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const document = await getProject(context.params.projectId);
+
+  if (!document) {
+    return NextResponse.json({ message: "Projeto não encontrado" }, { status: 404 });
+  }
+
+  return NextResponse.json(document);
+}
+
+/** Saves a new revision of an existing project. */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const { projectId } = context.params;
+
+  if (!(await getProject(projectId))) {
+    return NextResponse.json({ message: "Projeto não encontrado" }, { status: 404 });
+  }
+
+  let document;
+  try {
+    document = parseProjectSubmission(await request.json().catch(() => null), projectId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Projeto inválido";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  const missing = await findMissingMedia(document);
+  if (missing.length) {
+    return NextResponse.json({ message: `Mídia não encontrada na biblioteca: ${missing.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await saveProject(document));
+  } catch (error) {
+    console.error(error);
+    const message = error instanceof Error ? error.message : "Erro ao salvar o projeto";
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { projectId } = context.params;
+
+  if (!(await getProject(projectId))) {
+    return NextResponse.json({ message: "Projeto não encontrado" }, { status: 404 });
+  }
+
+  await deleteProject(projectId);
+  return NextResponse.json({ projectId, status: "deleted" });
+}
@@ -0,0 +1,24 @@
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { NextRequest, NextResponse } from "next/server";
+import { ArchiveError } from "@/lib/archive";
+import { importProjectArchive } from "@/lib/projectManager";
+
+/** The `.aurora` file is the raw request body, so it is extracted as it arrives instead of being buffered. */
+export async function POST(request: NextRequest) {
+  if (!request.body) {
+    return NextResponse.json({ message: "Envie um arquivo .aurora" }, { status: 400 });
+  }
+
+  try {
+    const document = await importProjectArchive(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>));
+    return NextResponse.json(document, { status: 201 });
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    console.error(error);
+    const message = error instanceof Error ? error.message : "Não foi possível importar o projeto";
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuid } from "uuid";
+import { findMissingMedia, listProjects, parseProjectSubmission, saveProject } from "@/lib/projectManager";
+
+export async function GET() {
+  return NextResponse.json({ projects: await listProjects() });
+}
+
+export async function POST(request: NextRequest) {
+  let document;
+  try {
+    document = parseProjectSubmission(await request.json().catch(() => null), uuid());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Projeto inválido";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  const missing = await findMissingMedia(document);
+  if (missing.length) {
+    return NextResponse.json({ message: `Mídia não encontrada na biblioteca: ${missing.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await saveProject(document), { status: 201 });
+  } catch (error) {
+    console.error(error);
+    const message = error instanceof Error ? error.message : "Erro ao salvar o projeto";
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRenderJob } from "@/lib/renderJobManager";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const job = getRenderJob(context.params.jobId);
+
+  if (!job) {
+    return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    downloadUrl: job.status === "completed" ? `/api/render/${job.id}/video` : undefined,
+    duration: job.duration
+  });
+}
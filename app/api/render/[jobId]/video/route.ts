@@ -0,0 +1,41 @@
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { getVideoCodec } from "@/lib/outputFormat";
+import { getRenderJob, getRenderOutputPath } from "@/lib/renderJobManager";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { jobId } = context.params;
+  const job = getRenderJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
+  }
+
+  if (job.status !== "completed") {
+    return NextResponse.json({ message: "Vídeo ainda não disponível" }, { status: 409 });
+  }
+
+  const outputPath = getRenderOutputPath(jobId);
+  const fileStats = outputPath ? await stat(outputPath).catch(() => null) : null;
+  if (!outputPath || !fileStats) {
+    return NextResponse.json({ message: "Vídeo não encontrado" }, { status: 404 });
+  }
+
+  const body = Readable.toWeb(createReadStream(outputPath));
+  const { mimeType, extension } = getVideoCodec(job.codec);
+
+  return new NextResponse(body as unknown as BodyInit, {
+    status: 200,
+    headers: {
+      "Content-Type": mimeType,
+      "Content-Disposition": `attachment; filename="aurora-${jobId}.${extension}"`,
+      "Content-Length": String(fileStats.size)
+    }
+  });
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_DUCKING, getAudioAssetIds, getAudioTrack, parseAudioTracks, parseDucking } from "@/lib/audioTracks";
+import { checkClipSource } from "@/lib/clipTiming";
+import { NEUTRAL_GRADE, parseColorGrade } from "@/lib/colorGrade";
+import { isCaptionMode, parseTimeline } from "@/lib/composition";
+import { getLut, getLutPath } from "@/lib/lutLibrary";
+import { getMedia, getMediaSourcePath } from "@/lib/mediaLibrary";
+import { DEFAULT_OUTPUT, parseOutputSettings } from "@/lib/outputFormat";
+import { getProjectLutIds } from "@/lib/project";
+import { createRenderJob } from "@/lib/renderJobManager";
+import { parseTextOverlays } from "@/lib/textOverlays";
+import { getJob } from "@/lib/ttsJobManager";
+import type { RenderSource } from "@/lib/videoRenderer";
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const rawProject = formData.get("project");
+
+    if (typeof rawProject !== "string") {
+      return NextResponse.json({ message: "Projeto inválido" }, { status: 400 });
+    }
+
+    const project = JSON.parse(rawProject);
+    const timeline = parseTimeline(project?.timeline);
+
+    if (!timeline?.length) {
+      return NextResponse.json({ message: "Timeline inválida" }, { status: 400 });
+    }
+
+    // Requests from before the multi-track timeline only name the linked narration.
+    const legacyNarrationId = typeof project?.narrationJobId === "string" ? project.narrationJobId : undefined;
+    const audioTracks =
+      project?.audioTracks === undefined
+        ? parseAudioTracks([
+            {
+              kind: "narration",
+              volume: 1,
+              muted: false,
+              clips: legacyNarrationId ? [{ id: legacyNarrationId, sourceId: legacyNarrationId, offset: 0 }] : []
+            }
+          ])
+        : parseAudioTracks(project.audioTracks);
+    if (!audioTracks) {
+      return NextResponse.json({ message: "Faixas de áudio inválidas" }, { status: 400 });
+    }
+
+    const ducking = project?.ducking === undefined ? DEFAULT_DUCKING : parseDucking(project.ducking);
+    if (!ducking) {
+      return NextResponse.json({ message: "Configuração de ducking inválida" }, { status: 400 });
+    }
+
+    const overlays = project?.overlays === undefined ? [] : parseTextOverlays(project.overlays);
+    if (!overlays) {
+      return NextResponse.json({ message: "Textos sobrepostos inválidos" }, { status: 400 });
+    }
+
+    const output = project?.output === undefined ? DEFAULT_OUTPUT : parseOutputSettings(project.output);
+    if (!output) {
+      return NextResponse.json({ message: "Formato de saída inválido" }, { status: 400 });
+    }
+
+    const grade = project?.grade === undefined ? NEUTRAL_GRADE : parseColorGrade(project.grade);
+    if (!grade) {
+      return NextResponse.json({ message: "Correção de cor inválida" }, { status: 400 });
+    }
+
+    const luts: Record<string, string> = {};
+    for (const lutId of getProjectLutIds({ timeline, grade })) {
+      if (!(await getLut(lutId))) {
+        return NextResponse.json({ message: "LUT não encontrada na biblioteca" }, { status: 400 });
+      }
+      luts[lutId] = getLutPath(lutId);
+    }
+
+    const narrationIds = new Set(getAudioTrack(audioTracks, "narration")?.clips.map((clip) => clip.sourceId));
+    for (const narrationId of narrationIds) {
+      const narration = await getJob(narrationId);
+      if (!narration || narration.status !== "completed") {
+        return NextResponse.json({ message: "Narração ainda não disponível" }, { status: 409 });
+      }
+    }
+
+    const captions = project?.captions ?? "none";
+    if (!isCaptionMode(captions)) {
+      return NextResponse.json({ message: "Modo de legenda inválido" }, { status: 400 });
+    }
+    if (captions !== "none" && !narrationIds.size) {
+      return NextResponse.json({ message: "Legendas exigem uma narração na timeline" }, { status: 400 });
+    }
+
+    const sources: RenderSource[] = [];
+    const assetIds = Array.from(new Set(timeline.map((clip) => clip.assetId)));
+
+    for (const assetId of assetIds) {
+      const asset = await getMedia(assetId);
+      if (!asset || asset.type === "audio") {
+        return NextResponse.json({ message: "Mídia da timeline não encontrada na biblioteca" }, { status: 400 });
+      }
+      if (asset.type === "video") {
+        for (const clip of timeline.filter((item) => item.assetId === assetId)) {
+          const problem = clip.motion ? "O movimento de câmera só se aplica a imagens" : checkClipSource(clip, asset.duration);
+          if (problem) {
+            return NextResponse.json({ message: `${asset.name}: ${problem}` }, { status: 400 });
+          }
+        }
+      }
+      sources.push({ id: asset.id, type: asset.type, path: getMediaSourcePath(asset.id), duration: asset.duration });
+    }
+
+    for (const assetId of getAudioAssetIds(audioTracks)) {
+      const asset = await getMedia(assetId);
+      if (!asset || asset.type !== "audio") {
+        return NextResponse.json({ message: "Áudio da timeline não encontrado na biblioteca" }, { status: 400 });
+      }
+      sources.push({ id: asset.id, type: asset.type, path: getMediaSourcePath(asset.id) });
+    }
+
+    const jobId = createRenderJob({
+      timeline,
+      sources,
+      audioTracks,
+      ducking,
+      captions,
+      overlays,
+      output,
+      grade,
+      luts
+    });
+
+    return NextResponse.json({ jobId }, { status: 202 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Erro ao criar job de renderização";
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, getJobAlignment, getJobPauses } from "@/lib/ttsJobManager";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { jobId } = context.params;
+  const job = await getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
+  }
+
+  if (job.status !== "completed") {
+    return NextResponse.json({ message: "Marcações de tempo ainda não disponíveis" }, { status: 409 });
+  }
+
+  const sentences = await getJobAlignment(jobId);
+  if (!sentences) {
+    return NextResponse.json({ message: "Marcações de tempo não encontradas" }, { status: 404 });
+  }
+
+  // Pauses only refine where cuts land; the alignment is still useful without them.
+  const pauses = await getJobPauses(jobId).catch((error) => {
+    console.error(error);
+    return undefined;
+  });
+
+  return NextResponse.json({ duration: job.duration, sentences, pauses: pauses ?? [] });
+}
@@ -1,36 +1,102 @@
+import { Readable } from "stream";
 import { NextRequest, NextResponse } from "next/server";
-import { getJob, getJobAudio } from "@/lib/ttsJobManager";
+import { DEFAULT_AUDIO_FORMAT, getAudioFormat, isAudioFormat } from "@/lib/audioFormats";
+import { createEtag, matchesEtag, parseRangeHeader, type EntityInfo } from "@/lib/httpRange";
+import { getJob, getJobAudioInfo, openJobAudio, streamJobAudio } from "@/lib/ttsJobManager";
 
 interface RouteContext {
   params: { jobId: string };
 }
 
-export async function GET(_request: NextRequest, context: RouteContext) {
+const toBody = (stream: Readable) => Readable.toWeb(stream) as unknown as BodyInit;
+
+export async function GET(request: NextRequest, context: RouteContext) {
   const { jobId } = context.params;
-  const job = getJob(jobId);
+  const requestedFormat = request.nextUrl.searchParams.get("format")?.toLowerCase() ?? DEFAULT_AUDIO_FORMAT;
+
+  if (!isAudioFormat(requestedFormat)) {
+    return NextResponse.json({ message: "Formato de áudio inválido" }, { status: 400 });
+  }
+
+  const job = await getJob(jobId);
 
   if (!job) {
     return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
   }
 
+  const format = getAudioFormat(requestedFormat);
+
+  if (job.status === "queued" || job.status === "processing") {
+    const live = requestedFormat === DEFAULT_AUDIO_FORMAT ? await streamJobAudio(jobId, request.signal) : undefined;
+    if (!live) {
+      return NextResponse.json({ message: "Áudio ainda não disponível" }, { status: 409 });
+    }
+    return new NextResponse(toBody(live), {
+      status: 200,
+      headers: {
+        "Content-Type": format.contentType,
+        "Cache-Control": "no-store",
+        "Accept-Ranges": "none"
+      }
+    });
+  }
+
   if (job.status !== "completed") {
     return NextResponse.json({ message: "Áudio ainda não disponível" }, { status: 409 });
   }
 
-  const audio = getJobAudio(jobId);
-  if (!audio) {
+  let info: EntityInfo | undefined;
+  try {
+    info = await getJobAudioInfo(jobId, requestedFormat);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: "Falha ao converter o áudio" }, { status: 500 });
+  }
+
+  if (!info) {
     return NextResponse.json({ message: "Áudio não encontrado" }, { status: 404 });
   }
 
-  const arrayBuffer = audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength);
-  const body = new Uint8Array(arrayBuffer);
+  const etag = createEtag(requestedFormat, info);
+  const headers: Record<string, string> = {
+    "Content-Type": format.contentType,
+    "Content-Disposition": `attachment; filename="aurora-${jobId}.${format.extension}"`,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, max-age=0, must-revalidate",
+    "Last-Modified": new Date(info.modifiedAt).toUTCString(),
+    ETag: etag
+  };
 
-  return new NextResponse(body as unknown as BodyInit, {
+  if (matchesEtag(request.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  // A stale If-Range validator means the client's partial copy is outdated; send the whole file.
+  const ifRange = request.headers.get("if-range");
+  const range = ifRange && ifRange !== etag ? null : parseRangeHeader(request.headers.get("range"), info.size);
+
+  if (range === "unsatisfiable") {
+    return new NextResponse(null, { status: 416, headers: { ...headers, "Content-Range": `bytes */${info.size}` } });
+  }
+
+  const stream = await openJobAudio(jobId, requestedFormat, range ?? undefined);
+  if (!stream) {
+    return NextResponse.json({ message: "Áudio não encontrado" }, { status: 404 });
+  }
+
+  if (range) {
+    return new NextResponse(toBody(stream), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${range.start}-${range.end}/${info.size}`,
+        "Content-Length": String(range.end - range.start + 1)
+      }
+    });
+  }
+
+  return new NextResponse(toBody(stream), {
     status: 200,
-    headers: {
-      "Content-Type": "audio/mpeg",
-      "Content-Disposition": `attachment; filename="aurora-${jobId}.mp3"`,
-      "Content-Length": String(audio.length)
-    }
+    headers: { ...headers, "Content-Length": String(info.size) }
   });
 }
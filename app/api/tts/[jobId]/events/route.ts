@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { SynthesisJob } from "@/lib/jobStore";
+import { getJob, subscribeToJob } from "@/lib/ttsJobManager";
+import { toJobStatusPayload } from "@/lib/ttsJobStatus";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+const HEARTBEAT_MS = 15_000;
+
+const isTerminal = (job: SynthesisJob) =>
+  job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { jobId } = context.params;
+  const job = await getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+  // Set once the stream is closed by us or cancelled by the client; late job events must not enqueue after it.
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let previous: SynthesisJob | undefined;
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup?.();
+        controller.close();
+      };
+
+      // "status" always carries the full payload; the narrower events let clients react to one concern.
+      const publish = (current: SynthesisJob) => {
+        if (previous && current.updatedAt <= previous.updatedAt) return;
+        send("status", toJobStatusPayload(current));
+        if (current.progress !== previous?.progress) {
+          send("progress", { progress: current.progress });
+        }
+        if (current.chunksDone !== previous?.chunksDone || current.chunksTotal !== previous?.chunksTotal) {
+          send("chunk", { chunksDone: current.chunksDone ?? 0, chunksTotal: current.chunksTotal ?? 0 });
+        }
+        if (current.status === "failed" && previous?.status !== "failed") {
+          send("error", { message: current.error, chunkFailures: current.chunkFailures ?? [] });
+        }
+        previous = current;
+        if (isTerminal(current)) close();
+      };
+
+      const unsubscribe = subscribeToJob(jobId, publish);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": ping\n\n"));
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", close, { once: true });
+      controller.enqueue(encoder.encode("retry: 3000\n\n"));
+      publish(job);
+      // Catch any update persisted between the initial read and the subscription.
+      void getJob(jobId).then((latest) => latest && publish(latest));
+    },
+    cancel() {
+      closed = true;
+      cleanup?.();
+    }
+  });
+
+  return new NextResponse(stream as unknown as BodyInit, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
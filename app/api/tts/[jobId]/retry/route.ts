@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, isRetryable, retrySynthesisJob } from "@/lib/ttsJobManager";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const { jobId } = context.params;
+  const job = await getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
+  }
+
+  if (!isRetryable(job)) {
+    return NextResponse.json({ message: "Apenas jobs com falha ou cancelados podem ser reprocessados" }, { status: 409 });
+  }
+
+  const retried = await retrySynthesisJob(jobId);
+  if (!retried) {
+    return NextResponse.json({ message: "O job ainda está sendo finalizado. Tente novamente em instantes" }, { status: 409 });
+  }
+
+  return NextResponse.json({ jobId, retriedChunks: retried.pendingChunks }, { status: 202 });
+}
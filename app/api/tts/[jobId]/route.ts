@@ -1,22 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getJob } from "@/lib/ttsJobManager";
+import { cancelSynthesisJob, deleteSynthesisJob, getJob } from "@/lib/ttsJobManager";
+import { toJobStatusPayload } from "@/lib/ttsJobStatus";
 
 interface RouteContext {
   params: { jobId: string };
 }
 
 export async function GET(_request: NextRequest, context: RouteContext) {
-  const job = getJob(context.params.jobId);
+  const job = await getJob(context.params.jobId);
 
   if (!job) {
     return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
   }
 
-  return NextResponse.json({
-    status: job.status,
-    progress: job.progress,
-    error: job.error,
-    downloadUrl: job.status === "completed" ? `/api/tts/${job.id}/audio` : undefined,
-    duration: job.duration
-  });
+  return NextResponse.json(toJobStatusPayload(job));
+}
+
+/** Cancels a job that is still running; a finished job is removed along with its files. */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { jobId } = context.params;
+  const job = await getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
+  }
+
+  if (job.status === "queued" || job.status === "processing") {
+    const cancelled = await cancelSynthesisJob(jobId);
+    if (cancelled) {
+      return NextResponse.json({ jobId, status: "cancelled" });
+    }
+  }
+
+  if (!(await deleteSynthesisJob(jobId))) {
+    return NextResponse.json({ message: "Não foi possível remover o job" }, { status: 409 });
+  }
+
+  return NextResponse.json({ jobId, status: "deleted" });
 }
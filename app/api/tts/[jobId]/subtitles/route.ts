@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { formatSubtitles, SUBTITLE_FORMATS, type SubtitleFormat } from "@/lib/subtitles";
+import { getJob, getJobAlignment } from "@/lib/ttsJobManager";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+const CONTENT_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8"
+};
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { jobId } = context.params;
+  const format = (request.nextUrl.searchParams.get("format") ?? "srt").toLowerCase() as SubtitleFormat;
+
+  if (!SUBTITLE_FORMATS.includes(format)) {
+    return NextResponse.json({ message: "Formato de legenda inválido. Use srt ou vtt" }, { status: 400 });
+  }
+
+  const job = await getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ message: "Job não encontrado" }, { status: 404 });
+  }
+
+  if (job.status !== "completed") {
+    return NextResponse.json({ message: "Legendas ainda não disponíveis" }, { status: 409 });
+  }
+
+  const sentences = await getJobAlignment(jobId);
+  if (!sentences) {
+    return NextResponse.json({ message: "Marcações de tempo não encontradas" }, { status: 404 });
+  }
+
+  return new NextResponse(formatSubtitles(sentences, format), {
+    status: 200,
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="aurora-${jobId}.${format}"`
+    }
+  });
+}
@@ -1,12 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createSynthesisJob } from "@/lib/ttsJobManager";
+import { MAX_DIALOGUE_GAP, parseSynthesisScript, type DialogueOptions } from "@/lib/dialogue";
+import { DEFAULT_MASTERING, parseMasteringOptions } from "@/lib/mastering";
+import { SYNTHESIS_JOB_STATUSES, type SynthesisJobStatus } from "@/lib/jobStore";
+import { createSynthesisJob, listJobs } from "@/lib/ttsJobManager";
+import { toJobSummary } from "@/lib/ttsJobStatus";
+import { getProvider } from "@/lib/ttsProviders";
 
 const MAX_CHARACTERS = 100_000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const parseDialogueOptions = (value: unknown): DialogueOptions | null => {
+  if (!value || typeof value !== "object") return null;
+  const { cast, gap } = value as Record<string, unknown>;
+  if (!cast || typeof cast !== "object" || Array.isArray(cast)) return null;
+  const entries = Object.entries(cast as Record<string, unknown>);
+  if (entries.some(([, voiceId]) => typeof voiceId !== "string")) return null;
+  const parsedGap = typeof gap === "number" ? gap : Number(gap ?? 0);
+  if (!Number.isFinite(parsedGap) || parsedGap < 0 || parsedGap > MAX_DIALOGUE_GAP) return null;
+  return { cast: Object.fromEntries(entries) as Record<string, string>, gap: parsedGap };
+};
 
 export async function POST(request: NextRequest) {
   try {
     const payload = await request.json();
-    const { text, voiceId, speed, pitch, emotion } = payload ?? {};
+    const { text, voiceId, speed, pitch, emotion, engine, dialogue, mastering } = payload ?? {};
 
     if (!text || typeof text !== "string" || !text.trim()) {
       return NextResponse.json({ message: "Texto inválido" }, { status: 400 });
@@ -20,13 +38,41 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: "Selecione uma voz" }, { status: 400 });
     }
 
-    const jobId = createSynthesisJob({
+    if (engine !== undefined && (typeof engine !== "string" || !getProvider(engine))) {
+      return NextResponse.json({ message: "Motor de voz indisponível" }, { status: 400 });
+    }
+
+    const dialogueOptions = dialogue ? parseDialogueOptions(dialogue) : undefined;
+    if (dialogueOptions === null) {
+      return NextResponse.json({ message: "Configuração de diálogo inválida" }, { status: 400 });
+    }
+
+    const masteringOptions = mastering === undefined ? DEFAULT_MASTERING : parseMasteringOptions(mastering);
+    if (!masteringOptions) {
+      return NextResponse.json({ message: "Configuração de masterização inválida" }, { status: 400 });
+    }
+
+    const synthesisRequest = {
       text,
       voiceId,
       speed: typeof speed === "number" ? speed : Number(speed ?? 1),
       pitch: typeof pitch === "number" ? pitch : Number(pitch ?? 0),
-      emotion: typeof emotion === "string" ? emotion : "neutro"
-    });
+      emotion: typeof emotion === "string" ? emotion : "neutro",
+      engine,
+      dialogue: dialogueOptions,
+      mastering: masteringOptions
+    };
+
+    const { segments, errors } = parseSynthesisScript(synthesisRequest);
+    if (errors.length) {
+      return NextResponse.json({ message: "Roteiro contém marcações inválidas", errors }, { status: 422 });
+    }
+
+    if (!segments.some((segment) => segment.type === "speech")) {
+      return NextResponse.json({ message: "Roteiro não contém texto narrável" }, { status: 400 });
+    }
+
+    const jobId = await createSynthesisJob(synthesisRequest);
 
     return NextResponse.json({ jobId }, { status: 202 });
   } catch (error) {
@@ -34,3 +80,32 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ message }, { status: 500 });
   }
 }
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const page = Number(params.get("page") ?? 1);
+  const pageSize = Number(params.get("pageSize") ?? DEFAULT_PAGE_SIZE);
+
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return NextResponse.json({ message: "Paginação inválida" }, { status: 400 });
+  }
+
+  const statuses = params
+    .getAll("status")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (statuses.some((status) => !(SYNTHESIS_JOB_STATUSES as string[]).includes(status))) {
+    return NextResponse.json({ message: "Status de filtro inválido" }, { status: 400 });
+  }
+
+  const { jobs, total } = await listJobs({ statuses: statuses as SynthesisJobStatus[], page, pageSize });
+
+  return NextResponse.json({
+    jobs: jobs.map(toJobSummary),
+    page,
+    pageSize,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / pageSize))
+  });
+}
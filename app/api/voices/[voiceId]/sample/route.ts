@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVoiceSample } from "@/lib/voiceLibrary";
+import { getVoiceDefinition } from "@/lib/voices";
+
+interface RouteContext {
+  params: { voiceId: string };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { voiceId } = context.params;
+
+  if (!getVoiceDefinition(voiceId)) {
+    return NextResponse.json({ message: "Voz não encontrada" }, { status: 404 });
+  }
+
+  let sample;
+  try {
+    sample = await getVoiceSample(voiceId, request.nextUrl.searchParams.get("engine") ?? undefined);
+  } catch (error) {
+    console.error(error);
+    const message = error instanceof Error ? error.message : "Não foi possível gerar a amostra";
+    return NextResponse.json({ message }, { status: 500 });
+  }
+
+  return new NextResponse(sample, {
+    status: 200,
+    headers: {
+      "Content-Type": "audio/mpeg",
+      "Cache-Control": "private, max-age=3600",
+      "Content-Length": String(sample.length)
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteVoicePreset, getVoicePreset } from "@/lib/voiceLibrary";
+
+interface RouteContext {
+  params: { presetId: string };
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { presetId } = context.params;
+
+  if (!(await getVoicePreset(presetId))) {
+    return NextResponse.json({ message: "Predefinição não encontrada" }, { status: 404 });
+  }
+
+  await deleteVoicePreset(presetId);
+  return NextResponse.json({ presetId, status: "deleted" });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createVoicePreset, findVoicePresetByName, listVoicePresets } from "@/lib/voiceLibrary";
+import { parseVoicePreset } from "@/lib/voices";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ presets: await listVoicePresets() });
+}
+
+export async function POST(request: NextRequest) {
+  const data = parseVoicePreset(await request.json().catch(() => null));
+
+  if (!data) {
+    return NextResponse.json({ message: "Predefinição de voz inválida" }, { status: 400 });
+  }
+  if (await findVoicePresetByName(data.name)) {
+    return NextResponse.json({ message: "Já existe uma predefinição com esse nome" }, { status: 409 });
+  }
+
+  try {
+    return NextResponse.json(await createVoicePreset(data), { status: 201 });
+  } catch (error) {
+    console.error(error);
+    const message = error instanceof Error ? error.message : "Erro ao salvar a predefinição";
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
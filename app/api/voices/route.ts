@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVoiceCatalog, listVoicePresets } from "@/lib/voiceLibrary";
+
+export const dynamic = "force-dynamic";
+
+/** The active engine's voices (or those of `?engine=`), with the saved presets. */
+export async function GET(request: NextRequest) {
+  const engine = request.nextUrl.searchParams.get("engine") ?? undefined;
+  const catalog = await getVoiceCatalog(engine);
+
+  if (!catalog) {
+    return NextResponse.json({ message: "Motor de voz indisponível" }, { status: 400 });
+  }
+
+  return NextResponse.json({ ...catalog, presets: await listVoicePresets() });
+}
@@ -5,8 +5,7 @@ import { TextToAudioModule } from "@/components/modules/TextToAudioModule";
 import { VideoComposerModule } from "@/components/modules/VideoComposerModule";
 
 export default function Home() {
-  const [narrationUrl, setNarrationUrl] = useState<string | null>(null);
-  const [narrationMeta, setNarrationMeta] = useState<{ duration?: number } | null>(null);
+  const [narrationMeta, setNarrationMeta] = useState<{ jobId: string; duration?: number } | null>(null);
 
   return (
     <main className="mx-auto flex min-h-screen max-w-7xl flex-col gap-16 px-6 py-10 sm:px-8 lg:px-12">
@@ -56,12 +55,12 @@ export default function Home() {
 
       <section className="grid gap-12 lg:grid-cols-[1.05fr_0.95fr]">
         <TextToAudioModule
-          onAudioReady={(payload) => {
-            setNarrationUrl(payload.url);
-            setNarrationMeta({ duration: payload.duration });
-          }}
+          onAudioReady={(payload) => setNarrationMeta({ jobId: payload.jobId, duration: payload.duration })}
+        />
+        <VideoComposerModule
+          narrationJobId={narrationMeta?.jobId ?? null}
+          narrationDuration={narrationMeta?.duration ?? null}
         />
-        <VideoComposerModule narrationUrl={narrationUrl} narrationDuration={narrationMeta?.duration ?? null} />
       </section>
     </main>
   );
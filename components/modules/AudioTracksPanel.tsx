@@ -0,0 +1,272 @@
+"use client";
+
+import { useCallback } from "react";
+import { MusicalNoteIcon, PlusIcon, SpeakerWaveIcon, SpeakerXMarkIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { v4 as uuid } from "uuid";
+import clsx from "clsx";
+import {
+  AUDIO_TRACKS,
+  MAX_DUCKING_DEPTH,
+  MAX_DUCKING_RAMP,
+  MAX_TRACK_VOLUME,
+  type AudioClip,
+  type AudioTrack,
+  type AudioTrackKind,
+  type DuckingSettings
+} from "@/lib/audioTracks";
+
+interface AudioTracksPanelProps {
+  tracks: AudioTrack[];
+  ducking: DuckingSettings;
+  /** Scale of the clip lanes, in seconds. */
+  length: number;
+  playheadTime: number;
+  /** Source the "insert" button adds to each track, or null when nothing suitable is selected. */
+  insertableSources: Record<AudioTrackKind, string | null>;
+  describeSource: (kind: AudioTrackKind, sourceId: string) => { name: string; duration?: number };
+  onTracksChange: (update: (tracks: AudioTrack[]) => AudioTrack[]) => void;
+  onDuckingChange: (ducking: DuckingSettings) => void;
+}
+
+const LANE_COLORS: Record<AudioTrackKind, string> = {
+  narration: "bg-primary/60",
+  music: "bg-secondary/60",
+  sfx: "bg-accent/60"
+};
+
+const INSERT_LABELS: Record<AudioTrackKind, string> = {
+  narration: "Inserir narração atual",
+  music: "Inserir áudio selecionado",
+  sfx: "Inserir áudio selecionado"
+};
+
+const readSeconds = (value: string) => Math.max(0, Number(value) || 0);
+
+export function AudioTracksPanel({
+  tracks,
+  ducking,
+  length,
+  playheadTime,
+  insertableSources,
+  describeSource,
+  onTracksChange,
+  onDuckingChange
+}: AudioTracksPanelProps) {
+  const updateTrack = useCallback(
+    (kind: AudioTrackKind, update: (track: AudioTrack) => AudioTrack) =>
+      onTracksChange((prev) => prev.map((track) => (track.kind === kind ? update(track) : track))),
+    [onTracksChange]
+  );
+
+  const updateClip = useCallback(
+    (kind: AudioTrackKind, clipId: string, data: Partial<AudioClip>) =>
+      updateTrack(kind, (track) => ({
+        ...track,
+        clips: track.clips.map((clip) => (clip.id === clipId ? { ...clip, ...data } : clip))
+      })),
+    [updateTrack]
+  );
+
+  const insertClip = useCallback(
+    (kind: AudioTrackKind, sourceId: string) =>
+      updateTrack(kind, (track) => ({
+        ...track,
+        clips: [...track.clips, { id: uuid(), sourceId, offset: Number(playheadTime.toFixed(2)), volume: 1 }]
+      })),
+    [playheadTime, updateTrack]
+  );
+
+  return (
+    <div className="grid gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 text-xs text-slate-300">
+      <div className="flex items-center justify-between uppercase tracking-[0.3em] text-slate-400">
+        <span>Faixas de áudio</span>
+        <MusicalNoteIcon className="h-4 w-4" />
+      </div>
+
+      {AUDIO_TRACKS.map(({ kind, label }) => {
+        const track = tracks.find((entry) => entry.kind === kind);
+        if (!track) return null;
+        const insertable = insertableSources[kind];
+
+        return (
+          <div key={kind} className="grid gap-3 rounded-2xl border border-white/10 bg-black/30 p-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                type="button"
+                title={track.muted ? "Ativar faixa" : "Silenciar faixa"}
+                onClick={() => updateTrack(kind, (current) => ({ ...current, muted: !current.muted }))}
+                className={clsx(
+                  "rounded-full p-2 transition",
+                  track.muted ? "bg-rose-500/20 text-rose-100" : "bg-white/10 text-white hover:bg-white/20"
+                )}
+              >
+                {track.muted ? <SpeakerXMarkIcon className="h-4 w-4" /> : <SpeakerWaveIcon className="h-4 w-4" />}
+              </button>
+              <span className="text-sm font-semibold text-white">{label}</span>
+              <label className="flex flex-1 items-center gap-2">
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_TRACK_VOLUME}
+                  step={0.05}
+                  value={track.volume}
+                  aria-label={`Volume · ${label}`}
+                  onChange={(event) => updateTrack(kind, (current) => ({ ...current, volume: Number(event.target.value) }))}
+                  className="flex-1 accent-primary"
+                />
+                <span className="w-10 text-right tabular-nums">{Math.round(track.volume * 100)}%</span>
+              </label>
+              <button
+                type="button"
+                disabled={!insertable}
+                onClick={() => insertable && insertClip(kind, insertable)}
+                className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                <PlusIcon className="h-3.5 w-3.5" />
+                {INSERT_LABELS[kind]}
+              </button>
+            </div>
+
+            <div className="relative h-6 overflow-hidden rounded-lg bg-white/5">
+              {track.clips.map((clip) => {
+                const { name, duration } = describeSource(kind, clip.sourceId);
+                const clipLength = clip.duration ?? duration ?? 0;
+                return (
+                  <div
+                    key={clip.id}
+                    title={name}
+                    className={clsx("absolute inset-y-1 truncate rounded px-1 text-[10px] leading-4 text-white", LANE_COLORS[kind])}
+                    style={{
+                      left: `${(clip.offset / length) * 100}%`,
+                      width: `${Math.max(0.5, (clipLength / length) * 100)}%`
+                    }}
+                  >
+                    {name}
+                  </div>
+                );
+              })}
+              <div
+                className="pointer-events-none absolute inset-y-0 w-px bg-white/70"
+                style={{ left: `${Math.min(100, (playheadTime / length) * 100)}%` }}
+              />
+            </div>
+
+            {track.clips.map((clip) => {
+              const { name, duration } = describeSource(kind, clip.sourceId);
+              return (
+                <div key={clip.id} className="flex flex-wrap items-center gap-3">
+                  <span className="min-w-0 flex-1 truncate text-slate-200">{name}</span>
+                  <label className="flex items-center gap-1">
+                    Início (s)
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={clip.offset}
+                      onChange={(event) => updateClip(kind, clip.id, { offset: readSeconds(event.target.value) })}
+                      className="w-20 rounded-full border border-white/10 bg-black/40 px-2 py-1 text-white outline-none focus:border-primary/60"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Duração (s)
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={clip.duration ?? ""}
+                      placeholder={duration ? duration.toFixed(1) : "inteira"}
+                      onChange={(event) =>
+                        updateClip(kind, clip.id, {
+                          duration: event.target.value && Number(event.target.value) > 0 ? readSeconds(event.target.value) : undefined
+                        })
+                      }
+                      className="w-20 rounded-full border border-white/10 bg-black/40 px-2 py-1 text-white outline-none focus:border-primary/60"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Ganho
+                    <input
+                      type="range"
+                      min={0}
+                      max={MAX_TRACK_VOLUME}
+                      step={0.05}
+                      value={clip.volume}
+                      onChange={(event) => updateClip(kind, clip.id, { volume: Number(event.target.value) })}
+                      className="w-20 accent-secondary"
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    title="Remover da faixa"
+                    onClick={() =>
+                      updateTrack(kind, (current) => ({
+                        ...current,
+                        clips: current.clips.filter((entry) => entry.id !== clip.id)
+                      }))
+                    }
+                    className="rounded-full p-1.5 text-slate-300 transition hover:bg-rose-500/20 hover:text-rose-100"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <div className="grid gap-3 rounded-2xl border border-secondary/20 bg-secondary/10 p-4">
+        <label className="flex items-center gap-2 text-sm font-semibold text-white">
+          <input
+            type="checkbox"
+            checked={ducking.enabled}
+            onChange={(event) => onDuckingChange({ ...ducking, enabled: event.target.checked })}
+            className="accent-secondary"
+          />
+          Abaixar a trilha sonora durante a narração
+        </label>
+        <div className={clsx("grid gap-3 sm:grid-cols-3", !ducking.enabled && "opacity-50")}>
+          <label className="flex flex-col gap-2">
+            <span>Redução · {ducking.depth.toFixed(0)} dB</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_DUCKING_DEPTH}
+              step={1}
+              value={ducking.depth}
+              disabled={!ducking.enabled}
+              onChange={(event) => onDuckingChange({ ...ducking, depth: Number(event.target.value) })}
+              className="accent-secondary"
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span>Ataque · {ducking.attack.toFixed(2)}s</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_DUCKING_RAMP}
+              step={0.05}
+              value={ducking.attack}
+              disabled={!ducking.enabled}
+              onChange={(event) => onDuckingChange({ ...ducking, attack: Number(event.target.value) })}
+              className="accent-secondary"
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span>Retorno · {ducking.release.toFixed(2)}s</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_DUCKING_RAMP}
+              step={0.05}
+              value={ducking.release}
+              disabled={!ducking.enabled}
+              onChange={(event) => onDuckingChange({ ...ducking, release: Number(event.target.value) })}
+              className="accent-secondary"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import clsx from "clsx";
+import {
+  COLOR_ADJUSTMENTS,
+  COLOR_LOOKS,
+  NEUTRAL_GRADE,
+  findColorLook,
+  isNeutralGrade,
+  type ColorGrade,
+  type LutRecord
+} from "@/lib/colorGrade";
+
+interface ColorGradeEditorProps {
+  grade?: ColorGrade;
+  /** The LUT library, newest first. */
+  luts: LutRecord[];
+  title?: string;
+  onChange: (grade: ColorGrade | undefined) => void;
+  /** Adds a `.cube` file to the library; rejects with a message for the user. */
+  onImportLut: (file: File) => Promise<LutRecord>;
+}
+
+/**
+ * Looks, fine adjustments and a LUT for a clip or the whole programme. A grade that changes nothing is
+ * reported as undefined, so ungraded clips stay out of the saved project.
+ */
+export function ColorGradeEditor({ grade, luts, title = "Cor", onChange, onImportLut }: ColorGradeEditorProps) {
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current = grade ?? NEUTRAL_GRADE;
+  const look = findColorLook(current);
+
+  const update = (next: ColorGrade) => onChange(isNeutralGrade(next) ? undefined : next);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const record = await onImportLut(file);
+      update({ ...current, lut: record.id });
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : "Não foi possível importar a LUT");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-white/10 pt-3 text-xs text-slate-300">
+      <span>{title}</span>
+      <div className="grid grid-cols-3 gap-2 text-[11px]">
+        <button
+          type="button"
+          onClick={() => update(current.lut ? { ...NEUTRAL_GRADE, lut: current.lut } : NEUTRAL_GRADE)}
+          className={clsx(
+            "rounded-full px-2 py-1 transition",
+            COLOR_ADJUSTMENTS.every(({ value }) => current[value] === 0)
+              ? "bg-white text-black"
+              : "bg-white/10 text-slate-300 hover:bg-white/20"
+          )}
+        >
+          Original
+        </button>
+        {COLOR_LOOKS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => update(current.lut ? { ...option.grade, lut: current.lut } : option.grade)}
+            className={clsx(
+              "rounded-full px-2 py-1 transition",
+              look === option.value ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {COLOR_ADJUSTMENTS.map(({ value, label, min, max, step }) => (
+        <label key={value} className="flex flex-col gap-2">
+          <span>
+            {label} · {current[value] > 0 && min < 0 ? "+" : ""}
+            {current[value].toFixed(2)}
+          </span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={current[value]}
+            onChange={(event) => update({ ...current, [value]: Number(event.target.value) })}
+            onDoubleClick={() => update({ ...current, [value]: 0 })}
+            className="accent-primary"
+          />
+        </label>
+      ))}
+
+      <div className="flex items-center gap-2 text-[11px]">
+        <select
+          value={current.lut ?? ""}
+          onChange={(event) => update({ ...current, lut: event.target.value || undefined })}
+          className="min-w-0 flex-1 rounded-full border border-white/10 bg-black/40 px-3 py-1 text-[11px] text-white outline-none focus:border-primary/60"
+        >
+          <option value="">Sem LUT</option>
+          {current.lut && !luts.some((lut) => lut.id === current.lut) && <option value={current.lut}>LUT indisponível</option>}
+          {luts.map((lut) => (
+            <option key={lut.id} value={lut.id}>
+              {lut.name} · {lut.size}³
+            </option>
+          ))}
+        </select>
+        <label
+          className={clsx(
+            "cursor-pointer rounded-full px-2 py-1 text-white transition hover:bg-white/10",
+            importing && "pointer-events-none opacity-60"
+          )}
+        >
+          {importing ? "Importando..." : "Importar .cube"}
+          <input type="file" accept=".cube" onChange={handleImport} disabled={importing} className="hidden" />
+        </label>
+      </div>
+      {error && <p className="text-[11px] text-rose-200">{error}</p>}
+    </div>
+  );
+}
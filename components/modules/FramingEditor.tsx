@@ -0,0 +1,141 @@
+"use client";
+
+import Image from "next/image";
+import type { CSSProperties, PointerEvent } from "react";
+import clsx from "clsx";
+import { CENTER_FOCUS, CLIP_FRAMINGS, type ClipFraming, type FocalPoint, type MediaAsset } from "@/lib/composition";
+import { getContainRect, getCoverRect, type FrameRect, type Size } from "@/lib/framing";
+
+interface FramedImageProps {
+  asset: MediaAsset;
+  /** The project's canvas; the parent must have its aspect ratio. */
+  frame: Size;
+  framing?: ClipFraming;
+  focus?: FocalPoint;
+  className?: string;
+}
+
+interface FramingEditorProps {
+  asset: MediaAsset;
+  frame: Size;
+  framing?: ClipFraming;
+  focus?: FocalPoint;
+  onChange: (changes: { framing?: ClipFraming; focus?: FocalPoint }) => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toPercent = (rect: FrameRect, frame: Size): CSSProperties => ({
+  left: `${(rect.x / frame.width) * 100}%`,
+  top: `${(rect.y / frame.height) * 100}%`,
+  width: `${(rect.width / frame.width) * 100}%`,
+  height: `${(rect.height / frame.height) * 100}%`
+});
+
+const getSourceSize = (asset: MediaAsset): Size | null =>
+  asset.width && asset.height ? { width: asset.width, height: asset.height } : null;
+
+/** The asset's thumbnail placed on the canvas the way the clip's framing places the picture. */
+export function FramedImage({ asset, frame, framing = "fit", focus, className }: FramedImageProps) {
+  const source = getSourceSize(asset);
+  if (!source) {
+    return <Image src={asset.thumbnail} alt={asset.name} fill unoptimized sizes="200px" className={clsx("object-contain", className)} />;
+  }
+
+  const layers =
+    framing === "crop"
+      ? [{ rect: getCoverRect(source, frame, focus), blurred: false }]
+      : [
+          ...(framing === "fill" ? [{ rect: getCoverRect(source, frame, focus), blurred: true }] : []),
+          { rect: getContainRect(source, frame), blurred: false }
+        ];
+  return (
+    <>
+      {layers.map(({ rect, blurred }) => (
+        <div key={String(blurred)} className={clsx("absolute", blurred && "blur-sm")} style={toPercent(rect, frame)}>
+          <Image src={asset.thumbnail} alt={asset.name} fill unoptimized sizes="200px" className={className} />
+        </div>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Picks how a clip fills the canvas and, for a crop, the point it keeps in view: the whole source is shown
+ * with the part the canvas keeps outlined, and pressing or dragging on it moves the focal point.
+ */
+export function FramingEditor({ asset, frame, framing = "fit", focus = CENTER_FOCUS, onChange }: FramingEditorProps) {
+  const source = getSourceSize(asset);
+  const cover = source ? getCoverRect(source, frame, focus) : null;
+
+  const moveFocus = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const round = (value: number) => Number(clamp(value, 0, 1).toFixed(2));
+    onChange({
+      focus: { x: round((event.clientX - bounds.left) / bounds.width), y: round((event.clientY - bounds.top) / bounds.height) }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-white/10 pt-3 text-xs text-slate-300">
+      <span>Enquadramento</span>
+      <div className="grid grid-cols-3 gap-2 text-[11px]">
+        {CLIP_FRAMINGS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange({ framing: option.value === "fit" ? undefined : option.value })}
+            className={clsx(
+              "rounded-full px-2 py-1 transition",
+              framing === option.value ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {framing === "crop" && source && cover && (
+        <>
+          <div
+            className="relative cursor-crosshair touch-none overflow-hidden rounded-xl border border-white/10 bg-black"
+            style={{ aspectRatio: `${source.width} / ${source.height}` }}
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId);
+              moveFocus(event);
+            }}
+            onPointerMove={(event) => {
+              if (event.currentTarget.hasPointerCapture(event.pointerId)) moveFocus(event);
+            }}
+            onPointerUp={(event) => event.currentTarget.releasePointerCapture(event.pointerId)}
+          >
+            <Image src={asset.thumbnail} alt={asset.name} fill unoptimized sizes="200px" className="object-contain opacity-60" />
+            <div
+              className="pointer-events-none absolute border-2 border-secondary bg-white/10"
+              style={{
+                left: `${(-cover.x / cover.width) * 100}%`,
+                top: `${(-cover.y / cover.height) * 100}%`,
+                width: `${(frame.width / cover.width) * 100}%`,
+                height: `${(frame.height / cover.height) * 100}%`
+              }}
+            />
+            <div
+              className="pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-primary"
+              style={{ left: `${focus.x * 100}%`, top: `${focus.y * 100}%` }}
+            />
+          </div>
+          <div className="flex items-center justify-between text-[11px] text-slate-400">
+            <span>Toque no ponto de interesse</span>
+            <button
+              type="button"
+              onClick={() => onChange({ focus: undefined })}
+              className="rounded-full px-2 py-0.5 text-white transition hover:bg-white/10"
+            >
+              Centralizar
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
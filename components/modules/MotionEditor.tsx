@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { FramedImage } from "@/components/modules/FramingEditor";
+import {
+  MIN_CROP_SIZE,
+  TRANSITION_EASINGS,
+  type ClipFraming,
+  type ClipMotion,
+  type CropRect,
+  type FocalPoint,
+  type MediaAsset
+} from "@/lib/composition";
+import type { Size } from "@/lib/framing";
+import { KEN_BURNS_PRESETS, findMotionPreset } from "@/lib/motion";
+
+interface MotionEditorProps {
+  motion?: ClipMotion;
+  asset: MediaAsset;
+  /** The project's canvas, which the crops are fractions of. */
+  frame: Size;
+  framing?: ClipFraming;
+  focus?: FocalPoint;
+  onChange: (motion: ClipMotion | undefined) => void;
+}
+
+type Keyframe = "start" | "end";
+
+const KEYFRAMES: { value: Keyframe; label: string; color: string }[] = [
+  { value: "start", label: "Início", color: "border-secondary" },
+  { value: "end", label: "Fim", color: "border-primary" }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/** Resizes a crop around its centre, keeping it inside the frame. */
+const zoomRect = (rect: CropRect, zoom: number): CropRect => {
+  const size = round(clamp(1 / zoom, MIN_CROP_SIZE, 1));
+  const x = clamp(rect.x + rect.width / 2 - size / 2, 0, 1 - size);
+  const y = clamp(rect.y + rect.height / 2 - size / 2, 0, 1 - size);
+  return { x: round(x), y: round(y), width: size, height: size };
+};
+
+/** Position of a crop along one axis as a share of the room it has to move, so 0.5 is always centred. */
+const getPan = (offset: number, size: number) => (size < 1 ? offset / (1 - size) : 0.5);
+
+export function MotionEditor({ motion, asset, frame, framing, focus, onChange }: MotionEditorProps) {
+  const [keyframe, setKeyframe] = useState<Keyframe>("start");
+  const preset = motion ? findMotionPreset(motion) : null;
+  const rect = motion?.[keyframe];
+
+  const updateRect = (next: CropRect) => motion && onChange({ ...motion, [keyframe]: next });
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-white/10 pt-3 text-xs text-slate-300">
+      <span>Movimento de câmera</span>
+      <div className="grid grid-cols-2 gap-2 text-[11px]">
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className={clsx(
+            "rounded-full px-2 py-1 transition",
+            !motion ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+          )}
+        >
+          Parado
+        </button>
+        {KEN_BURNS_PRESETS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.motion)}
+            className={clsx(
+              "rounded-full px-2 py-1 transition",
+              preset === option.value ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {motion && rect && (
+        <>
+          <div
+            className="relative overflow-hidden rounded-xl border border-white/10 bg-black"
+            style={{ aspectRatio: `${frame.width} / ${frame.height}` }}
+          >
+            <FramedImage asset={asset} frame={frame} framing={framing} focus={focus} className="opacity-60" />
+            {KEYFRAMES.map(({ value, color }) => (
+              <div
+                key={value}
+                className={clsx(
+                  "pointer-events-none absolute border-2",
+                  color,
+                  keyframe === value ? "bg-white/10" : "border-dashed opacity-60"
+                )}
+                style={{
+                  left: `${motion[value].x * 100}%`,
+                  top: `${motion[value].y * 100}%`,
+                  width: `${motion[value].width * 100}%`,
+                  height: `${motion[value].height * 100}%`
+                }}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-[11px]">
+            {KEYFRAMES.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setKeyframe(value)}
+                className={clsx(
+                  "rounded-full px-2 py-1 transition",
+                  keyframe === value ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex flex-col gap-2">
+            <span>Zoom · {(1 / rect.width).toFixed(2)}×</span>
+            <input
+              type="range"
+              min={1}
+              max={1 / MIN_CROP_SIZE}
+              step={0.05}
+              value={1 / rect.width}
+              onChange={(event) => updateRect(zoomRect(rect, Number(event.target.value)))}
+              className="accent-primary"
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span>Horizontal</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={getPan(rect.x, rect.width)}
+              disabled={rect.width >= 1}
+              onChange={(event) => updateRect({ ...rect, x: round(Number(event.target.value) * (1 - rect.width)) })}
+              className="accent-primary"
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span>Vertical</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={getPan(rect.y, rect.height)}
+              disabled={rect.height >= 1}
+              onChange={(event) => updateRect({ ...rect, y: round(Number(event.target.value) * (1 - rect.height)) })}
+              className="accent-primary"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2 text-[11px]">
+            {TRANSITION_EASINGS.map((easing) => (
+              <button
+                key={easing}
+                type="button"
+                onClick={() => onChange({ ...motion, easing })}
+                className={clsx(
+                  "rounded-full px-2 py-1 transition",
+                  motion.easing === easing ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+                )}
+              >
+                {easing}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
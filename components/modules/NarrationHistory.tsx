@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowDownTrayIcon, ArrowPathIcon, PlayCircleIcon, TrashIcon } from "@heroicons/react/24/outline";
+import clsx from "clsx";
+
+interface JobSummary {
+  id: string;
+  status: "queued" | "processing" | "completed" | "failed" | "cancelled";
+  progress: number;
+  error?: string;
+  downloadUrl?: string;
+  duration?: number;
+  createdAt: number;
+  preview: string;
+  characters: number;
+}
+
+interface JobListResponse {
+  jobs: JobSummary[];
+  page: number;
+  totalPages: number;
+  total: number;
+}
+
+interface NarrationHistoryProps {
+  activeJobId: string | null;
+  /** Bumped by the parent whenever a job is created or settles, so the list reloads. */
+  refreshKey: number;
+  onOpen: (jobId: string) => void;
+}
+
+const STATUS_FILTERS = [
+  { value: "", label: "Todos" },
+  { value: "completed", label: "Concluídos" },
+  { value: "queued,processing", label: "Em andamento" },
+  { value: "failed", label: "Com falha" },
+  { value: "cancelled", label: "Cancelados" }
+];
+
+const PAGE_SIZE = 6;
+
+const formatDuration = (seconds?: number) => {
+  if (!seconds) return null;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, "0")}`;
+};
+
+export function NarrationHistory({ activeJobId, refreshKey, onOpen }: NarrationHistoryProps) {
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [filter, setFilter] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+
+    const query = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+    if (filter) query.set("status", filter);
+
+    fetch(`/api/tts?${query.toString()}`, { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Não foi possível carregar o histórico");
+        }
+        const data: JobListResponse = await response.json();
+        if (isCancelled) return;
+        setJobs(data.jobs);
+        setTotalPages(data.totalPages);
+        setError(null);
+        if (page > data.totalPages) setPage(data.totalPages);
+      })
+      .catch((loadError) => {
+        console.error(loadError);
+        if (!isCancelled) setError(loadError instanceof Error ? loadError.message : "Erro desconhecido");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [filter, page, refreshKey, reloadKey]);
+
+  const runAction = useCallback(async (url: string, method: "POST" | "DELETE", fallbackMessage: string) => {
+    try {
+      const response = await fetch(url, { method });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.message ?? fallbackMessage);
+      }
+      setReloadKey((prev) => prev + 1);
+    } catch (actionError) {
+      console.error(actionError);
+      setError(actionError instanceof Error ? actionError.message : fallbackMessage);
+    }
+  }, []);
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold uppercase tracking-[0.25em] text-slate-400">Histórico de narrações</h3>
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => {
+                setFilter(option.value);
+                setPage(1);
+              }}
+              className={clsx(
+                "rounded-full px-3 py-1 text-[11px] font-semibold transition",
+                filter === option.value ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-rose-200">{error}</p>}
+
+      <ul className="grid gap-2">
+        {jobs.map((job) => {
+          const inProgress = job.status === "queued" || job.status === "processing";
+          return (
+            <li
+              key={job.id}
+              className={clsx(
+                "flex flex-wrap items-center gap-3 rounded-2xl border bg-black/30 px-4 py-3 text-xs",
+                job.id === activeJobId ? "border-primary/60" : "border-white/10"
+              )}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm text-white">{job.preview || "(sem texto)"}</p>
+                <p className="mt-1 text-slate-400">
+                  {new Date(job.createdAt).toLocaleString("pt-BR")} · {job.characters.toLocaleString("pt-BR")} caracteres
+                  {formatDuration(job.duration) && ` · ${formatDuration(job.duration)}`}
+                  {inProgress && ` · ${job.progress}%`}
+                </p>
+              </div>
+              <span
+                className={clsx("rounded-full px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.2em]", {
+                  "bg-emerald-500/20 text-emerald-200": job.status === "completed",
+                  "bg-amber-500/20 text-amber-200": inProgress,
+                  "bg-rose-500/20 text-rose-200": job.status === "failed",
+                  "bg-white/10 text-slate-300": job.status === "cancelled"
+                })}
+              >
+                {job.status}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  title="Abrir"
+                  onClick={() => onOpen(job.id)}
+                  className="rounded-full p-2 text-slate-300 transition hover:bg-white/10 hover:text-white"
+                >
+                  <PlayCircleIcon className="h-4 w-4" />
+                </button>
+                {job.downloadUrl && (
+                  <a
+                    href={job.downloadUrl}
+                    title="Baixar MP3"
+                    className="rounded-full p-2 text-slate-300 transition hover:bg-white/10 hover:text-white"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                  </a>
+                )}
+                {(job.status === "failed" || job.status === "cancelled") && (
+                  <button
+                    type="button"
+                    title="Reprocessar"
+                    onClick={() => runAction(`/api/tts/${job.id}/retry`, "POST", "Não foi possível reprocessar o job")}
+                    className="rounded-full p-2 text-slate-300 transition hover:bg-white/10 hover:text-white"
+                  >
+                    <ArrowPathIcon className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  title={inProgress ? "Cancelar" : "Excluir"}
+                  onClick={() => runAction(`/api/tts/${job.id}`, "DELETE", "Não foi possível remover o job")}
+                  className="rounded-full p-2 text-slate-300 transition hover:bg-rose-500/20 hover:text-rose-100"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {!jobs.length && !isLoading && (
+          <li className="rounded-2xl border border-dashed border-white/10 px-4 py-3 text-xs text-slate-500">
+            Nenhuma narração encontrada.
+          </li>
+        )}
+      </ul>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-3 text-xs text-slate-400">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => setPage((prev) => prev - 1)}
+            className="rounded-full bg-white/10 px-3 py-1 transition hover:bg-white/20 disabled:opacity-40"
+          >
+            Anterior
+          </button>
+          <span className="tabular-nums">
+            {page} / {totalPages}
+          </span>
+          <button
+            type="button"
+            disabled={page >= totalPages}
+            onClick={() => setPage((prev) => prev + 1)}
+            className="rounded-full bg-white/10 px-3 py-1 transition hover:bg-white/20 disabled:opacity-40"
+          >
+            Próxima
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { isNeutralGrade, parseCubeLut, type ColorGrade, type CubeLut } from "@/lib/colorGrade";
+import { createColorGrader, type ColorGrader } from "@/lib/colorGrader";
+import type { MediaAsset, TimelineItem } from "@/lib/composition";
+import type { Size } from "@/lib/framing";
+import { compositeTransition, renderLayer, type LayerSource } from "@/lib/previewCanvas";
+import { getLayerCrop, getLayerSource, getPreviewFrame, type PreviewLayer } from "@/lib/previewFrame";
+
+interface PreviewCanvasProps {
+  timeline: TimelineItem[];
+  assets: MediaAsset[];
+  /** Master clock position, in timeline seconds. */
+  time: number;
+  playing: boolean;
+  /** The project's canvas; the preview draws at its shape, scaled down. */
+  outputSize: Size;
+  /** The programme's grade, applied over the composited frame. */
+  grade: ColorGrade;
+}
+
+// Longest side of the preview canvas; the export's framing is resolution independent.
+const PREVIEW_SIZE = 1280;
+
+const createCanvas = ({ width, height }: Size) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Draws the programme frame at `time` on a canvas: the clip under the playhead and, during a transition,
+ * both clips blended the way the export blends them, so a paused or scrubbed preview shows the exact frame.
+ * Videos play in hidden elements steered to the source time each layer needs. Clips are graded before they
+ * blend and the programme after, in the export's order.
+ */
+export function PreviewCanvas({ timeline, assets, time, playing, outputSize, grade }: PreviewCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layerCanvases = useRef<{ outgoing: HTMLCanvasElement; incoming: HTMLCanvasElement; scratch: HTMLCanvasElement } | null>(null);
+  const videoElements = useRef(new Map<string, HTMLVideoElement>());
+  const images = useRef(new Map<string, HTMLImageElement>());
+  // undefined until first needed; null where WebGL 2 is unavailable.
+  const grader = useRef<ColorGrader | null | undefined>(undefined);
+  // null while a LUT downloads, or when it cannot be read.
+  const luts = useRef(new Map<string, CubeLut | null>());
+
+  const scale = PREVIEW_SIZE / Math.max(outputSize.width, outputSize.height);
+  const size = { width: Math.round(outputSize.width * scale), height: Math.round(outputSize.height * scale) };
+
+  const frame = useMemo(() => getPreviewFrame(timeline, time), [time, timeline]);
+  const layers = useMemo(
+    () => (frame ? [frame.outgoing, frame.incoming].filter((layer): layer is PreviewLayer => Boolean(layer)) : []),
+    [frame]
+  );
+  const findAsset = useCallback((layer: PreviewLayer) => assets.find((asset) => asset.id === layer.clip.assetId), [assets]);
+
+  const getSource = (layer: PreviewLayer): LayerSource | null => {
+    const asset = findAsset(layer);
+    if (asset?.type === "video") return videoElements.current.get(layer.clip.id) ?? null;
+    if (asset?.type !== "image") return null;
+
+    let image = images.current.get(asset.id);
+    if (!image) {
+      image = new Image();
+      image.onload = () => drawRef.current();
+      image.src = asset.url;
+      images.current.set(asset.id, image);
+    }
+    return image.complete && image.naturalWidth ? image : null;
+  };
+
+  const getLut = (lutId: string) => {
+    if (!luts.current.has(lutId)) {
+      luts.current.set(lutId, null);
+      void fetch(`/api/luts/${lutId}`)
+        .then((response) => (response.ok ? response.text() : Promise.reject(new Error(response.statusText))))
+        .then((text) => {
+          luts.current.set(lutId, parseCubeLut(text));
+          drawRef.current();
+        })
+        .catch(() => undefined);
+    }
+    return luts.current.get(lutId) ?? null;
+  };
+
+  const applyGrade = (target: HTMLCanvasElement, layerGrade?: ColorGrade) => {
+    if (!layerGrade || isNeutralGrade(layerGrade)) return;
+    if (grader.current === undefined) grader.current = createColorGrader();
+    grader.current?.apply(target, layerGrade, layerGrade.lut ? getLut(layerGrade.lut) : null);
+  };
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    if (!frame) {
+      context.fillStyle = "#000";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    // The layers are redrawn whole every frame, so a canvas of another shape simply replaces them.
+    if (layerCanvases.current?.incoming.width !== size.width || layerCanvases.current.incoming.height !== size.height) {
+      layerCanvases.current = { outgoing: createCanvas(size), incoming: createCanvas(size), scratch: createCanvas(size) };
+    }
+    const buffers = layerCanvases.current;
+    renderLayer(buffers.incoming, getSource(frame.incoming), frame.incoming.clip, getLayerCrop(frame.incoming));
+    applyGrade(buffers.incoming, frame.incoming.clip.grade);
+    if (frame.outgoing) {
+      renderLayer(buffers.outgoing, getSource(frame.outgoing), frame.outgoing.clip, getLayerCrop(frame.outgoing));
+      applyGrade(buffers.outgoing, frame.outgoing.clip.grade);
+      compositeTransition(canvas, buffers.outgoing, buffers.incoming, frame.transition.style, frame.progress, buffers.scratch);
+    } else {
+      context.drawImage(buffers.incoming, 0, 0);
+    }
+    applyGrade(canvas, grade);
+  };
+  // Media events redraw with whatever frame is current when they fire.
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  // Every render may change the frame (the clock, an edit, a newly listed asset), and compositing it is cheap.
+  useEffect(() => {
+    draw();
+  });
+
+  // Each video layer is steered to the source frame the export would show: paused and seeked precisely when
+  // stopped or holding a frame, and left to play (corrected only when it drifts) while the clock runs.
+  useEffect(() => {
+    layers.forEach((layer) => {
+      const asset = findAsset(layer);
+      const video = videoElements.current.get(layer.clip.id);
+      if (asset?.type !== "video" || !video) return;
+
+      const source = getLayerSource(layer, asset.duration);
+      video.playbackRate = source.rate;
+      if (!playing || source.holding) {
+        video.pause();
+        if (Math.abs(video.currentTime - source.time) > 0.02) video.currentTime = source.time;
+        return;
+      }
+      if (Math.abs(video.currentTime - source.time) > 0.3) video.currentTime = source.time;
+      if (video.paused) void video.play().catch(() => undefined);
+    });
+  }, [findAsset, layers, playing]);
+
+  return (
+    <>
+      <canvas ref={canvasRef} width={size.width} height={size.height} className="absolute inset-0 h-full w-full" />
+      {layers.map((layer) => {
+        const asset = findAsset(layer);
+        if (asset?.type !== "video") return null;
+        return (
+          <video
+            key={layer.clip.id}
+            ref={(element) => {
+              if (element) videoElements.current.set(layer.clip.id, element);
+              else videoElements.current.delete(layer.clip.id);
+            }}
+            src={asset.url}
+            onLoadedData={() => drawRef.current()}
+            onSeeked={() => drawRef.current()}
+            className="pointer-events-none absolute h-px w-px opacity-0"
+            preload="auto"
+            muted
+            playsInline
+          />
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import {
+  BOX_PADDING,
+  LINE_HEIGHT,
+  REFERENCE_HEIGHT,
+  SAFE_AREAS,
+  SUBTITLE_SCALE,
+  TEXT_FONTS,
+  getOverlayLines,
+  getOverlayState,
+  type TextOverlay
+} from "@/lib/textOverlays";
+
+interface TextOverlayLayerProps {
+  overlays: TextOverlay[];
+  time: number;
+}
+
+const ALIGN_ITEMS = { left: "flex-start", center: "center", right: "flex-end" } as const;
+const ANCHOR_SHIFT = { left: "0%", center: "-50%", right: "-100%" } as const;
+
+const toRgba = (color: string, opacity: number) => {
+  const value = Number.parseInt(color.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+};
+
+// Sizes are pixels of a frame whose shorter side is REFERENCE_HEIGHT; container query units keep them
+// proportional to the preview's shorter side.
+const toPreviewSize = (size: number) => `${(size / REFERENCE_HEIGHT) * 100}cqmin`;
+
+/**
+ * Draws the overlays visible at `time` over the preview frame. The parent needs `container-type: size`.
+ * Boxes are padded with a matching negative margin so, as in the export, they grow around the text
+ * without moving it.
+ */
+export function TextOverlayLayer({ overlays, time }: TextOverlayLayerProps) {
+  return (
+    <>
+      {overlays.map((overlay) => {
+        const state = getOverlayState(overlay, time);
+        if (!state) return null;
+
+        const box: CSSProperties =
+          overlay.background && overlay.kind !== "title"
+            ? {
+                backgroundColor: toRgba(overlay.background, overlay.backgroundOpacity),
+                padding: `${BOX_PADDING}em`,
+                margin: `-${BOX_PADDING}em`
+              }
+            : {};
+        const lines = [
+          ...getOverlayLines(overlay).map((text) => ({ text, size: overlay.size })),
+          ...(overlay.subtitle ? [{ text: overlay.subtitle, size: overlay.size * SUBTITLE_SCALE }] : [])
+        ];
+
+        return (
+          <div key={overlay.id} className="pointer-events-none absolute inset-0" style={{ opacity: state.opacity }}>
+            {overlay.kind === "title" && overlay.background && (
+              <div
+                className="absolute inset-0"
+                style={{ backgroundColor: toRgba(overlay.background, overlay.backgroundOpacity) }}
+              />
+            )}
+            <div
+              className="absolute flex flex-col whitespace-pre"
+              style={{
+                left: `${(overlay.x + state.dx) * 100}%`,
+                top: `${(overlay.y + state.dy) * 100}%`,
+                transform: `translate(${ANCHOR_SHIFT[overlay.align]}, -50%)`,
+                alignItems: ALIGN_ITEMS[overlay.align],
+                fontFamily: TEXT_FONTS.find((font) => font.value === overlay.font)?.css,
+                fontWeight: overlay.bold ? 700 : 400,
+                color: overlay.color
+              }}
+            >
+              {lines.map((line, index) => (
+                <div key={index} style={{ fontSize: toPreviewSize(line.size), lineHeight: LINE_HEIGHT }}>
+                  <span className="inline-block" style={box}>
+                    {line.text}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+export function SafeAreaGuides() {
+  return (
+    <>
+      {SAFE_AREAS.map(({ label, margin }) => (
+        <div
+          key={label}
+          className="pointer-events-none absolute border border-dashed border-amber-300/60"
+          style={{ inset: `${margin * 100}%` }}
+        >
+          <span className="absolute left-1 top-0.5 text-[9px] uppercase tracking-widest text-amber-200/80">{label}</span>
+        </div>
+      ))}
+    </>
+  );
+}
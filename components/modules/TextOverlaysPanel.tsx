@@ -0,0 +1,340 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { ChatBubbleBottomCenterTextIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { v4 as uuid } from "uuid";
+import clsx from "clsx";
+import {
+  MAX_OVERLAY_ANIMATION,
+  MAX_TEXT_OVERLAYS,
+  MAX_TEXT_SIZE,
+  MIN_TEXT_SIZE,
+  TEXT_ANIMATIONS,
+  TEXT_FONTS,
+  TEXT_OVERLAY_KINDS,
+  createTextOverlay,
+  type TextAlign,
+  type TextAnimation,
+  type TextFont,
+  type TextOverlay
+} from "@/lib/textOverlays";
+
+interface TextOverlaysPanelProps {
+  overlays: TextOverlay[];
+  /** Scale of the overlay lane, in seconds. */
+  length: number;
+  playheadTime: number;
+  onChange: (update: (overlays: TextOverlay[]) => TextOverlay[]) => void;
+}
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: "left", label: "Esquerda" },
+  { value: "center", label: "Centro" },
+  { value: "right", label: "Direita" }
+];
+
+const INPUT_CLASS =
+  "rounded-full border border-white/10 bg-black/40 px-2 py-1 text-white outline-none focus:border-primary/60";
+
+const readSeconds = (value: string) => Math.max(0, Number(value) || 0);
+
+export function TextOverlaysPanel({ overlays, length, playheadTime, onChange }: TextOverlaysPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = overlays.find((overlay) => overlay.id === selectedId) ?? null;
+
+  const updateOverlay = useCallback(
+    (overlayId: string, data: Partial<TextOverlay>) =>
+      onChange((prev) => prev.map((overlay) => (overlay.id === overlayId ? { ...overlay, ...data } : overlay))),
+    [onChange]
+  );
+
+  const addOverlay = useCallback(
+    (kind: TextOverlay["kind"]) => {
+      const overlay = createTextOverlay(uuid(), kind, Number(playheadTime.toFixed(2)));
+      onChange((prev) => [...prev, overlay]);
+      setSelectedId(overlay.id);
+    },
+    [onChange, playheadTime]
+  );
+
+  return (
+    <div className="grid gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 text-xs text-slate-300">
+      <div className="flex items-center justify-between uppercase tracking-[0.3em] text-slate-400">
+        <span>Textos sobrepostos</span>
+        <ChatBubbleBottomCenterTextIcon className="h-4 w-4" />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {TEXT_OVERLAY_KINDS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            disabled={overlays.length >= MAX_TEXT_OVERLAYS}
+            onClick={() => addOverlay(value)}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            <PlusIcon className="h-3.5 w-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative h-6 overflow-hidden rounded-lg bg-white/5">
+        {overlays.map((overlay) => (
+          <button
+            key={overlay.id}
+            type="button"
+            title={overlay.text}
+            onClick={() => setSelectedId(overlay.id)}
+            className={clsx(
+              "absolute inset-y-1 truncate rounded px-1 text-left text-[10px] leading-4 text-white",
+              overlay.id === selectedId ? "bg-primary" : "bg-primary/50 hover:bg-primary/70"
+            )}
+            style={{
+              left: `${(overlay.start / length) * 100}%`,
+              width: `${Math.max(0.5, (overlay.duration / length) * 100)}%`
+            }}
+          >
+            {overlay.text}
+          </button>
+        ))}
+        <div
+          className="pointer-events-none absolute inset-y-0 w-px bg-white/70"
+          style={{ left: `${Math.min(100, (playheadTime / length) * 100)}%` }}
+        />
+      </div>
+
+      {selected && (
+        <div className="grid gap-3 rounded-2xl border border-white/10 bg-black/30 p-4">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm font-semibold text-white">
+              {TEXT_OVERLAY_KINDS.find((kind) => kind.value === selected.kind)?.label}
+            </span>
+            <button
+              type="button"
+              title="Remover texto"
+              onClick={() => {
+                onChange((prev) => prev.filter((overlay) => overlay.id !== selected.id));
+                setSelectedId(null);
+              }}
+              className="rounded-full p-1.5 text-slate-300 transition hover:bg-rose-500/20 hover:text-rose-100"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+
+          <textarea
+            value={selected.text}
+            rows={2}
+            onChange={(event) => updateOverlay(selected.id, { text: event.target.value })}
+            className="rounded-2xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-white outline-none focus:border-primary/60"
+          />
+          {selected.kind === "lower-third" && (
+            <input
+              value={selected.subtitle ?? ""}
+              placeholder="Linha secundária"
+              onChange={(event) => updateOverlay(selected.id, { subtitle: event.target.value || undefined })}
+              className={INPUT_CLASS}
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex items-center gap-1">
+              Início (s)
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={selected.start}
+                onChange={(event) => updateOverlay(selected.id, { start: readSeconds(event.target.value) })}
+                className={clsx(INPUT_CLASS, "w-20")}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Duração (s)
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={selected.duration}
+                onChange={(event) => updateOverlay(selected.id, { duration: Math.max(0.1, readSeconds(event.target.value)) })}
+                className={clsx(INPUT_CLASS, "w-20")}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span>Fonte</span>
+              <select
+                value={selected.font}
+                onChange={(event) => updateOverlay(selected.id, { font: event.target.value as TextFont })}
+                className={INPUT_CLASS}
+              >
+                {TEXT_FONTS.map((font) => (
+                  <option key={font.value} value={font.value}>
+                    {font.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Tamanho · {selected.size}px</span>
+              <input
+                type="range"
+                min={MIN_TEXT_SIZE}
+                max={MAX_TEXT_SIZE}
+                step={2}
+                value={selected.size}
+                onChange={(event) => updateOverlay(selected.id, { size: Number(event.target.value) })}
+                className="accent-primary"
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selected.bold}
+                onChange={(event) => updateOverlay(selected.id, { bold: event.target.checked })}
+                className="accent-primary"
+              />
+              Negrito
+            </label>
+            <label className="flex items-center gap-2">
+              Texto
+              <input
+                type="color"
+                value={selected.color}
+                onChange={(event) => updateOverlay(selected.id, { color: event.target.value })}
+                className="h-6 w-8 cursor-pointer rounded border border-white/10 bg-transparent"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selected.background !== null}
+                onChange={(event) => updateOverlay(selected.id, { background: event.target.checked ? "#000000" : null })}
+                className="accent-primary"
+              />
+              {selected.kind === "title" ? "Fundo da cartela" : "Caixa"}
+            </label>
+            {selected.background !== null && (
+              <>
+                <input
+                  type="color"
+                  value={selected.background}
+                  aria-label="Cor do fundo"
+                  onChange={(event) => updateOverlay(selected.id, { background: event.target.value })}
+                  className="h-6 w-8 cursor-pointer rounded border border-white/10 bg-transparent"
+                />
+                <label className="flex items-center gap-2">
+                  Opacidade
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={selected.backgroundOpacity}
+                    onChange={(event) => updateOverlay(selected.id, { backgroundOpacity: Number(event.target.value) })}
+                    className="w-20 accent-secondary"
+                  />
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span>Horizontal · {Math.round(selected.x * 100)}%</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={selected.x}
+                onChange={(event) => updateOverlay(selected.id, { x: Number(event.target.value) })}
+                className="accent-primary"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Vertical · {Math.round(selected.y * 100)}%</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={selected.y}
+                onChange={(event) => updateOverlay(selected.id, { y: Number(event.target.value) })}
+                className="accent-primary"
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-[11px]">
+            {ALIGN_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => updateOverlay(selected.id, { align: option.value })}
+                className={clsx(
+                  "rounded-full px-2 py-1 transition",
+                  selected.align === option.value ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1">
+              <span>Entrada</span>
+              <select
+                value={selected.enter}
+                onChange={(event) => updateOverlay(selected.id, { enter: event.target.value as TextAnimation })}
+                className={INPUT_CLASS}
+              >
+                {TEXT_ANIMATIONS.map((animation) => (
+                  <option key={animation.value} value={animation.value}>
+                    {animation.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Saída</span>
+              <select
+                value={selected.exit}
+                onChange={(event) => updateOverlay(selected.id, { exit: event.target.value as TextAnimation })}
+                className={INPUT_CLASS}
+              >
+                {TEXT_ANIMATIONS.map((animation) => (
+                  <option key={animation.value} value={animation.value}>
+                    {animation.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Animação · {selected.animationDuration.toFixed(1)}s</span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_OVERLAY_ANIMATION}
+                step={0.1}
+                value={selected.animationDuration}
+                onChange={(event) => updateOverlay(selected.id, { animationDuration: Number(event.target.value) })}
+                className="accent-secondary"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {!overlays.length && (
+        <p className="text-slate-500">Adicione cartelas, terços inferiores ou legendas na posição do cursor.</p>
+      )}
+    </div>
+  );
+}
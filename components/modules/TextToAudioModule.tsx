@@ -1,19 +1,29 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
-import { ArrowDownTrayIcon, SparklesIcon } from "@heroicons/react/24/outline";
+import { ArrowDownTrayIcon, PlayIcon, SparklesIcon, StopIcon } from "@heroicons/react/24/outline";
 import clsx from "clsx";
 import { motion, AnimatePresence } from "framer-motion";
-import { VOICE_DEFINITIONS } from "@/lib/voices";
-
-interface VoiceProfile {
-  id: string;
-  label: string;
-  description: string;
-  gender: "masculine" | "feminine";
-  tone: string;
-}
+import { AUDIO_FORMATS, DEFAULT_AUDIO_FORMAT, getAudioFormat, type AudioFormat } from "@/lib/audioFormats";
+import {
+  DEFAULT_DIALOGUE_GAP,
+  MAX_DIALOGUE_GAP,
+  extractSpeakers,
+  parseSynthesisScript,
+  type DialogueOptions
+} from "@/lib/dialogue";
+import {
+  DEFAULT_MASTERING,
+  LOUDNESS_PROFILES,
+  type MasteringOptions,
+  type MasteringReport
+} from "@/lib/mastering";
+import { formatScriptError, type ScriptError } from "@/lib/scriptMarkup";
+import { useJobEvents } from "@/lib/useJobEvents";
+import { NarrationHistory } from "@/components/modules/NarrationHistory";
+import { VoicePresets } from "@/components/modules/VoicePresets";
+import { EMOTIONS, PITCH_RANGE, SPEED_RANGE, type VoiceCatalogEntry, type VoicePreset } from "@/lib/voices";
 
 interface FormValues {
   text: string;
@@ -24,26 +34,35 @@ interface FormValues {
 }
 
 interface JobStatus {
-  status: "queued" | "processing" | "completed" | "failed";
+  status: "queued" | "processing" | "completed" | "failed" | "cancelled";
   progress: number;
   error?: string;
   downloadUrl?: string;
+  streamUrl?: string;
+  formatUrls?: Partial<Record<AudioFormat, string>>;
+  subtitleUrls?: { srt: string; vtt: string };
   duration?: number;
+  chunksTotal?: number;
+  chunksDone?: number;
+  chunkFailures?: { index: number; line: number; message: string }[];
+  loudness?: MasteringReport;
 }
 
-interface TextToAudioModuleProps {
-  onAudioReady?: (payload: { url: string; duration?: number }) => void;
+/** `GET /api/voices`: the active engine, what it can do and its voices, with the saved presets. */
+interface VoiceCatalog {
+  engine: { id: string; label: string; emotions: string[]; pitchRange: [number, number]; speedRange: [number, number] };
+  voices: VoiceCatalogEntry[];
+  presets: VoicePreset[];
 }
 
-const VOICE_LIBRARY: VoiceProfile[] = VOICE_DEFINITIONS.map((voice) => ({
-  id: voice.id,
-  label: voice.label,
-  description: voice.description,
-  gender: voice.gender,
-  tone: voice.tone
-}));
+interface TextToAudioModuleProps {
+  onAudioReady?: (payload: { jobId: string; url: string; duration?: number }) => void;
+}
 
-const EMOTIONS = ["neutro", "feliz", "triste", "intenso", "misterioso", "épico"] as const;
+const VOICE_GENDERS: { value: VoiceCatalogEntry["gender"]; label: string; active: string }[] = [
+  { value: "masculine", label: "Masculinas", active: "bg-primary/30 text-white" },
+  { value: "feminine", label: "Femininas", active: "bg-secondary/20 text-white" }
+];
 
 const MAX_CHARACTERS = 100_000;
 
@@ -53,11 +72,12 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors }
   } = useForm<FormValues>({
     defaultValues: {
       text: "",
-      voiceId: VOICE_LIBRARY[0]?.id ?? "",
+      voiceId: "",
       speed: 1,
       pitch: 0,
       emotion: "neutro"
@@ -66,9 +86,24 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
 
   const [jobId, setJobId] = useState<string | null>(null);
   const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [pollKey, setPollKey] = useState(0);
+  const [historyKey, setHistoryKey] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [liveUrl, setLiveUrl] = useState<string | null>(null);
+  const [downloadFormat, setDownloadFormat] = useState<AudioFormat>(DEFAULT_AUDIO_FORMAT);
+  const [serverScriptErrors, setServerScriptErrors] = useState<ScriptError[]>([]);
+  const [isDialogueMode, setIsDialogueMode] = useState(false);
+  const [cast, setCast] = useState<Record<string, string>>({});
+  const [dialogueGap, setDialogueGap] = useState(DEFAULT_DIALOGUE_GAP);
+  const [mastering, setMastering] = useState<MasteringOptions>(DEFAULT_MASTERING);
+  const [catalog, setCatalog] = useState<VoiceCatalog | null>(null);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [gender, setGender] = useState<VoiceCatalogEntry["gender"]>("masculine");
+  const [playingSample, setPlayingSample] = useState<string | null>(null);
+  const sampleAudio = useRef<HTMLAudioElement | null>(null);
   const hasEmittedAudio = useRef(false);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   const textValue = watch("text");
   const voiceId = watch("voiceId");
@@ -76,42 +111,184 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
   const pitch = watch("pitch");
   const emotion = watch("emotion");
 
-  useEffect(() => {
-    if (!jobId) return;
+  const voices = useMemo(() => catalog?.voices ?? [], [catalog]);
+  const emotions = catalog?.engine.emotions ?? EMOTIONS;
+  const pitchLocked = catalog ? catalog.engine.pitchRange[0] === catalog.engine.pitchRange[1] : false;
 
+  useEffect(() => {
     let isCancelled = false;
-
-    const interval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/tts/${jobId}`);
-        if (!response.ok) {
-          throw new Error("Falha ao consultar status");
+    fetch("/api/voices", { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) throw new Error("Não foi possível carregar as vozes");
+        const data: VoiceCatalog = await response.json();
+        if (isCancelled) return;
+        setCatalog(data);
+        setCatalogError(null);
+        const current = data.voices.find((voice) => voice.id === getValues("voiceId")) ?? data.voices[0];
+        if (current) {
+          setValue("voiceId", current.id);
+          setGender(current.gender);
         }
-        const data: JobStatus = await response.json();
-        if (!isCancelled) {
-          setJobStatus(data);
-          if (data.status === "completed" && data.downloadUrl) {
-            setAudioUrl(data.downloadUrl);
-            if (!hasEmittedAudio.current) {
-              hasEmittedAudio.current = true;
-              onAudioReady?.({ url: data.downloadUrl, duration: data.duration });
-            }
-            clearInterval(interval);
-          }
-          if (data.status === "failed") {
-            clearInterval(interval);
-          }
-        }
-      } catch (error) {
+      })
+      .catch((error) => {
         console.error(error);
-      }
-    }, 1500);
+        if (!isCancelled) setCatalogError(error instanceof Error ? error.message : "Erro desconhecido");
+      });
 
     return () => {
       isCancelled = true;
-      clearInterval(interval);
+      sampleAudio.current?.pause();
     };
-  }, [jobId, onAudioReady]);
+  }, [getValues, setValue]);
+
+  const selectGender = useCallback(
+    (next: VoiceCatalogEntry["gender"]) => {
+      setGender(next);
+      const current = voices.find((voice) => voice.id === getValues("voiceId"));
+      const first = voices.find((voice) => voice.gender === next);
+      if (current?.gender !== next && first) setValue("voiceId", first.id);
+    },
+    [getValues, setValue, voices]
+  );
+
+  const toggleSample = useCallback(
+    (voice: VoiceCatalogEntry) => {
+      sampleAudio.current?.pause();
+      if (playingSample === voice.id) {
+        setPlayingSample(null);
+        return;
+      }
+      const audio = new Audio(voice.sampleUrl);
+      audio.onended = () => setPlayingSample((prev) => (prev === voice.id ? null : prev));
+      audio.onerror = () => setPlayingSample((prev) => (prev === voice.id ? null : prev));
+      sampleAudio.current = audio;
+      setPlayingSample(voice.id);
+      void audio.play().catch(() => setPlayingSample(null));
+    },
+    [playingSample]
+  );
+
+  const applyPreset = useCallback(
+    (preset: VoicePreset) => {
+      const voice = voices.find((entry) => entry.id === preset.voiceId);
+      if (!voice) return;
+      setValue("voiceId", preset.voiceId);
+      setValue("speed", preset.speed);
+      setValue("pitch", preset.pitch);
+      setValue("emotion", preset.emotion);
+      setGender(voice.gender);
+    },
+    [setValue, voices]
+  );
+
+  const speakers = useMemo(() => (isDialogueMode ? extractSpeakers(textValue) : []), [isDialogueMode, textValue]);
+
+  const dialogueOptions = useMemo<DialogueOptions | undefined>(
+    () =>
+      isDialogueMode
+        ? { cast: Object.fromEntries(speakers.map((speaker) => [speaker, cast[speaker] ?? voiceId])), gap: dialogueGap }
+        : undefined,
+    [cast, dialogueGap, isDialogueMode, speakers, voiceId]
+  );
+
+  const scriptErrors = useMemo(
+    () => parseSynthesisScript({ text: textValue, voiceId, speed, pitch, emotion, dialogue: dialogueOptions }).errors,
+    [textValue, voiceId, speed, pitch, emotion, dialogueOptions]
+  );
+  const visibleScriptErrors = scriptErrors.length ? scriptErrors : serverScriptErrors;
+
+  const { ref: registerTextRef, ...textField } = register("text", {
+    required: "Insira o conteúdo a ser narrado",
+    maxLength: { value: MAX_CHARACTERS, message: "Limite máximo excedido" },
+    validate: (value) =>
+      !parseSynthesisScript({ ...getValues(), text: value, dialogue: dialogueOptions }).errors.length || "Corrija as marcações indicadas antes de gerar a narração"
+  });
+
+  const focusScriptError = useCallback((error: ScriptError) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = textarea.value.split("\n");
+    const offset = lines.slice(0, error.line - 1).reduce((acc, line) => acc + line.length + 1, 0) + error.column - 1;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset + 1);
+  }, []);
+
+  const isTerminalStatus = useCallback(
+    (data: JobStatus) => data.status === "completed" || data.status === "failed" || data.status === "cancelled",
+    []
+  );
+
+  const handleJobStatus = useCallback(
+    (data: JobStatus) => {
+      setJobStatus(data);
+      if (isTerminalStatus(data)) {
+        setLiveUrl(null);
+        setHistoryKey((prev) => prev + 1);
+      }
+      if (data.streamUrl) {
+        setLiveUrl((prev) => prev ?? data.streamUrl ?? null);
+      }
+      if (data.status === "completed" && data.downloadUrl && jobId) {
+        setLiveUrl(null);
+        setAudioUrl(data.downloadUrl);
+        if (!hasEmittedAudio.current) {
+          hasEmittedAudio.current = true;
+          onAudioReady?.({ jobId, url: data.downloadUrl, duration: data.duration });
+        }
+      }
+    },
+    [isTerminalStatus, jobId, onAudioReady]
+  );
+
+  const connectionError = useJobEvents<JobStatus>(jobId ? `/api/tts/${jobId}` : null, {
+    onStatus: handleJobStatus,
+    isTerminal: isTerminalStatus,
+    key: pollKey
+  });
+
+  const cancelJob = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      const response = await fetch(`/api/tts/${jobId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.message ?? "Não foi possível cancelar o job");
+      }
+      setJobStatus((prev) => (prev ? { ...prev, status: "cancelled" } : prev));
+      setLiveUrl(null);
+      setHistoryKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      const message = error instanceof Error ? error.message : "Erro desconhecido";
+      setJobStatus((prev) => (prev ? { ...prev, error: message } : prev));
+    }
+  }, [jobId]);
+
+  const openJob = useCallback((id: string) => {
+    hasEmittedAudio.current = false;
+    setAudioUrl(null);
+    setLiveUrl(null);
+    setJobStatus({ status: "queued", progress: 0 });
+    setJobId(id);
+    setPollKey((prev) => prev + 1);
+  }, []);
+
+  const retryFailedChunks = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      const response = await fetch(`/api/tts/${jobId}/retry`, { method: "POST" });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.message ?? "Não foi possível reprocessar o job");
+      }
+      setJobStatus((prev) => (prev ? { ...prev, status: "queued", error: undefined, chunkFailures: [] } : prev));
+      setPollKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      const message = error instanceof Error ? error.message : "Erro desconhecido";
+      setJobStatus((prev) => (prev ? { ...prev, error: message } : prev));
+    }
+  }, [jobId]);
 
   const onSubmit = useCallback(
     async (values: FormValues) => {
@@ -119,21 +296,27 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
       setIsSubmitting(true);
       setJobStatus({ status: "queued", progress: 1 });
       setAudioUrl(null);
+      setLiveUrl(null);
+      setServerScriptErrors([]);
 
       try {
         const response = await fetch("/api/tts", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(values)
+          body: JSON.stringify({ ...values, dialogue: dialogueOptions, mastering })
         });
 
         if (!response.ok) {
           const error = await response.json().catch(() => ({}));
+          if (Array.isArray(error?.errors)) {
+            setServerScriptErrors(error.errors);
+          }
           throw new Error(error?.message ?? "Não foi possível criar o job de síntese");
         }
 
         const data = await response.json();
         setJobId(data.jobId);
+        setHistoryKey((prev) => prev + 1);
         hasEmittedAudio.current = false;
       } catch (error) {
         console.error(error);
@@ -143,7 +326,7 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
         setIsSubmitting(false);
       }
     },
-    []
+    [dialogueOptions, mastering]
   );
 
   return (
@@ -170,63 +353,219 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
               `}</span>
             </div>
             <textarea
-              {...register("text", {
-                required: "Insira o conteúdo a ser narrado",
-                maxLength: { value: MAX_CHARACTERS, message: "Limite máximo excedido" }
-              })}
+              {...textField}
+              ref={(element) => {
+                registerTextRef(element);
+                textareaRef.current = element;
+              }}
               className="min-h-[260px] w-full resize-none rounded-2xl border border-white/10 bg-white/5 p-4 text-base text-slate-100 placeholder:text-slate-500 focus:border-primary focus:outline-none focus:ring-4 focus:ring-primary/30"
               placeholder="Cole o roteiro completo, incluindo marcações de pausa ou diretivas narrativas."
             />
+            <p className="text-xs text-slate-500">
+              Diretivas: [pausa 2s], [emoção: épico], [voz: fem-soft], [velocidade: 1.2], [tom: +2], *ênfase* ou SSML
+              (&lt;break time=&quot;500ms&quot;/&gt;, &lt;prosody&gt;, &lt;emphasis&gt;, &lt;voice&gt;).
+            </p>
             {errors.text && <p className="text-sm text-rose-400">{errors.text.message}</p>}
+            {visibleScriptErrors.length > 0 && (
+              <ul className="space-y-1 rounded-2xl border border-rose-500/30 bg-rose-500/10 p-3 text-xs text-rose-200">
+                {visibleScriptErrors.slice(0, 8).map((error) => (
+                  <li key={`${error.line}:${error.column}:${error.message}`}>
+                    <button type="button" onClick={() => focusScriptError(error)} className="text-left hover:underline">
+                      {formatScriptError(error)}
+                    </button>
+                  </li>
+                ))}
+                {visibleScriptErrors.length > 8 && <li>+{visibleScriptErrors.length - 8} outros problemas</li>}
+              </ul>
+            )}
           </div>
 
           <div className="space-y-5 rounded-2xl border border-white/10 bg-white/5 p-5">
-            <h3 className="text-sm font-semibold uppercase tracking-[0.25em] text-slate-400">Biblioteca de vozes</h3>
+            <div>
+              <h3 className="text-sm font-semibold uppercase tracking-[0.25em] text-slate-400">Biblioteca de vozes</h3>
+              {catalog && <p className="mt-1 text-xs text-slate-500">Motor: {catalog.engine.label}</p>}
+            </div>
             <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setValue("voiceId", "masc-deep")}
-                className={clsx(
-                  "flex-1 rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] transition",
-                  voiceId?.startsWith("masc") ? "bg-primary/30 text-white" : "bg-white/10 text-slate-300"
-                )}
-              >
-                Masculinas
-              </button>
-              <button
-                type="button"
-                onClick={() => setValue("voiceId", "fem-soft")}
-                className={clsx(
-                  "flex-1 rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] transition",
-                  voiceId?.startsWith("fem") ? "bg-secondary/20 text-white" : "bg-white/10 text-slate-300"
-                )}
-              >
-                Femininas
-              </button>
+              {VOICE_GENDERS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => selectGender(option.value)}
+                  className={clsx(
+                    "flex-1 rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] transition",
+                    gender === option.value ? option.active : "bg-white/10 text-slate-300"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
             </div>
 
             <div className="grid gap-3">
-              {VOICE_LIBRARY.filter((voice) => voice.gender === (voiceId?.startsWith("fem") ? "feminine" : "masculine")).map((voice) => (
-                <label
-                  key={voice.id}
+              {voices
+                .filter((voice) => voice.gender === gender)
+                .map((voice) => (
+                  <label
+                    key={voice.id}
+                    className={clsx(
+                      "flex cursor-pointer items-center justify-between gap-3 rounded-2xl border border-white/10 bg-black/30 px-4 py-3 transition hover:border-primary/50",
+                      voice.id === voiceId && "border-primary bg-primary/20"
+                    )}
+                  >
+                    <div>
+                      <p className="text-sm font-semibold text-white">{voice.label}</p>
+                      <p className="text-xs text-slate-400">{voice.description}</p>
+                      <p className="mt-1 text-[11px] text-slate-500">
+                        {voice.language} · {voice.accent} · {voice.emotions.length} emoções
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        title={playingSample === voice.id ? "Parar amostra" : "Ouvir amostra"}
+                        onClick={() => toggleSample(voice)}
+                        className="rounded-full p-1.5 text-slate-300 transition hover:bg-white/10 hover:text-white"
+                      >
+                        {playingSample === voice.id ? <StopIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+                      </button>
+                      <input
+                        type="radio"
+                        value={voice.id}
+                        className="h-4 w-4"
+                        {...register("voiceId", { required: "Selecione uma voz" })}
+                      />
+                    </div>
+                  </label>
+                ))}
+              {!catalog && !catalogError && <p className="text-xs text-slate-500">Carregando vozes...</p>}
+              {catalogError && <p className="text-xs text-rose-200">{catalogError}</p>}
+            </div>
+
+            {catalog && (
+              <VoicePresets
+                presets={catalog.presets}
+                voices={voices}
+                current={{ voiceId, speed, pitch, emotion }}
+                onPresetsChange={(presets) => setCatalog((prev) => (prev ? { ...prev, presets } : prev))}
+                onApply={applyPreset}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4 rounded-2xl border border-white/10 bg-white/5 p-5">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-semibold uppercase tracking-[0.25em] text-slate-400">Modo diálogo</h3>
+              <p className="mt-1 text-xs text-slate-400">
+                Linhas iniciadas por um personagem em maiúsculas (ex.: NARRADOR: / ANA:) recebem a voz definida no elenco.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setIsDialogueMode((prev) => !prev)}
+              className={clsx(
+                "rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] transition",
+                isDialogueMode ? "bg-secondary/30 text-white" : "bg-white/10 text-slate-300"
+              )}
+            >
+              {isDialogueMode ? "Ativo" : "Desativado"}
+            </button>
+          </div>
+
+          {isDialogueMode && (
+            <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+              <div className="grid gap-2">
+                {speakers.map((speaker) => (
+                  <label
+                    key={speaker}
+                    className="flex items-center justify-between gap-4 rounded-2xl border border-white/10 bg-black/30 px-4 py-2 text-sm"
+                  >
+                    <span className="font-semibold text-white">{speaker}</span>
+                    <select
+                      value={cast[speaker] ?? voiceId}
+                      onChange={(event) => setCast((prev) => ({ ...prev, [speaker]: event.target.value }))}
+                      className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-slate-100"
+                    >
+                      {voices.map((voice) => (
+                        <option key={voice.id} value={voice.id} className="bg-slate-900">
+                          {voice.label} · {voice.tone}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                {!speakers.length && (
+                  <p className="rounded-2xl border border-dashed border-white/10 px-4 py-3 text-xs text-slate-500">
+                    Nenhum personagem detectado no roteiro.
+                  </p>
+                )}
+              </div>
+              <div>
+                <div className="mb-3 flex items-center justify-between text-xs uppercase tracking-[0.25em] text-slate-400">
+                  <span>Intervalo entre falas</span>
+                  <span className="tabular-nums text-sm text-slate-200">{dialogueGap.toFixed(1)}s</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_DIALOGUE_GAP}
+                  step={0.1}
+                  value={dialogueGap}
+                  onChange={(event) => setDialogueGap(Number(event.target.value))}
+                  className="w-full accent-secondary"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 rounded-2xl border border-white/10 bg-white/5 p-5">
+          <div>
+            <h3 className="text-sm font-semibold uppercase tracking-[0.25em] text-slate-400">Masterização</h3>
+            <p className="mt-1 text-xs text-slate-400">
+              Normalização de loudness EBU R128 em duas passagens com limitação de true peak.
+            </p>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-4">
+            {[...LOUDNESS_PROFILES, { id: "off" as const, label: "Sem normalização", description: "Mantém o nível original" }].map(
+              (profile) => (
+                <button
+                  key={profile.id}
+                  type="button"
+                  onClick={() => setMastering((prev) => ({ ...prev, target: profile.id }))}
                   className={clsx(
-                    "flex cursor-pointer items-center justify-between rounded-2xl border border-white/10 bg-black/30 px-4 py-3 transition hover:border-primary/50",
-                    voice.id === voiceId && "border-primary bg-primary/20"
+                    "rounded-2xl border px-4 py-3 text-left transition",
+                    mastering.target === profile.id
+                      ? "border-primary/60 bg-primary/10 text-white"
+                      : "border-white/10 bg-black/30 text-slate-300 hover:border-white/30"
                   )}
                 >
-                  <div>
-                    <p className="text-sm font-semibold text-white">{voice.label}</p>
-                    <p className="text-xs text-slate-400">{voice.description}</p>
-                  </div>
-                  <input
-                    type="radio"
-                    value={voice.id}
-                    className="h-4 w-4"
-                    {...register("voiceId", { required: "Selecione uma voz" })}
-                  />
-                </label>
-              ))}
-            </div>
+                  <span className="block text-sm font-semibold">{profile.label}</span>
+                  <span className="text-[11px] text-slate-400">{profile.description}</span>
+                </button>
+              )
+            )}
+          </div>
+          <div className="flex flex-wrap gap-6 text-xs text-slate-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={mastering.deEss}
+                onChange={(event) => setMastering((prev) => ({ ...prev, deEss: event.target.checked }))}
+                className="accent-primary"
+              />
+              De-esser (suaviza sibilâncias)
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={mastering.trimSilence}
+                onChange={(event) => setMastering((prev) => ({ ...prev, trimSilence: event.target.checked }))}
+                className="accent-primary"
+              />
+              Remover silêncio no início e no fim
+            </label>
           </div>
         </div>
 
@@ -238,8 +577,8 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
             </div>
             <input
               type="range"
-              min={0.5}
-              max={2}
+              min={SPEED_RANGE[0]}
+              max={SPEED_RANGE[1]}
               step={0.01}
               {...register("speed", { valueAsNumber: true })}
               className="w-full accent-primary"
@@ -256,14 +595,17 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
             </div>
             <input
               type="range"
-              min={-10}
-              max={10}
+              min={PITCH_RANGE[0]}
+              max={PITCH_RANGE[1]}
               step={1}
+              disabled={pitchLocked}
               {...register("pitch", { valueAsNumber: true })}
-              className="w-full accent-secondary"
+              className="w-full accent-secondary disabled:opacity-40"
             />
             <p className="mt-3 text-xs text-slate-400">
-              Equalize a densidade vocal para narradores graves, neutros ou com timbres mais agudos.
+              {pitchLocked
+                ? "O motor de voz atual não ajusta o tom; o valor é ignorado na síntese."
+                : "Equalize a densidade vocal para narradores graves, neutros ou com timbres mais agudos."}
             </p>
           </div>
 
@@ -273,7 +615,7 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
               <span className="text-sm text-slate-200">{emotion}</span>
             </div>
             <div className="grid grid-cols-3 gap-2 text-xs">
-              {EMOTIONS.map((option) => (
+              {emotions.map((option) => (
                 <button
                   key={option}
                   type="button"
@@ -297,7 +639,7 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
             <div>
               <p className="font-semibold text-white">Pipeline assíncrono com otimização tonal</p>
               <p className="text-xs text-slate-300">
-                Seu áudio será renderizado em cloud compute com mixagem automática e normalização de loudness.
+                Seu áudio será renderizado em cloud compute com masterização e normalização de loudness.
               </p>
             </div>
           </div>
@@ -328,20 +670,69 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
                     ? "Renderização concluída"
                     : jobStatus.status === "failed"
                     ? jobStatus.error ?? "Erro ao processar"
+                    : jobStatus.status === "cancelled"
+                    ? "Job cancelado"
                     : "Seu job está sendo sintetizado com ajustes tonais dedicados."}
                 </p>
               </div>
-              <span
-                className={clsx("rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em]", {
-                  "bg-emerald-500/20 text-emerald-200": jobStatus.status === "completed",
-                  "bg-amber-500/20 text-amber-200": jobStatus.status === "processing" || jobStatus.status === "queued",
-                  "bg-rose-500/20 text-rose-200": jobStatus.status === "failed"
-                })}
-              >
-                {jobStatus.status}
-              </span>
+              <div className="flex items-center gap-3">
+                {jobId && (jobStatus.status === "queued" || jobStatus.status === "processing") && (
+                  <button
+                    type="button"
+                    onClick={cancelJob}
+                    className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-rose-400/60 hover:text-rose-100"
+                  >
+                    Cancelar
+                  </button>
+                )}
+                {jobId && jobStatus.status === "cancelled" && (
+                  <button
+                    type="button"
+                    onClick={retryFailedChunks}
+                    className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-white/40"
+                  >
+                    Retomar
+                  </button>
+                )}
+                <span
+                  className={clsx("rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em]", {
+                    "bg-emerald-500/20 text-emerald-200": jobStatus.status === "completed",
+                    "bg-amber-500/20 text-amber-200": jobStatus.status === "processing" || jobStatus.status === "queued",
+                    "bg-rose-500/20 text-rose-200": jobStatus.status === "failed",
+                    "bg-white/10 text-slate-300": jobStatus.status === "cancelled"
+                  })}
+                >
+                  {jobStatus.status}
+                </span>
+              </div>
             </div>
-            {jobStatus.status !== "failed" && (
+            {connectionError && !isTerminalStatus(jobStatus) && (
+              <p className="text-xs text-amber-200">{connectionError}</p>
+            )}
+            {Boolean(jobStatus.chunksTotal && jobStatus.chunksTotal > 1) && (
+              <p className="text-xs tabular-nums text-slate-400">
+                Trechos sintetizados · {jobStatus.chunksDone ?? 0} / {jobStatus.chunksTotal}
+              </p>
+            )}
+            {jobStatus.status === "failed" && Boolean(jobStatus.chunkFailures?.length) && (
+              <div className="space-y-3 rounded-2xl border border-rose-500/30 bg-rose-500/10 p-4 text-xs text-rose-200">
+                <ul className="space-y-1">
+                  {jobStatus.chunkFailures?.map((failure) => (
+                    <li key={failure.index}>
+                      Trecho {failure.index + 1} (linha {failure.line}): {failure.message}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={retryFailedChunks}
+                  className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-black transition hover:bg-slate-200"
+                >
+                  Reprocessar trechos com falha
+                </button>
+              </div>
+            )}
+            {jobStatus.status !== "failed" && jobStatus.status !== "cancelled" && (
               <div className="relative h-3 overflow-hidden rounded-full bg-white/10">
                 <div
                   className="absolute inset-y-0 left-0 rounded-full bg-gradient-to-r from-primary via-secondary to-primary"
@@ -349,22 +740,66 @@ export function TextToAudioModule({ onAudioReady }: TextToAudioModuleProps) {
                 />
               </div>
             )}
+            {jobStatus.loudness && (
+              <p className="text-xs tabular-nums text-slate-400">
+                Loudness medida · {jobStatus.loudness.integrated.toFixed(1)} LUFS (alvo {jobStatus.loudness.targetIntegrated} LUFS) ·
+                pico {jobStatus.loudness.truePeak.toFixed(1)} dBTP · LRA {jobStatus.loudness.range.toFixed(1)} LU
+                {jobStatus.loudness.trimmed > 0 && ` · ${jobStatus.loudness.trimmed.toFixed(2)}s de silêncio removidos`}
+              </p>
+            )}
+            {liveUrl && !audioUrl && (
+              <div className="flex flex-wrap items-center gap-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+                <span className="text-xs uppercase tracking-[0.25em] text-slate-400">Prévia enquanto renderiza</span>
+                <audio controls src={liveUrl} className="w-full min-w-[260px] flex-1" />
+              </div>
+            )}
             {audioUrl && (
               <div className="flex flex-wrap items-center gap-4 rounded-2xl border border-white/10 bg-white/5 p-4">
                 <audio controls src={audioUrl} className="w-full min-w-[260px] flex-1" />
-                <a
-                  href={audioUrl}
-                  download="aurora-narracao.mp3"
-                  className="inline-flex items-center gap-2 rounded-full bg-white px-5 py-2 text-sm font-semibold text-black transition hover:bg-slate-200"
-                >
-                  <ArrowDownTrayIcon className="h-5 w-5" />
-                  Baixar MP3 320kbps
-                </a>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={downloadFormat}
+                    onChange={(event) => setDownloadFormat(event.target.value as AudioFormat)}
+                    className="rounded-full border border-white/10 bg-white/10 px-3 py-2 text-xs text-slate-100"
+                  >
+                    {AUDIO_FORMATS.map((format) => (
+                      <option key={format.id} value={format.id} className="bg-slate-900">
+                        {format.label} · {format.description}
+                      </option>
+                    ))}
+                  </select>
+                  <a
+                    href={jobStatus.formatUrls?.[downloadFormat] ?? audioUrl}
+                    download={`aurora-narracao.${getAudioFormat(downloadFormat).extension}`}
+                    className="inline-flex items-center gap-2 rounded-full bg-white px-5 py-2 text-sm font-semibold text-black transition hover:bg-slate-200"
+                  >
+                    <ArrowDownTrayIcon className="h-5 w-5" />
+                    Baixar {getAudioFormat(downloadFormat).label}
+                  </a>
+                </div>
+                {jobStatus.subtitleUrls && (
+                  <div className="flex gap-2">
+                    <a
+                      href={jobStatus.subtitleUrls.srt}
+                      className="rounded-full border border-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:border-white/40"
+                    >
+                      Legendas SRT
+                    </a>
+                    <a
+                      href={jobStatus.subtitleUrls.vtt}
+                      className="rounded-full border border-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:border-white/40"
+                    >
+                      Legendas VTT
+                    </a>
+                  </div>
+                )}
               </div>
             )}
           </motion.div>
         )}
       </AnimatePresence>
+
+      <NarrationHistory activeJobId={jobId} refreshKey={historyKey} onOpen={openJob} />
     </div>
   );
 }
@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PointerEvent } from "react";
+import { MagnifyingGlassMinusIcon, MagnifyingGlassPlusIcon } from "@heroicons/react/24/outline";
+import clsx from "clsx";
+import { getClipStart, type TimelineItem } from "@/lib/composition";
+import { PREVIEW_FPS, formatTimecode, snapToFrame } from "@/lib/previewFrame";
+
+interface TimelineRulerProps {
+  timeline: TimelineItem[];
+  /** Seconds the ruler spans. */
+  length: number;
+  time: number;
+  activeIndex: number;
+  onSeek: (time: number) => void;
+}
+
+// Pixels per second; at the widest zoom every frame is a dozen pixels apart.
+const MIN_ZOOM = 2;
+const MAX_ZOOM = PREVIEW_FPS * 12;
+const DEFAULT_ZOOM = 40;
+const ZOOM_STEP = 1.5;
+// Tick spacings in seconds, the first one that leaves room for a label is used.
+const TICK_STEPS = [1 / PREVIEW_FPS, 5 / PREVIEW_FPS, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300];
+const MIN_LABEL_SPACING = 64;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const formatTick = (time: number, step: number) =>
+  step < 1 ? formatTimecode(time) : `${Math.floor(time / 60)}:${String(Math.round(time % 60)).padStart(2, "0")}`;
+
+/**
+ * A zoomable time ruler over the programme with the clips laid out under it. Pressing or dragging anywhere
+ * on it moves the playhead, snapped to frames; ctrl + wheel zooms, and the view follows the playhead.
+ */
+export function TimelineRuler({ timeline, length, time, activeIndex, onSeek }: TimelineRulerProps) {
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const isScrubbing = useRef(false);
+
+  const span = Math.max(length, 1);
+  const width = span * zoom;
+  const step = TICK_STEPS.find((candidate) => candidate * zoom >= MIN_LABEL_SPACING) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks = Array.from({ length: Math.floor(span / step) + 1 }, (_, index) => index * step);
+
+  const seekAt = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    onSeek(snapToFrame(clamp((event.clientX - bounds.left) / zoom, 0, length)));
+  };
+
+  const fitToView = () => {
+    const viewport = scrollRef.current?.clientWidth;
+    if (viewport) setZoom(clamp(viewport / span, MIN_ZOOM, MAX_ZOOM));
+  };
+
+  // React's wheel listeners are passive, and the browser's own ctrl + wheel page zoom has to be prevented.
+  useEffect(() => {
+    const viewport = scrollRef.current;
+    if (!viewport) return;
+    const onWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      setZoom((prev) => clamp(event.deltaY < 0 ? prev * ZOOM_STEP : prev / ZOOM_STEP, MIN_ZOOM, MAX_ZOOM));
+    };
+    viewport.addEventListener("wheel", onWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", onWheel);
+  }, []);
+
+  // Keeps the playhead in view while playing or stepping, but leaves the scroll alone during a drag.
+  useEffect(() => {
+    const viewport = scrollRef.current;
+    if (!viewport || isScrubbing.current) return;
+    const x = time * zoom;
+    if (x < viewport.scrollLeft || x > viewport.scrollLeft + viewport.clientWidth) {
+      viewport.scrollLeft = Math.max(0, x - viewport.clientWidth * 0.1);
+    }
+  }, [time, zoom]);
+
+  return (
+    <div className="grid gap-2 px-5 py-4 text-[11px] text-slate-400">
+      <div className="flex items-center justify-end gap-1">
+        <button
+          type="button"
+          title="Afastar"
+          onClick={() => setZoom((prev) => clamp(prev / ZOOM_STEP, MIN_ZOOM, MAX_ZOOM))}
+          disabled={zoom <= MIN_ZOOM}
+          className="rounded-full p-1 text-slate-300 transition hover:bg-white/10 disabled:opacity-40"
+        >
+          <MagnifyingGlassMinusIcon className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          title="Aproximar"
+          onClick={() => setZoom((prev) => clamp(prev * ZOOM_STEP, MIN_ZOOM, MAX_ZOOM))}
+          disabled={zoom >= MAX_ZOOM}
+          className="rounded-full p-1 text-slate-300 transition hover:bg-white/10 disabled:opacity-40"
+        >
+          <MagnifyingGlassPlusIcon className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={fitToView}
+          className="rounded-full border border-white/10 px-2 py-0.5 font-semibold text-white transition hover:bg-white/10"
+        >
+          Ajustar
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="overflow-x-auto scrollbar-thin">
+        <div
+          className="relative h-14 cursor-pointer touch-none select-none"
+          style={{ width }}
+          onPointerDown={(event) => {
+            event.currentTarget.setPointerCapture(event.pointerId);
+            isScrubbing.current = true;
+            seekAt(event);
+          }}
+          onPointerMove={(event) => {
+            if (isScrubbing.current) seekAt(event);
+          }}
+          onPointerUp={(event) => {
+            event.currentTarget.releasePointerCapture(event.pointerId);
+            isScrubbing.current = false;
+          }}
+          onPointerCancel={() => {
+            isScrubbing.current = false;
+          }}
+        >
+          {ticks.map((tick) => (
+            <div key={tick} className="absolute top-0 h-3 border-l border-white/20" style={{ left: tick * zoom }}>
+              <span className="absolute left-1 top-0 whitespace-nowrap tabular-nums leading-3">{formatTick(tick, step)}</span>
+            </div>
+          ))}
+          <div className="absolute inset-x-0 bottom-1 h-6">
+            {timeline.map((clip, index) => (
+              <div
+                key={clip.id}
+                className={clsx(
+                  "absolute inset-y-0 rounded border",
+                  index === activeIndex ? "border-primary/70 bg-primary/30" : "border-white/10 bg-white/10"
+                )}
+                style={{ left: getClipStart(timeline, index) * zoom, width: Math.max(1, clip.duration * zoom - 1) }}
+              />
+            ))}
+          </div>
+          <div className="pointer-events-none absolute inset-y-0 w-px bg-rose-400" style={{ left: time * zoom }}>
+            <div className="absolute -left-1.5 top-0 h-3 w-3 rotate-45 rounded-sm bg-rose-400" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
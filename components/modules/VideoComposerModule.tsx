@@ -1,85 +1,318 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
-import type { ChangeEvent, DragEvent } from "react";
+import type { ChangeEvent, DragEvent, KeyboardEvent, MouseEvent } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import { v4 as uuid } from "uuid";
-import { BoltIcon, PlayCircleIcon, PlusCircleIcon, SwatchIcon } from "@heroicons/react/24/outline";
+import {
+  AdjustmentsHorizontalIcon,
+  ArrowDownTrayIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  ArrowUpTrayIcon,
+  CloudArrowUpIcon,
+  FilmIcon,
+  FolderOpenIcon,
+  PlayCircleIcon,
+  PlusCircleIcon,
+  ScissorsIcon,
+  SwatchIcon,
+  TrashIcon
+} from "@heroicons/react/24/outline";
 import clsx from "clsx";
+import { AudioTracksPanel } from "@/components/modules/AudioTracksPanel";
+import { ColorGradeEditor } from "@/components/modules/ColorGradeEditor";
+import { FramingEditor } from "@/components/modules/FramingEditor";
+import { MotionEditor } from "@/components/modules/MotionEditor";
+import { PreviewCanvas } from "@/components/modules/PreviewCanvas";
+import { SafeAreaGuides, TextOverlayLayer } from "@/components/modules/TextOverlayLayer";
+import { TextOverlaysPanel } from "@/components/modules/TextOverlaysPanel";
+import { TimelineRuler } from "@/components/modules/TimelineRuler";
+import type { SentenceTiming } from "@/lib/alignment";
+import {
+  DEFAULT_DUCKING,
+  createAudioTracks,
+  getAudioAssetIds,
+  getAudioTrack,
+  getAudioTracksEnd,
+  placeNarration,
+  placeNarrationPauses,
+  type AudioTrack,
+  type AudioTrackKind,
+  type DuckingSettings
+} from "@/lib/audioTracks";
+import { getCutPoints, planCutDurations, rescaleDurations, snapDurations, type DurationLimits } from "@/lib/autoFit";
+import { getClipWindow, splitClip } from "@/lib/clipTiming";
+import { NEUTRAL_GRADE, type ColorGrade, type LutRecord } from "@/lib/colorGrade";
+import {
+  CAPTION_MODES,
+  CLIP_FILLS,
+  MAX_CLIP_SPEED,
+  MAX_TIMELINE_ITEMS,
+  MIN_CLIP_SPEED,
+  TRANSITIONS,
+  TRANSITION_EASINGS,
+  getClipIndexAt,
+  getClipStart,
+  type CaptionMode,
+  type ClipFill,
+  type MediaAsset,
+  type TimelineItem
+} from "@/lib/composition";
+import { getDuckingEnvelope, getSpeechIntervals } from "@/lib/ducking";
+import { MEDIA_ACCEPT, getMediaFileUrl, toMediaAsset, type MediaRecord } from "@/lib/media";
+import { uploadMediaFile } from "@/lib/mediaUpload";
+import { getAutoMotion } from "@/lib/motion";
+import {
+  DEFAULT_OUTPUT,
+  OUTPUT_FORMATS,
+  OUTPUT_QUALITIES,
+  VIDEO_CODECS,
+  getOutputFormat,
+  getVideoBitrate,
+  getVideoCodec,
+  type OutputSettings
+} from "@/lib/outputFormat";
+import type { PauseTiming } from "@/lib/pauseDetection";
+import { PREVIEW_FPS, formatTimecode, snapToFrame } from "@/lib/previewFrame";
+import { createPreviewMixer, type MixerTrack, type PreviewMixer } from "@/lib/previewMixer";
+import { PROJECT_ARCHIVE_EXTENSION, PROJECT_SCHEMA_VERSION, type ProjectDocument, type ProjectSummary } from "@/lib/project";
+import { buildCues, findActiveCue } from "@/lib/subtitles";
+import type { TextOverlay } from "@/lib/textOverlays";
+import {
+  DEFAULT_TRANSITION_DURATION,
+  DEFAULT_TRANSITION_EASING,
+  MAX_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  resolveTransition,
+  supportsEasing
+} from "@/lib/transitions";
+import { useEditHistory } from "@/lib/useEditHistory";
 
 interface VideoComposerModuleProps {
-  narrationUrl: string | null;
+  /** The narration most recently produced by the text-to-audio module. */
+  narrationJobId: string | null;
   narrationDuration: number | null;
 }
 
-type MediaType = "image" | "video";
+interface NarrationSource {
+  duration?: number;
+  sentences?: SentenceTiming[];
+  pauses?: PauseTiming[];
+  unavailable?: boolean;
+}
 
-type TransitionStyle = "corte" | "fade" | "zoom" | "slide" | "flash" | "glitch";
+/** The part of the project the edit history covers. */
+interface Composition {
+  timeline: TimelineItem[];
+  audioTracks: AudioTrack[];
+  overlays: TextOverlay[];
+}
 
-interface MediaAsset {
+interface MediaUploadStatus {
   id: string;
-  type: MediaType;
   name: string;
-  url: string;
-  thumbnail: string;
-  duration?: number;
+  progress: number;
+  error?: string;
 }
 
-interface TimelineItem {
-  id: string;
-  assetId: string;
-  duration: number;
-  transition: TransitionStyle;
+interface RenderStatus {
+  status: "queued" | "processing" | "completed" | "failed";
+  progress: number;
+  error?: string;
+  downloadUrl?: string;
+  duration?: number;
 }
 
-const TRANSITIONS: TransitionStyle[] = ["corte", "fade", "zoom", "slide", "flash", "glitch"];
+const LAST_PROJECT_KEY = "aurora:lastProjectId";
+const DEFAULT_CLIP_DURATION = 8;
+const MIN_CLIP_DURATION = 0.5;
+const MAX_CLIP_DURATION = 120;
 
-const readVideoDuration = (file: File): Promise<number | undefined> =>
-  new Promise((resolve) => {
-    if (!file.type.startsWith("video")) {
-      resolve(undefined);
-      return;
-    }
-    const url = URL.createObjectURL(file);
-    const video = document.createElement("video");
-    video.preload = "metadata";
-    video.src = url;
-    video.onloadedmetadata = () => {
-      resolve(video.duration || undefined);
-      URL.revokeObjectURL(url);
-    };
-    video.onerror = () => {
-      resolve(undefined);
-      URL.revokeObjectURL(url);
-    };
-  });
+// How far J steps back, in seconds.
+const JOG_STEP = 5;
+
+const SHORTCUTS = "Espaço/K/L reproduzir · J voltar · ,/. quadro · ←/→ clipes · S dividir · Del remover · Ctrl+Z/Y desfazer/refazer · Ctrl+C/V/D";
 
-const generatePreview = (file: File): Promise<string> =>
-  new Promise((resolve) => {
-    const url = URL.createObjectURL(file);
-    resolve(url);
-  });
+const FILL_OPTIONS: { value: ClipFill | undefined; label: string }[] = [{ value: undefined, label: "Cortar no fim" }, ...CLIP_FILLS];
+const DEFAULT_PROJECT_NAME = "Projeto sem título";
 
-export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoComposerModuleProps) {
+const withDurations = (timeline: TimelineItem[], durations: number[]) =>
+  timeline.every((clip, index) => clip.duration === durations[index])
+    ? timeline
+    : timeline.map((clip, index) => ({ ...clip, duration: durations[index] }));
+
+const addNarrationClip = (tracks: AudioTrack[], jobId: string, offset = 0) =>
+  tracks.map((track) =>
+    track.kind === "narration" ? { ...track, clips: [...track.clips, { id: uuid(), sourceId: jobId, offset, volume: 1 }] } : track
+  );
+
+const createComposition = (narrationJobId: string | null = null): Composition => ({
+  timeline: [],
+  audioTracks: narrationJobId ? addNarrationClip(createAudioTracks(), narrationJobId) : createAudioTracks(),
+  overlays: []
+});
+
+// Returns the same composition when a part did not change, so the history records nothing.
+const withPart = <K extends keyof Composition>(composition: Composition, key: K, value: Composition[K]) =>
+  composition[key] === value ? composition : { ...composition, [key]: value };
+
+// Typing and form controls keep their own keys; shortcuts only apply elsewhere in the composer.
+const isEditingField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Space and Enter activate a focused button or link rather than driving the preview.
+const isActivationKey = (event: KeyboardEvent<HTMLElement>) =>
+  (event.key === " " || event.key === "Enter") &&
+  event.target instanceof HTMLElement &&
+  Boolean(event.target.closest("button, a, [role=button]"));
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => ({}));
+  return typeof body?.message === "string" ? body.message : fallback;
+};
+
+export function VideoComposerModule({ narrationJobId, narrationDuration }: VideoComposerModuleProps) {
   const [mediaLibrary, setMediaLibrary] = useState<MediaAsset[]>([]);
-  const [timeline, setTimeline] = useState<TimelineItem[]>([]);
+  const history = useEditHistory<Composition>(createComposition);
+  const { timeline, audioTracks, overlays } = history.state;
+  const [selectedClipIds, setSelectedClipIds] = useState<string[]>([]);
   const [mode, setMode] = useState<"simple" | "advanced">("simple");
   const [selectedLibraryId, setSelectedLibraryId] = useState<string | null>(null);
   const [activeClipIndex, setActiveClipIndex] = useState(0);
   const [isPreviewPlaying, setIsPreviewPlaying] = useState(false);
+  const [renderJobId, setRenderJobId] = useState<string | null>(null);
+  const [renderStatus, setRenderStatus] = useState<RenderStatus | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [captionMode, setCaptionMode] = useState<CaptionMode>("none");
+  const [ducking, setDucking] = useState<DuckingSettings>(DEFAULT_DUCKING);
+  const [narrationSources, setNarrationSources] = useState<Record<string, NarrationSource>>({});
+  const [playheadTime, setPlayheadTime] = useState(0);
+  const [fitToNarration, setFitToNarration] = useState(false);
+  const [output, setOutput] = useState<OutputSettings>(DEFAULT_OUTPUT);
+  const [grade, setGrade] = useState<ColorGrade>(NEUTRAL_GRADE);
+  const [luts, setLuts] = useState<LutRecord[]>([]);
+  const [showSafeAreas, setShowSafeAreas] = useState(false);
+  const [autoFitIds, setAutoFitIds] = useState<string[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isProjectListOpen, setIsProjectListOpen] = useState(false);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [projectMessage, setProjectMessage] = useState<{ tone: "info" | "error"; text: string } | null>(null);
+  const [uploads, setUploads] = useState<MediaUploadStatus[]>([]);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [timelineNotice, setTimelineNotice] = useState<string | null>(null);
 
-  const audioDuration = narrationDuration ?? 120;
+  const mixerRef = useRef<PreviewMixer | null>(null);
+  const playheadRef = useRef(0);
+  playheadRef.current = playheadTime;
+  const linkedNarrationRef = useRef<string | null>(null);
+  const clipboardRef = useRef<TimelineItem[]>([]);
+  // The clip a shift-click extends the selection from.
+  const selectionAnchorRef = useRef<string | null>(null);
+
+  const outputFormat = getOutputFormat(output.format);
+  const outputCodec = getVideoCodec(output.codec);
+
+  const { apply: applyEdit, replace: replaceComposition, reset: resetHistory } = history;
+  const editTimeline = useCallback(
+    (label: string, update: (timeline: TimelineItem[]) => TimelineItem[], group?: string) =>
+      applyEdit(label, (prev) => withPart(prev, "timeline", update(prev.timeline)), group),
+    [applyEdit]
+  );
+  const editAudioTracks = useCallback(
+    (update: (tracks: AudioTrack[]) => AudioTrack[]) =>
+      applyEdit("Faixas de áudio", (prev) => withPart(prev, "audioTracks", update(prev.audioTracks)), "audio"),
+    [applyEdit]
+  );
+  const editOverlays = useCallback(
+    (update: (overlays: TextOverlay[]) => TextOverlay[]) =>
+      applyEdit("Textos sobrepostos", (prev) => withPart(prev, "overlays", update(prev.overlays)), "overlays"),
+    [applyEdit]
+  );
 
   const composedDuration = useMemo(
     () => timeline.reduce((acc, clip) => acc + clip.duration, 0),
     [timeline]
   );
 
-  const narrationAvailable = Boolean(narrationUrl);
+  const narrationTrack = getAudioTrack(audioTracks, "narration");
+  const narrationIds = useMemo(
+    () => Array.from(new Set(narrationTrack?.clips.map((clip) => clip.sourceId) ?? [])),
+    [narrationTrack]
+  );
+  const hasNarration = narrationIds.length > 0;
+  const narrationAligned = hasNarration && narrationIds.every((id) => narrationSources[id]?.sentences);
+
+  const sourceDuration = useCallback(
+    (sourceId: string) =>
+      narrationSources[sourceId]?.duration ?? mediaLibrary.find((asset) => asset.id === sourceId)?.duration,
+    [mediaLibrary, narrationSources]
+  );
+  const narrationEnd = narrationTrack ? getAudioTracksEnd([narrationTrack], sourceDuration) : 0;
+  const audioEnd = useMemo(() => getAudioTracksEnd(audioTracks, sourceDuration), [audioTracks, sourceDuration]);
+  // The picture sets the length of the programme; without clips the preview can still audition the audio.
+  const programmeLength = composedDuration || audioEnd;
+  const audioDuration = narrationEnd || (narrationDuration ?? 0);
+  const fitTarget = fitToNarration ? narrationEnd : 0;
+
+  const placedNarration = useMemo(
+    () =>
+      placeNarration(
+        narrationTrack,
+        Object.fromEntries(Object.entries(narrationSources).map(([id, source]) => [id, source.sentences]))
+      ),
+    [narrationSources, narrationTrack]
+  );
+  const placedPauses = useMemo(
+    () =>
+      placeNarrationPauses(
+        narrationTrack,
+        Object.fromEntries(Object.entries(narrationSources).map(([id, source]) => [id, source.pauses]))
+      ),
+    [narrationSources, narrationTrack]
+  );
+  const cutPoints = useMemo(() => getCutPoints(placedNarration, placedPauses), [placedNarration, placedPauses]);
+  const captionCues = useMemo(() => buildCues(placedNarration), [placedNarration]);
+  const activeCue = useMemo(() => findActiveCue(captionCues, playheadTime), [captionCues, playheadTime]);
+
+  const mixerTracks = useMemo((): MixerTrack[] => {
+    const envelope =
+      ducking.enabled && !narrationTrack?.muted
+        ? getDuckingEnvelope(getSpeechIntervals(placedNarration, ducking), ducking)
+        : undefined;
+    return audioTracks.map((track) => ({
+      kind: track.kind,
+      volume: track.volume,
+      muted: track.muted,
+      clips: track.clips.map((clip) => ({
+        url: track.kind === "narration" ? `/api/tts/${clip.sourceId}/audio` : getMediaFileUrl(clip.sourceId),
+        offset: clip.offset,
+        duration: clip.duration,
+        volume: clip.volume
+      })),
+      envelope: track.kind === "music" ? envelope : undefined
+    }));
+  }, [audioTracks, ducking, narrationTrack, placedNarration]);
+  const mixerTracksRef = useRef(mixerTracks);
+  mixerTracksRef.current = mixerTracks;
+  // Volume and mute are applied to the running mix; anything else reschedules it.
+  const mixerSchedule = useMemo(
+    () => JSON.stringify(mixerTracks.map(({ volume: _volume, muted: _muted, ...track }) => track)),
+    [mixerTracks]
+  );
+
+  const selectedAsset = mediaLibrary.find((asset) => asset.id === selectedLibraryId) ?? null;
+  const selectedVisual = selectedAsset && selectedAsset.type !== "audio" ? selectedAsset : null;
 
-  const activeClip = timeline[activeClipIndex];
-  const activeAsset = mediaLibrary.find((asset) => asset.id === activeClip?.assetId) ?? null;
+  // In timeline order; ids left behind by an undo simply stop matching.
+  const selectedClips = useMemo(
+    () => timeline.filter((clip) => selectedClipIds.includes(clip.id)),
+    [selectedClipIds, timeline]
+  );
 
   useEffect(() => {
     if (!timeline.length) {
@@ -91,72 +324,225 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
     }
   }, [timeline, activeClipIndex]);
 
-  const handleUpload = useCallback(
-    async (event: ChangeEvent<HTMLInputElement>) => {
-      const files = Array.from(event.target.files ?? []);
-      if (!files.length) return;
-
-      const assets: MediaAsset[] = [];
-      for (const file of files) {
-        const id = uuid();
-        const previewUrl = await generatePreview(file);
-        const duration = await readVideoDuration(file);
-        assets.push({
-          id,
-          name: file.name,
-          type: file.type.startsWith("video") ? "video" : "image",
-          url: previewUrl,
-          thumbnail: previewUrl,
-          duration
+  const refreshLibrary = useCallback(async () => {
+    try {
+      const response = await fetch("/api/media", { cache: "no-store" });
+      if (!response.ok) throw new Error("Não foi possível carregar a biblioteca de mídia");
+      const data: { assets: MediaRecord[] } = await response.json();
+      setMediaLibrary(data.assets.map(toMediaAsset));
+      setLibraryError(null);
+    } catch (error) {
+      console.error(error);
+      setLibraryError(error instanceof Error ? error.message : "Erro desconhecido");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshLibrary();
+  }, [refreshLibrary]);
+
+  const refreshLuts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/luts", { cache: "no-store" });
+      if (!response.ok) throw new Error("Não foi possível carregar as LUTs");
+      const data: { luts: LutRecord[] } = await response.json();
+      setLuts(data.luts);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshLuts();
+  }, [refreshLuts]);
+
+  const importLut = useCallback(async (file: File) => {
+    const formData = new FormData();
+    formData.append("lut", file);
+    const response = await fetch("/api/luts", { method: "POST", body: formData });
+    if (!response.ok) throw new Error(await readErrorMessage(response, "Não foi possível importar a LUT"));
+    const record: LutRecord = await response.json();
+    setLuts((prev) => [record, ...prev.filter((lut) => lut.id !== record.id)]);
+    return record;
+  }, []);
+
+  const handleUpload = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!files.length) return;
+
+    const queued = files.map((file) => ({ id: uuid(), name: file.name, progress: 0 }));
+    setUploads((prev) => [...prev, ...queued]);
+    const updateUpload = (id: string, data: Partial<MediaUploadStatus>) =>
+      setUploads((prev) => prev.map((upload) => (upload.id === id ? { ...upload, ...data } : upload)));
+
+    for (const [index, file] of files.entries()) {
+      const { id } = queued[index];
+      try {
+        const record = await uploadMediaFile(file, {
+          onProgress: (loaded, total) => updateUpload(id, { progress: Math.round((loaded / total) * 100) })
         });
+        setMediaLibrary((prev) => [toMediaAsset(record), ...prev.filter((asset) => asset.id !== record.id)]);
+        setSelectedLibraryId((prev) => prev ?? record.id);
+        setUploads((prev) => prev.filter((upload) => upload.id !== id));
+      } catch (error) {
+        console.error(error);
+        updateUpload(id, { error: error instanceof Error ? error.message : "Falha no envio" });
       }
+    }
+  }, []);
 
-      setMediaLibrary((prev) => [...prev, ...assets]);
-      setSelectedLibraryId((prev) => prev ?? assets[0]?.id ?? null);
-      event.target.value = "";
+  const deleteAsset = useCallback(
+    async (assetId: string) => {
+      try {
+        const response = await fetch(`/api/media/${assetId}`, { method: "DELETE" });
+        if (!response.ok) throw new Error(await readErrorMessage(response, "Não foi possível excluir a mídia"));
+        setMediaLibrary((prev) => prev.filter((asset) => asset.id !== assetId));
+        // Earlier steps would bring back clips of media that no longer exists, so the history starts over.
+        resetHistory((prev) => ({
+          ...prev,
+          timeline: prev.timeline.filter((clip) => clip.assetId !== assetId),
+          audioTracks: prev.audioTracks.map((track) =>
+            track.kind === "narration" ? track : { ...track, clips: track.clips.filter((clip) => clip.sourceId !== assetId) }
+          )
+        }));
+        setSelectedLibraryId((prev) => (prev === assetId ? null : prev));
+        setLibraryError(null);
+      } catch (error) {
+        console.error(error);
+        setLibraryError(error instanceof Error ? error.message : "Erro desconhecido");
+      }
     },
-    []
+    [resetHistory]
   );
 
   const applySimpleMode = useCallback(() => {
-    if (!selectedLibraryId) return;
-    const asset = mediaLibrary.find((item) => item.id === selectedLibraryId);
-    if (!asset) return;
+    if (!selectedVisual || !audioDuration) return;
 
     const clip: TimelineItem = {
       id: uuid(),
-      assetId: asset.id,
+      assetId: selectedVisual.id,
       duration: audioDuration,
-      transition: "fade"
+      transition: "fade",
+      // A single still held for the whole narration needs a slow move to avoid a dead frame.
+      motion: selectedVisual.type === "image" ? getAutoMotion(0) : undefined
     };
-    setTimeline([clip]);
+    editTimeline("Modo simples", () => [clip]);
     setMode("simple");
-  }, [audioDuration, mediaLibrary, selectedLibraryId]);
+  }, [audioDuration, editTimeline, selectedVisual]);
 
   const addToTimeline = useCallback(
-    (assetId: string) => {
-      setTimeline((prev) => [
+    (asset: MediaAsset) => {
+      editTimeline("Inserir clipe", (prev) => [
         ...prev,
         {
           id: uuid(),
-          assetId,
-          duration: 8,
-          transition: "corte"
+          assetId: asset.id,
+          duration: Math.min(DEFAULT_CLIP_DURATION, asset.duration ?? DEFAULT_CLIP_DURATION),
+          transition: "corte",
+          motion: asset.type === "image" ? getAutoMotion(prev.length) : undefined
         }
       ]);
       setMode("advanced");
     },
-    []
+    [editTimeline]
   );
 
-  const updateClip = useCallback((clipId: string, data: Partial<TimelineItem>) => {
-    setTimeline((prev) => prev.map((clip) => (clip.id === clipId ? { ...clip, ...data } : clip)));
-  }, []);
+  const getClipLimits = useCallback(
+    (clip: TimelineItem): DurationLimits => {
+      const asset = mediaLibrary.find((item) => item.id === clip.assetId);
+      if (asset?.type !== "video" || clip.fill) return { min: MIN_CLIP_DURATION, max: Infinity };
+      // Without a fill the slot can only be as long as the trimmed material.
+      const max = Math.floor(getClipWindow(clip, asset.duration).playable * 10) / 10;
+      return { min: Math.min(MIN_CLIP_DURATION, max), max };
+    },
+    [mediaLibrary]
+  );
+
+  const updateClip = useCallback(
+    (clipId: string, data: Partial<TimelineItem>) => {
+      // Consecutive changes to the same setting of a clip, like a slider drag, undo together.
+      const group = `${clipId}:${Object.keys(data).join()}`;
+      editTimeline("Editar clipe", (prev) => {
+        const updated = prev.map((clip) => {
+          if (clip.id !== clipId) return clip;
+          const next = { ...clip, ...data };
+          return { ...next, duration: Math.min(next.duration, getClipLimits(next).max) };
+        });
+        if (!fitTarget || data.duration === undefined) return updated;
+        // While fitted, the other clips give or take the time the edited one changed by.
+        const durations = rescaleDurations(
+          updated.map((clip) => clip.duration),
+          fitTarget,
+          updated.map(getClipLimits),
+          updated.findIndex((clip) => clip.id === clipId)
+        );
+        return withDurations(updated, durations);
+      }, group);
+    },
+    [editTimeline, fitTarget, getClipLimits]
+  );
+
+  useEffect(() => {
+    if (!fitTarget) return;
+    replaceComposition((prev) =>
+      withPart(
+        prev,
+        "timeline",
+        withDurations(prev.timeline, rescaleDurations(prev.timeline.map((clip) => clip.duration), fitTarget, prev.timeline.map(getClipLimits)))
+      )
+    );
+  }, [fitTarget, getClipLimits, replaceComposition, timeline.length]);
 
-  const removeClip = useCallback((clipId: string) => {
-    setTimeline((prev) => prev.filter((clip) => clip.id !== clipId));
+  /**
+   * Rebuilds the timeline from the assets ticked in the library (or re-times the clips already on it),
+   * cutting the narration into one stretch per asset on its pauses and sentence boundaries.
+   */
+  const autoFitTimeline = useCallback(() => {
+    if (!narrationEnd) return;
+    const assets = autoFitIds
+      .map((id) => mediaLibrary.find((asset) => asset.id === id))
+      .filter((asset): asset is MediaAsset => Boolean(asset && asset.type !== "audio"));
+    const clips: TimelineItem[] = assets.length
+      ? assets.map((asset, index) => ({
+          id: uuid(),
+          assetId: asset.id,
+          duration: DEFAULT_CLIP_DURATION,
+          transition: index ? "fade" : "corte",
+          // A video may have to fill more time than it has; it holds its last frame rather than failing export.
+          fill: asset.type === "video" ? "freeze" : undefined,
+          motion: asset.type === "image" ? getAutoMotion(index) : undefined
+        }))
+      : timeline;
+    if (!clips.length) return;
+
+    const durations = planCutDurations(clips.length, narrationEnd, cutPoints, MIN_CLIP_DURATION);
+    editTimeline("Distribuir na narração", () => withDurations(clips, durations));
+    setActiveClipIndex(0);
+    setMode("advanced");
+  }, [autoFitIds, cutPoints, editTimeline, mediaLibrary, narrationEnd, timeline]);
+
+  const snapTimelineToPauses = useCallback(() => {
+    editTimeline("Alinhar cortes às pausas", (prev) =>
+      withDurations(prev, snapDurations(prev.map((clip) => clip.duration), cutPoints, prev.map(getClipLimits)))
+    );
+  }, [cutPoints, editTimeline, getClipLimits]);
+
+  const toggleAutoFitAsset = useCallback((assetId: string) => {
+    setAutoFitIds((prev) => (prev.includes(assetId) ? prev.filter((id) => id !== assetId) : [...prev, assetId]));
   }, []);
 
+  const removeClips = useCallback(
+    (clipIds: string[]) => {
+      if (!clipIds.length) return;
+      editTimeline(clipIds.length > 1 ? "Remover clipes" : "Remover clipe", (prev) =>
+        prev.filter((clip) => !clipIds.includes(clip.id))
+      );
+      setSelectedClipIds((prev) => prev.filter((id) => !clipIds.includes(id)));
+    },
+    [editTimeline]
+  );
+
   const onDragStart = useCallback((event: DragEvent<HTMLButtonElement>, clipId: string) => {
     event.dataTransfer.setData("text/plain", clipId);
   }, []);
@@ -170,39 +556,500 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
       const updated = [...timeline];
       const [moved] = updated.splice(currentIndex, 1);
       updated.splice(targetIndex, 0, moved);
-      setTimeline(updated);
+      editTimeline("Mover clipe", () => updated);
     },
-    [timeline]
+    [editTimeline, timeline]
   );
 
+  useEffect(() => {
+    const previous = linkedNarrationRef.current;
+    linkedNarrationRef.current = narrationJobId;
+    if (!narrationJobId || narrationJobId === previous) return;
+
+    // A fresh narration lands on an empty track, or replaces the one it was generated to supersede.
+    replaceComposition((prev) => {
+      const clips = getAudioTrack(prev.audioTracks, "narration")?.clips ?? [];
+      if (!clips.length) return withPart(prev, "audioTracks", addNarrationClip(prev.audioTracks, narrationJobId));
+      if (clips.length === 1 && clips[0].sourceId === previous) {
+        return withPart(
+          prev,
+          "audioTracks",
+          prev.audioTracks.map((track) =>
+            track.kind === "narration" ? { ...track, clips: [{ ...clips[0], sourceId: narrationJobId }] } : track
+          )
+        );
+      }
+      return prev;
+    });
+  }, [narrationJobId, replaceComposition]);
+
+  useEffect(() => {
+    const missing = narrationIds.filter((id) => !narrationSources[id]);
+    if (!missing.length) return;
+    setNarrationSources((prev) => ({ ...prev, ...Object.fromEntries(missing.map((id) => [id, {}])) }));
+
+    missing.forEach((id) => {
+      fetch(`/api/tts/${id}/alignment`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data: { duration?: number; sentences: SentenceTiming[]; pauses?: PauseTiming[] } | null) => {
+          setNarrationSources((prev) => ({
+            ...prev,
+            [id]: data ? { duration: data.duration, sentences: data.sentences, pauses: data.pauses } : { unavailable: true }
+          }));
+          if (!data) {
+            setProjectMessage({ tone: "info", text: "Uma narração da timeline não está mais disponível no servidor." });
+          }
+        })
+        .catch((error) => console.error(error));
+    });
+  }, [narrationIds, narrationSources]);
+
   const onDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
   }, []);
 
+  const getMixer = () => (mixerRef.current ??= createPreviewMixer());
+
+  useEffect(() => () => mixerRef.current?.close(), []);
+
   useEffect(() => {
-    if (!timeline.length || !isPreviewPlaying) return;
-    const clipDuration = timeline[activeClipIndex]?.duration ?? 0;
-    if (!clipDuration) return;
-
-    const timeout = setTimeout(() => {
-      setActiveClipIndex((prev) => {
-        const nextIndex = (prev + 1) % timeline.length;
-        if (nextIndex === 0 && !narrationAvailable) {
-          return 0;
-        }
-        return nextIndex;
-      });
-    }, clipDuration * 1000);
+    if (!isPreviewPlaying) return;
+    const mixer = getMixer();
+    let frame = 0;
+    let finished = false;
+    void mixer.play(mixerTracksRef.current, playheadRef.current);
 
-    return () => clearTimeout(timeout);
-  }, [timeline, activeClipIndex, isPreviewPlaying, narrationAvailable]);
+    // The audio clock drives the picture: each frame reads it and shows the clip under the playhead.
+    const tick = () => {
+      const time = mixer.getTime();
+      if (time >= programmeLength) {
+        finished = true;
+        setIsPreviewPlaying(false);
+        setPlayheadTime(0);
+        setActiveClipIndex(0);
+        return;
+      }
+      setPlayheadTime(time);
+      const index = getClipIndexAt(timeline, time);
+      if (index !== -1) setActiveClipIndex(index);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      const time = mixer.stop();
+      if (!finished) setPlayheadTime(time);
+    };
+  }, [isPreviewPlaying, mixerSchedule, programmeLength, timeline]);
+
+  useEffect(() => {
+    audioTracks.forEach((track) => mixerRef.current?.setTrackVolume(track.kind, track.volume, track.muted));
+  }, [audioTracks]);
+
+  // Seeks land on frames; the last one starts a frame before the end of the programme.
+  const seekTo = useCallback(
+    (target: number) => {
+      const time = snapToFrame(Math.min(Math.max(0, target), Math.max(0, programmeLength - 1 / PREVIEW_FPS)));
+      const index = getClipIndexAt(timeline, time);
+      if (index !== -1) setActiveClipIndex(index);
+      setPlayheadTime(time);
+      playheadRef.current = time;
+      if (isPreviewPlaying) void mixerRef.current?.play(mixerTracksRef.current, time);
+    },
+    [isPreviewPlaying, programmeLength, timeline]
+  );
+
+  const seekToClip = useCallback(
+    (index: number) => {
+      seekTo(getClipStart(timeline, index));
+      setActiveClipIndex(index);
+    },
+    [seekTo, timeline]
+  );
 
   const togglePreviewPlayback = useCallback(() => {
     setIsPreviewPlaying((prev) => !prev);
   }, []);
 
+  /** Plain clicks select a clip and jump to it; ctrl/⌘ toggles it in the selection and shift selects a range. */
+  const selectClip = useCallback(
+    (event: MouseEvent<HTMLButtonElement>, index: number) => {
+      const clipId = timeline[index].id;
+      const anchor = timeline.findIndex((clip) => clip.id === selectionAnchorRef.current);
+      if (event.shiftKey && anchor !== -1) {
+        const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+        setSelectedClipIds(timeline.slice(from, to + 1).map((clip) => clip.id));
+        return;
+      }
+      selectionAnchorRef.current = clipId;
+      if (event.ctrlKey || event.metaKey) {
+        setSelectedClipIds((prev) => (prev.includes(clipId) ? prev.filter((id) => id !== clipId) : [...prev, clipId]));
+        return;
+      }
+      setSelectedClipIds([clipId]);
+      seekToClip(index);
+    },
+    [seekToClip, timeline]
+  );
+
+  /** Inserts fresh copies of `clips` after the last selected clip (or at the end) and selects them. */
+  const insertCopies = useCallback(
+    (label: string, clips: TimelineItem[]) => {
+      if (!clips.length) return;
+      if (timeline.length + clips.length > MAX_TIMELINE_ITEMS) {
+        setTimelineNotice(`A timeline comporta no máximo ${MAX_TIMELINE_ITEMS} clipes.`);
+        return;
+      }
+      const copies = clips.map((clip) => ({ ...clip, id: uuid() }));
+      const lastSelected = timeline.reduce((last, clip, index) => (selectedClipIds.includes(clip.id) ? index : last), -1);
+      const position = lastSelected === -1 ? timeline.length : lastSelected + 1;
+      editTimeline(label, (prev) => [...prev.slice(0, position), ...copies, ...prev.slice(position)]);
+      setSelectedClipIds(copies.map((clip) => clip.id));
+      setTimelineNotice(null);
+    },
+    [editTimeline, selectedClipIds, timeline]
+  );
+
+  const copyClips = useCallback(() => {
+    if (!selectedClips.length) return false;
+    clipboardRef.current = selectedClips;
+    setTimelineNotice(`${selectedClips.length} ${selectedClips.length === 1 ? "clipe copiado" : "clipes copiados"}.`);
+    return true;
+  }, [selectedClips]);
+
+  const splitAtPlayhead = useCallback(() => {
+    const index = getClipIndexAt(timeline, playheadTime);
+    const clip = timeline[index];
+    const asset = mediaLibrary.find((item) => item.id === clip?.assetId);
+    if (!clip || !asset) return;
+    if (timeline.length >= MAX_TIMELINE_ITEMS) {
+      setTimelineNotice(`A timeline comporta no máximo ${MAX_TIMELINE_ITEMS} clipes.`);
+      return;
+    }
+
+    const time = Math.round((playheadTime - getClipStart(timeline, index)) * 100) / 100;
+    const parts =
+      time >= MIN_CLIP_DURATION && clip.duration - time >= MIN_CLIP_DURATION ? splitClip(clip, time, asset) : null;
+    if (!parts) {
+      setTimelineNotice(
+        `Não é possível dividir aqui: cada parte precisa de ${MIN_CLIP_DURATION}s e o ponto não pode cair num quadro congelado ou num vídeo repetido.`
+      );
+      return;
+    }
+    const [first, rest] = parts;
+    const second = { ...rest, id: uuid() };
+    editTimeline("Dividir clipe", (prev) => prev.flatMap((item) => (item.id === clip.id ? [first, second] : [item])));
+    setSelectedClipIds([second.id]);
+    setTimelineNotice(null);
+  }, [editTimeline, mediaLibrary, playheadTime, timeline]);
+
+  /**
+   * Keyboard shortcuts for the composer. They are handled on its own wrapper, which takes focus when
+   * anything inside it is clicked, so the rest of the page keeps Space scrolling, select-all and copy.
+   */
+  const handleShortcut = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.defaultPrevented || event.altKey || isEditingField(event.target) || isActivationKey(event)) return;
+    const key = event.key.toLowerCase();
+    const command = event.ctrlKey || event.metaKey;
+
+    if (command) {
+      if (key === "z" && !event.shiftKey) history.undo();
+      else if (key === "y" || (key === "z" && event.shiftKey)) history.redo();
+      else if (key === "c") {
+        if (!copyClips()) return;
+      } else if (key === "v" && clipboardRef.current.length) insertCopies("Colar clipes", clipboardRef.current);
+      else if (key === "d" && selectedClips.length) insertCopies("Duplicar clipes", selectedClips);
+      else if (key === "a" && timeline.length) setSelectedClipIds(timeline.map((clip) => clip.id));
+      else return;
+    } else if (key === " ") {
+      if (programmeLength) togglePreviewPlayback();
+    } else if (key === "k") setIsPreviewPlaying(false);
+    else if (key === "l") setIsPreviewPlaying(Boolean(programmeLength));
+    else if (key === "j") seekTo(playheadTime - JOG_STEP);
+    else if (key === "," || key === ".") seekTo(playheadTime + (key === "," ? -1 : 1) / PREVIEW_FPS);
+    else if (key === "arrowleft" && timeline.length) seekToClip(Math.max(0, activeClipIndex - 1));
+    else if (key === "arrowright" && timeline.length) seekToClip(Math.min(timeline.length - 1, activeClipIndex + 1));
+    else if (key === "s") splitAtPlayhead();
+    else if ((key === "delete" || key === "backspace") && selectedClips.length) removeClips(selectedClips.map((clip) => clip.id));
+    else if (key === "escape") setSelectedClipIds([]);
+    else return;
+    event.preventDefault();
+  };
+
+  useEffect(() => {
+    if (!renderJobId) return;
+
+    let isCancelled = false;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/render/${renderJobId}`);
+        if (!response.ok) {
+          throw new Error("Falha ao consultar renderização");
+        }
+        const data: RenderStatus = await response.json();
+        if (!isCancelled) {
+          setRenderStatus(data);
+          if (data.status === "completed" || data.status === "failed") {
+            clearInterval(interval);
+          }
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    }, 1500);
+
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+    };
+  }, [renderJobId]);
+
+  const exportTimeline = useCallback(async () => {
+    if (!timeline.length) return;
+    setIsExporting(true);
+    setRenderStatus({ status: "queued", progress: 1 });
+
+    try {
+      const formData = new FormData();
+      formData.append(
+        "project",
+        JSON.stringify({ timeline, audioTracks, ducking, captions: hasNarration ? captionMode : "none", overlays, output, grade })
+      );
+
+      const response = await fetch("/api/render", { method: "POST", body: formData });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.message ?? "Não foi possível iniciar a renderização");
+      }
+
+      const data = await response.json();
+      setRenderJobId(data.jobId);
+    } catch (error) {
+      console.error(error);
+      const message = error instanceof Error ? error.message : "Erro desconhecido";
+      setRenderStatus({ status: "failed", progress: 0, error: message });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [audioTracks, captionMode, ducking, grade, hasNarration, output, overlays, timeline]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      const response = await fetch("/api/projects", { cache: "no-store" });
+      if (!response.ok) throw new Error("Não foi possível listar os projetos");
+      const data: { projects: ProjectSummary[] } = await response.json();
+      setProjects(data.projects);
+    } catch (error) {
+      console.error(error);
+      setProjectMessage({ tone: "error", text: error instanceof Error ? error.message : "Erro desconhecido" });
+    }
+  }, []);
+
+  const applyProjectDocument = useCallback(
+    (document: ProjectDocument) => {
+      // Imports can add media and LUTs to the libraries, so reload them alongside the document.
+      void refreshLibrary();
+      void refreshLuts();
+      resetHistory({ timeline: document.timeline, audioTracks: document.audioTracks, overlays: document.overlays });
+      setSelectedClipIds([]);
+      setDucking(document.ducking);
+      setMode(document.mode);
+      setCaptionMode(document.captions);
+      setFitToNarration(document.fitToNarration);
+      setOutput(document.output);
+      setGrade(document.grade);
+      setSelectedLibraryId(document.assets[0]?.id ?? null);
+      setActiveClipIndex(0);
+      setPlayheadTime(0);
+      setProjectId(document.id);
+      setProjectName(document.name);
+      window.localStorage.setItem(LAST_PROJECT_KEY, document.id);
+    },
+    [refreshLibrary, refreshLuts, resetHistory]
+  );
+
+  const openProject = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/projects/${id}`, { cache: "no-store" });
+        if (!response.ok) throw new Error(await readErrorMessage(response, "Não foi possível abrir o projeto"));
+        applyProjectDocument(await response.json());
+        setIsProjectListOpen(false);
+        setProjectMessage(null);
+      } catch (error) {
+        console.error(error);
+        setProjectMessage({ tone: "error", text: error instanceof Error ? error.message : "Erro desconhecido" });
+      }
+    },
+    [applyProjectDocument]
+  );
+
+  useEffect(() => {
+    const lastProjectId = window.localStorage.getItem(LAST_PROJECT_KEY);
+    if (!lastProjectId) return;
+
+    let isCancelled = false;
+    fetch(`/api/projects/${lastProjectId}`, { cache: "no-store" })
+      .then((response) => {
+        if (response.status === 404) window.localStorage.removeItem(LAST_PROJECT_KEY);
+        return response.ok ? response.json() : null;
+      })
+      .then((document: ProjectDocument | null) => {
+        if (!isCancelled && document) applyProjectDocument(document);
+      })
+      .catch((error) => console.error(error));
+
+    return () => {
+      isCancelled = true;
+    };
+    // Runs once on mount to reopen the last project; later opens go through openProject.
+  }, []);
+
+  const saveProject = useCallback(async () => {
+    setIsSavingProject(true);
+    setProjectMessage(null);
+
+    try {
+      // The project keeps the library assets its tracks use; the media itself stays in the library.
+      const audioAssetIds = getAudioAssetIds(audioTracks);
+      const usedAssets = mediaLibrary.filter(
+        (asset) => audioAssetIds.includes(asset.id) || timeline.some((clip) => clip.assetId === asset.id)
+      );
+      const response = await fetch(projectId ? `/api/projects/${projectId}` : "/api/projects", {
+        method: projectId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          schemaVersion: PROJECT_SCHEMA_VERSION,
+          name: projectName.trim() || DEFAULT_PROJECT_NAME,
+          mode,
+          assets: usedAssets.map(({ id, type, name, duration }) => ({ id, type, name, duration })),
+          timeline,
+          audioTracks,
+          ducking,
+          captions: hasNarration ? captionMode : "none",
+          overlays,
+          fitToNarration,
+          output,
+          grade
+        })
+      });
+      if (!response.ok) throw new Error(await readErrorMessage(response, "Não foi possível salvar o projeto"));
+
+      const document: ProjectDocument = await response.json();
+      setProjectId(document.id);
+      setProjectName(document.name);
+      window.localStorage.setItem(LAST_PROJECT_KEY, document.id);
+      setProjectMessage({
+        tone: "info",
+        text: `Projeto salvo às ${new Date(document.updatedAt).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}.`
+      });
+      return document;
+    } catch (error) {
+      console.error(error);
+      setProjectMessage({ tone: "error", text: error instanceof Error ? error.message : "Erro desconhecido" });
+      return null;
+    } finally {
+      setIsSavingProject(false);
+    }
+  }, [
+    audioTracks,
+    captionMode,
+    ducking,
+    fitToNarration,
+    grade,
+    hasNarration,
+    mediaLibrary,
+    mode,
+    output,
+    overlays,
+    projectId,
+    projectName,
+    timeline
+  ]);
+
+  const exportProjectArchive = useCallback(async () => {
+    const document = await saveProject();
+    if (document) {
+      window.location.assign(`/api/projects/${document.id}/archive`);
+    }
+  }, [saveProject]);
+
+  const importProjectArchive = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const response = await fetch("/api/projects/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: file
+        });
+        if (!response.ok) throw new Error(await readErrorMessage(response, "Não foi possível importar o projeto"));
+        applyProjectDocument(await response.json());
+        setProjectMessage({ tone: "info", text: "Projeto importado." });
+      } catch (error) {
+        console.error(error);
+        setProjectMessage({ tone: "error", text: error instanceof Error ? error.message : "Erro desconhecido" });
+      }
+    },
+    [applyProjectDocument]
+  );
+
+  const deleteProject = useCallback(
+    async (id: string) => {
+      const response = await fetch(`/api/projects/${id}`, { method: "DELETE" }).catch(() => null);
+      if (!response?.ok) {
+        setProjectMessage({ tone: "error", text: "Não foi possível excluir o projeto" });
+        return;
+      }
+      if (id === projectId) {
+        setProjectId(null);
+        window.localStorage.removeItem(LAST_PROJECT_KEY);
+      }
+      void refreshProjects();
+    },
+    [projectId, refreshProjects]
+  );
+
+  const newProject = useCallback(() => {
+    resetHistory(createComposition(narrationJobId));
+    setSelectedClipIds([]);
+    setDucking(DEFAULT_DUCKING);
+    setFitToNarration(false);
+    setOutput(DEFAULT_OUTPUT);
+    setGrade(NEUTRAL_GRADE);
+    setPlayheadTime(0);
+    setProjectId(null);
+    setProjectName(DEFAULT_PROJECT_NAME);
+    setProjectMessage(null);
+    window.localStorage.removeItem(LAST_PROJECT_KEY);
+  }, [narrationJobId, resetHistory]);
+
+  const describeAudioSource = useCallback(
+    (kind: AudioTrackKind, sourceId: string) => {
+      if (kind === "narration") {
+        const source = narrationSources[sourceId];
+        return {
+          name: source?.unavailable ? "Narração indisponível" : source?.sentences?.[0]?.text ?? "Narração",
+          duration: source?.duration
+        };
+      }
+      const asset = mediaLibrary.find((item) => item.id === sourceId);
+      return { name: asset?.name ?? "Mídia removida", duration: asset?.duration };
+    },
+    [mediaLibrary, narrationSources]
+  );
+
   return (
-    <div className="flex flex-col gap-8 rounded-3xl border border-white/10 bg-black/40 p-8 backdrop-blur-xl">
+    <div
+      tabIndex={-1}
+      onKeyDown={handleShortcut}
+      className="flex flex-col gap-8 rounded-3xl border border-white/10 bg-black/40 p-8 outline-none backdrop-blur-xl"
+    >
       <div className="flex items-start justify-between gap-4">
         <div>
           <h2 className="font-display text-3xl font-semibold text-white">Módulo 2 · Video Composer</h2>
@@ -232,13 +1079,111 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
         </div>
       </div>
 
+      <div className="grid gap-3 rounded-2xl border border-white/10 bg-white/5 p-5 text-xs text-slate-300">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={projectName}
+            onChange={(event) => setProjectName(event.target.value)}
+            maxLength={120}
+            aria-label="Nome do projeto"
+            className="min-w-[160px] flex-1 rounded-full border border-white/10 bg-black/40 px-4 py-2 text-sm text-white outline-none focus:border-primary/60"
+          />
+          <button
+            type="button"
+            onClick={saveProject}
+            disabled={isSavingProject}
+            className="inline-flex items-center gap-2 rounded-full bg-white px-4 py-2 font-semibold text-black transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <CloudArrowUpIcon className="h-4 w-4" />
+            {isSavingProject ? "Salvando..." : "Salvar"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              if (!isProjectListOpen) void refreshProjects();
+              setIsProjectListOpen((prev) => !prev);
+            }}
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 font-semibold text-white transition hover:bg-white/10"
+          >
+            <FolderOpenIcon className="h-4 w-4" />
+            Abrir
+          </button>
+          <button
+            type="button"
+            onClick={exportProjectArchive}
+            disabled={isSavingProject || !timeline.length}
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4" />
+            Exportar .{PROJECT_ARCHIVE_EXTENSION}
+          </button>
+          <input
+            id="project-import"
+            type="file"
+            accept={`.${PROJECT_ARCHIVE_EXTENSION},application/gzip`}
+            onChange={importProjectArchive}
+            className="hidden"
+          />
+          <label
+            htmlFor="project-import"
+            className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-white/10 px-4 py-2 font-semibold text-white transition hover:bg-white/10"
+          >
+            <ArrowUpTrayIcon className="h-4 w-4" />
+            Importar
+          </label>
+          <button
+            type="button"
+            onClick={newProject}
+            className="rounded-full px-3 py-2 font-semibold text-slate-400 transition hover:text-white"
+          >
+            Novo
+          </button>
+        </div>
+        {projectMessage && (
+          <p className={projectMessage.tone === "error" ? "text-rose-200" : "text-slate-400"}>{projectMessage.text}</p>
+        )}
+        {isProjectListOpen && (
+          <ul className="grid max-h-56 gap-2 overflow-y-auto pr-1 scrollbar-thin">
+            {projects.map((project) => (
+              <li
+                key={project.id}
+                className={clsx(
+                  "flex items-center gap-3 rounded-2xl border bg-black/30 px-4 py-2",
+                  project.id === projectId ? "border-primary/60" : "border-white/10"
+                )}
+              >
+                <button type="button" onClick={() => openProject(project.id)} className="min-w-0 flex-1 text-left">
+                  <p className="truncate text-sm text-white">{project.name}</p>
+                  <p className="text-slate-400">
+                    {new Date(project.updatedAt).toLocaleString("pt-BR")} · {project.clips} clipes · {project.duration.toFixed(1)}s
+                  </p>
+                </button>
+                <button
+                  type="button"
+                  title="Excluir"
+                  onClick={() => deleteProject(project.id)}
+                  className="rounded-full p-2 text-slate-300 transition hover:bg-rose-500/20 hover:text-rose-100"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+            {!projects.length && (
+              <li className="rounded-2xl border border-dashed border-white/10 px-4 py-3 text-slate-500">
+                Nenhum projeto salvo.
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+
       <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
         <div className="flex flex-col gap-6">
           <div className="rounded-2xl border border-dashed border-white/20 bg-white/5 p-6 text-center">
             <input
               id="media-upload"
               type="file"
-              accept="image/png,image/jpeg,image/webp,video/mp4,video/webm"
+              accept={MEDIA_ACCEPT}
               multiple
               onChange={handleUpload}
               className="hidden"
@@ -251,8 +1196,40 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
               Carregar mídia
             </label>
             <p className="mt-3 text-xs text-slate-400">
-              Suporte para imagens (JPG, PNG, WebP) e vídeos (MP4, WebM) com pré-visualização instantânea.
+              Suporte para imagens (JPG, PNG, WebP), vídeos (MP4, WebM, MOV) e áudio (MP3, WAV, OGG, FLAC, AAC) · envios
+              interrompidos são retomados.
             </p>
+            {uploads.length > 0 && (
+              <ul className="mt-4 grid gap-2 text-left text-xs">
+                {uploads.map((upload) => (
+                  <li key={upload.id} className="rounded-xl border border-white/10 bg-black/30 px-3 py-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="truncate text-slate-200">{upload.name}</span>
+                      {upload.error ? (
+                        <button
+                          type="button"
+                          onClick={() => setUploads((prev) => prev.filter((entry) => entry.id !== upload.id))}
+                          className="text-slate-400 transition hover:text-white"
+                        >
+                          Dispensar
+                        </button>
+                      ) : (
+                        <span className="tabular-nums text-slate-400">
+                          {upload.progress < 100 ? `${upload.progress}%` : "Processando..."}
+                        </span>
+                      )}
+                    </div>
+                    {upload.error ? (
+                      <p className="mt-1 text-rose-200">{upload.error}</p>
+                    ) : (
+                      <div className="relative mt-2 h-1 overflow-hidden rounded-full bg-white/10">
+                        <div className="absolute inset-y-0 left-0 rounded-full bg-primary" style={{ width: `${upload.progress}%` }} />
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
@@ -260,17 +1237,17 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
               <span>Biblioteca de mídia</span>
               <span>{mediaLibrary.length} itens</span>
             </div>
+            {libraryError && <p className="mt-3 text-xs text-rose-200">{libraryError}</p>}
             <div className="mt-4 grid max-h-48 grid-cols-3 gap-3 overflow-y-auto pr-1 scrollbar-thin">
               {mediaLibrary.map((asset) => (
-                <button
-                  key={asset.id}
-                  onClick={() => setSelectedLibraryId(asset.id)}
-                  className={clsx(
-                    "group relative aspect-video overflow-hidden rounded-xl border border-white/10 text-left",
-                    selectedLibraryId === asset.id ? "border-primary/60" : "hover:border-white/20"
-                  )}
-                >
-                  {asset.type === "image" ? (
+                <div key={asset.id} className="group relative">
+                  <button
+                    onClick={() => setSelectedLibraryId(asset.id)}
+                    className={clsx(
+                      "relative block aspect-video w-full overflow-hidden rounded-xl border border-white/10 text-left",
+                      selectedLibraryId === asset.id ? "border-primary/60" : "hover:border-white/20"
+                    )}
+                  >
                     <Image
                       src={asset.thumbnail}
                       alt={asset.name}
@@ -279,14 +1256,42 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
                       sizes="(max-width: 1024px) 33vw, 220px"
                       className="object-cover"
                     />
-                  ) : (
-                    <video src={asset.thumbnail} className="h-full w-full object-cover" muted loop autoPlay playsInline />
+                    <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 via-black/10 to-transparent p-2 text-[11px] text-white">
+                      <p className="truncate font-medium">{asset.name}</p>
+                      <p className="text-[10px] text-slate-300">
+                        {asset.width && asset.height ? `${asset.width}×${asset.height}` : asset.type}
+                        {asset.duration ? ` · ${asset.duration.toFixed(1)}s` : ""}
+                      </p>
+                    </div>
+                  </button>
+                  {asset.type !== "audio" && (
+                    <label
+                      title="Incluir na distribuição automática"
+                      className={clsx(
+                        "absolute left-1 top-1 flex h-5 min-w-[20px] cursor-pointer items-center justify-center rounded-full px-1 text-[10px] font-semibold transition",
+                        autoFitIds.includes(asset.id)
+                          ? "bg-secondary text-black"
+                          : "bg-black/60 text-slate-200 opacity-0 group-hover:opacity-100"
+                      )}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={autoFitIds.includes(asset.id)}
+                        onChange={() => toggleAutoFitAsset(asset.id)}
+                        className="sr-only"
+                      />
+                      {autoFitIds.includes(asset.id) ? autoFitIds.indexOf(asset.id) + 1 : "+"}
+                    </label>
                   )}
-                  <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 via-black/10 to-transparent p-2 text-[11px] text-white">
-                    <p className="truncate font-medium">{asset.name}</p>
-                    {asset.duration && <p className="text-[10px] text-slate-300">{asset.duration.toFixed(1)}s</p>}
-                  </div>
-                </button>
+                  <button
+                    type="button"
+                    title="Excluir da biblioteca"
+                    onClick={() => deleteAsset(asset.id)}
+                    className="absolute right-1 top-1 rounded-full bg-black/60 p-1 text-slate-200 opacity-0 transition hover:bg-rose-500/80 group-hover:opacity-100"
+                  >
+                    <TrashIcon className="h-3.5 w-3.5" />
+                  </button>
+                </div>
               ))}
               {!mediaLibrary.length && (
                 <div className="col-span-3 flex aspect-video items-center justify-center rounded-xl border border-dashed border-white/10 text-sm text-slate-500">
@@ -297,7 +1302,7 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
           </div>
 
           <AnimatePresence>
-            {mode === "simple" && selectedLibraryId && (
+            {mode === "simple" && selectedVisual && (
               <motion.div
                 key="simple-mode"
                 initial={{ opacity: 0, y: 20 }}
@@ -309,12 +1314,15 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
                   <div>
                     <p className="text-sm font-semibold text-white">Modo simples habilitado</p>
                     <p className="mt-1 text-xs text-primary-foreground/80">
-                      Aplicará a imagem selecionada ao longo de toda a narração ({audioDuration.toFixed(0)}s).
+                      {audioDuration
+                        ? `Aplicará a imagem selecionada ao longo de toda a narração (${audioDuration.toFixed(0)}s).`
+                        : "Gere uma narração para definir a duração do vídeo."}
                     </p>
                   </div>
                   <button
                     onClick={applySimpleMode}
-                    className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-black transition hover:bg-slate-200"
+                    disabled={!audioDuration}
+                    className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-black transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-50"
                   >
                     Aplicar imagem ao longo do áudio
                   </button>
@@ -323,7 +1331,7 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
             )}
           </AnimatePresence>
 
-          {mode === "advanced" && selectedLibraryId && (
+          {mode === "advanced" && selectedVisual && (
             <div className="rounded-2xl border border-secondary/20 bg-secondary/10 p-5">
               <div className="flex items-start justify-between gap-4">
                 <div>
@@ -333,7 +1341,7 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
                   </p>
                 </div>
                 <button
-                  onClick={() => addToTimeline(selectedLibraryId)}
+                  onClick={() => addToTimeline(selectedVisual)}
                   className="rounded-full border border-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:bg-white/10"
                 >
                   Inserir na timeline
@@ -341,52 +1349,125 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
               </div>
             </div>
           )}
+
+          {hasNarration && (
+            <div className="rounded-2xl border border-white/10 bg-white/5 p-5 text-xs text-slate-300">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm font-semibold text-white">Sincronia com a narração</p>
+                  <p className="mt-1 text-white/70">
+                    {autoFitIds.length
+                      ? `Distribui ${autoFitIds.length} ${autoFitIds.length === 1 ? "mídia marcada" : "mídias marcadas"} ao longo de ${narrationEnd.toFixed(1)}s, cortando nas pausas.`
+                      : "Marque mídias na biblioteca para distribuí-las, ou redistribua os clipes atuais nas pausas da narração."}
+                  </p>
+                </div>
+                <div className="flex shrink-0 flex-col gap-2">
+                  <button
+                    type="button"
+                    onClick={autoFitTimeline}
+                    disabled={!narrationAligned || (!autoFitIds.length && !timeline.length)}
+                    className="rounded-full bg-white px-4 py-2 font-semibold text-black transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Distribuir na narração
+                  </button>
+                  <button
+                    type="button"
+                    onClick={snapTimelineToPauses}
+                    disabled={!narrationAligned || timeline.length < 2}
+                    className="rounded-full border border-white/20 px-4 py-2 font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Alinhar cortes às pausas
+                  </button>
+                </div>
+              </div>
+              <label className="mt-4 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={fitToNarration}
+                  onChange={(event) => setFitToNarration(event.target.checked)}
+                  className="accent-secondary"
+                />
+                Reescalar os clipes para durar exatamente o mesmo que a narração
+              </label>
+              {fitToNarration && timeline.length > 0 && Math.abs(composedDuration - narrationEnd) > 0.05 && (
+                <p className="mt-2 text-[11px] text-amber-200">
+                  Os clipes de vídeo sem preenchimento não cobrem toda a narração ({composedDuration.toFixed(1)}s de{" "}
+                  {narrationEnd.toFixed(1)}s).
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex flex-col gap-6">
           <div className="relative overflow-hidden rounded-3xl border border-white/10 bg-black/60">
             <div className="flex items-center justify-between px-5 py-4 text-xs uppercase tracking-[0.3em] text-slate-400">
               <span>Pré-visualização</span>
-              <button onClick={togglePreviewPlayback} className="flex items-center gap-2 rounded-full border border-white/10 px-4 py-1 text-[11px] font-semibold text-white transition hover:bg-white/10">
-                <PlayCircleIcon className="h-4 w-4" />
-                {isPreviewPlaying ? "Pausar" : "Reproduzir"}
-              </button>
+              <div className="flex items-center gap-3">
+                <span className="tabular-nums tracking-normal text-slate-300">
+                  {formatTimecode(playheadTime)} / {formatTimecode(programmeLength)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setShowSafeAreas((prev) => !prev)}
+                  className={clsx(
+                    "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold transition",
+                    showSafeAreas ? "bg-amber-300/20 text-amber-100" : "text-white hover:bg-white/10"
+                  )}
+                >
+                  Área segura
+                </button>
+                <button
+                  onClick={togglePreviewPlayback}
+                  disabled={!programmeLength}
+                  className="flex items-center gap-2 rounded-full border border-white/10 px-4 py-1 text-[11px] font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <PlayCircleIcon className="h-4 w-4" />
+                  {isPreviewPlaying ? "Pausar" : "Reproduzir"}
+                </button>
+              </div>
             </div>
-            <div className="relative aspect-video w-full bg-slate-900">
-              {activeAsset ? (
-                activeAsset.type === "image" ? (
-                  <Image
-                    src={activeAsset.url}
-                    alt={activeAsset.name}
-                    fill
-                    unoptimized
-                    sizes="(max-width: 1024px) 100vw, 640px"
-                    className="object-cover"
-                  />
-                ) : (
-                  <video
-                    key={activeAsset.id}
-                    src={activeAsset.url}
-                    className="h-full w-full object-cover"
-                    controls
-                    playsInline
-                  />
-                )
-              ) : (
-                <div className="flex h-full items-center justify-center text-sm text-slate-500">
-                  Adicione clipes à timeline para visualizar
-                </div>
-              )}
-              {narrationAvailable && (
-                <div className="absolute bottom-4 left-1/2 flex w-[80%] -translate-x-1/2 items-center justify-between rounded-full border border-white/10 bg-black/60 px-4 py-2 text-[11px] text-slate-200">
-                  <span className="flex items-center gap-2 uppercase tracking-[0.3em]">
-                    <BoltIcon className="h-4 w-4 text-primary" />
-                    Narração vinculada
-                  </span>
-                  <audio src={narrationUrl ?? undefined} controls className="h-9 w-40" />
-                </div>
-              )}
+            <div className="flex justify-center bg-slate-900">
+              <div
+                className="relative w-full overflow-hidden bg-black"
+                style={{
+                  containerType: "size",
+                  aspectRatio: `${outputFormat.width} / ${outputFormat.height}`,
+                  // Vertical and square canvases are held to the viewport's height instead of the card's width.
+                  maxWidth: `calc(70vh * ${outputFormat.width / outputFormat.height})`
+                }}
+              >
+                <PreviewCanvas
+                  timeline={timeline}
+                  assets={mediaLibrary}
+                  time={playheadTime}
+                  playing={isPreviewPlaying}
+                  outputSize={outputFormat}
+                  grade={grade}
+                />
+                {!timeline.length && (
+                  <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-500">
+                    Adicione clipes à timeline para visualizar
+                  </div>
+                )}
+                <TextOverlayLayer overlays={overlays} time={playheadTime} />
+                {showSafeAreas && <SafeAreaGuides />}
+                {activeCue && (
+                  <div className="pointer-events-none absolute inset-x-0 bottom-6 flex justify-center px-6">
+                    <p className="whitespace-pre-line rounded-lg bg-black/70 px-3 py-1 text-center text-sm font-medium text-white">
+                      {activeCue.text}
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
+            <TimelineRuler
+              timeline={timeline}
+              length={programmeLength}
+              time={playheadTime}
+              activeIndex={activeClipIndex}
+              onSeek={seekTo}
+            />
           </div>
 
           <div className="rounded-3xl border border-white/10 bg-white/5 p-6">
@@ -394,10 +1475,67 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
               <span>Timeline</span>
               <span className="text-slate-300">Duração total · {composedDuration.toFixed(1)}s</span>
             </div>
+            <div className="mt-4 flex flex-wrap items-center gap-2 text-[11px] font-semibold text-white">
+              <button
+                type="button"
+                onClick={history.undo}
+                disabled={!history.undoLabel}
+                title={history.undoLabel ? `Desfazer: ${history.undoLabel}` : "Nada para desfazer"}
+                className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                <ArrowUturnLeftIcon className="h-3.5 w-3.5" />
+                Desfazer
+              </button>
+              <button
+                type="button"
+                onClick={history.redo}
+                disabled={!history.redoLabel}
+                title={history.redoLabel ? `Refazer: ${history.redoLabel}` : "Nada para refazer"}
+                className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                <ArrowUturnRightIcon className="h-3.5 w-3.5" />
+                Refazer
+              </button>
+              <button
+                type="button"
+                onClick={splitAtPlayhead}
+                disabled={!timeline.length}
+                className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                <ScissorsIcon className="h-3.5 w-3.5" />
+                Dividir no cursor
+              </button>
+              {selectedClips.length > 0 && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => insertCopies("Duplicar clipes", selectedClips)}
+                    className="rounded-full border border-white/10 px-3 py-1 transition hover:bg-white/10"
+                  >
+                    Duplicar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeClips(selectedClips.map((clip) => clip.id))}
+                    className="rounded-full border border-white/10 px-3 py-1 transition hover:bg-rose-500/20 hover:text-rose-100"
+                  >
+                    Remover {selectedClips.length > 1 ? `${selectedClips.length} clipes` : "clipe"}
+                  </button>
+                </>
+              )}
+            </div>
+            <p className="mt-2 text-[11px] text-slate-500">{SHORTCUTS}</p>
+            {timelineNotice && <p className="mt-2 text-[11px] text-amber-200">{timelineNotice}</p>}
             <div className="mt-4 flex gap-4 overflow-x-auto pr-3 scrollbar-thin">
               {timeline.map((clip, index) => {
                 const asset = mediaLibrary.find((item) => item.id === clip.assetId);
                 if (!asset) return null;
+                const isVideo = asset.type === "video";
+                const clipWindow = getClipWindow(clip, asset.duration);
+                const nextClip = timeline[index + 1];
+                const handleNeeded = nextClip ? resolveTransition(nextClip, clip).duration * clipWindow.endSpeed : 0;
+                const unusedMaterial = Math.max(0, clipWindow.playable - clip.duration) * clipWindow.endSpeed;
+                const runsOutOfHandle = isVideo && clip.fill !== "loop" && handleNeeded > clipWindow.handle + unusedMaterial;
                 return (
                   <div
                     key={clip.id}
@@ -405,43 +1543,47 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
                     onDragOver={onDragOver}
                     className={clsx(
                       "group relative flex min-w-[200px] flex-col gap-3 rounded-2xl border border-white/10 bg-black/40 p-4",
-                      activeClipIndex === index && "border-primary/50"
+                      activeClipIndex === index && "border-primary/50",
+                      selectedClipIds.includes(clip.id) && "ring-2 ring-secondary/60"
                     )}
                   >
                     <button
                       draggable
                       onDragStart={(event) => onDragStart(event, clip.id)}
-                      onClick={() => setActiveClipIndex(index)}
+                      onClick={(event) => selectClip(event, index)}
                       className="flex flex-1 cursor-grab flex-col gap-3"
                     >
                       <div className="relative aspect-video overflow-hidden rounded-xl border border-white/10">
-                        {asset.type === "image" ? (
-                          <Image
-                            src={asset.thumbnail}
-                            alt={asset.name}
-                            fill
-                            unoptimized
-                            sizes="200px"
-                            className="object-cover"
-                          />
-                        ) : (
-                          <video src={asset.url} className="h-full w-full object-cover" muted loop autoPlay playsInline />
-                        )}
+                        <Image
+                          src={asset.thumbnail}
+                          alt={asset.name}
+                          fill
+                          unoptimized
+                          sizes="200px"
+                          className="object-cover"
+                        />
                       </div>
                       <div className="text-left text-xs text-slate-300">
                         <p className="truncate text-sm font-semibold text-white">{asset.name}</p>
-                        <p>{clip.duration.toFixed(1)}s · {clip.transition}</p>
+                        <p>
+                          {clip.duration.toFixed(1)}s · {clip.transition}
+                          {isVideo && (clip.speed ?? 1) !== (clip.endSpeed ?? clip.speed ?? 1)
+                            ? ` · ${(clip.speed ?? 1).toFixed(2)}×→${(clip.endSpeed ?? 1).toFixed(2)}×`
+                            : isVideo && (clip.speed ?? 1) !== 1
+                              ? ` · ${(clip.speed ?? 1).toFixed(2)}×`
+                              : ""}
+                        </p>
                       </div>
                     </button>
 
                     <div className="flex flex-col gap-2 text-xs text-slate-300">
                       <label className="flex flex-col gap-2">
-                        <span>Duração (s)</span>
+                        <span>Duração · {clip.duration.toFixed(1)}s</span>
                         <input
                           type="range"
-                          min={2}
-                          max={30}
-                          step={0.5}
+                          min={MIN_CLIP_DURATION}
+                          max={isVideo && !clip.fill ? Math.max(MIN_CLIP_DURATION, clipWindow.playable) : MAX_CLIP_DURATION}
+                          step={0.1}
                           value={clip.duration}
                           onChange={(event) => updateClip(clip.id, { duration: Number(event.target.value) })}
                           className="accent-primary"
@@ -467,10 +1609,175 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
                           ))}
                         </div>
                       </label>
+                      {clip.transition !== "corte" && (
+                        <label className="flex flex-col gap-2">
+                          <span>
+                            Duração da transição · {(clip.transitionDuration ?? DEFAULT_TRANSITION_DURATION).toFixed(1)}s
+                          </span>
+                          <input
+                            type="range"
+                            min={MIN_TRANSITION_DURATION}
+                            max={MAX_TRANSITION_DURATION}
+                            step={0.1}
+                            value={clip.transitionDuration ?? DEFAULT_TRANSITION_DURATION}
+                            onChange={(event) => updateClip(clip.id, { transitionDuration: Number(event.target.value) })}
+                            className="accent-secondary"
+                          />
+                        </label>
+                      )}
+                      {supportsEasing(clip.transition) && (
+                        <label className="flex flex-col gap-2">
+                          <span>Easing</span>
+                          <div className="grid grid-cols-2 gap-2 text-[11px]">
+                            {TRANSITION_EASINGS.map((easing) => (
+                              <button
+                                key={easing}
+                                onClick={() => updateClip(clip.id, { easing })}
+                                className={clsx(
+                                  "rounded-full px-3 py-1 transition",
+                                  (clip.easing ?? DEFAULT_TRANSITION_EASING) === easing
+                                    ? "bg-white text-black"
+                                    : "bg-white/10 text-slate-300 hover:bg-white/20"
+                                )}
+                                type="button"
+                              >
+                                {easing}
+                              </button>
+                            ))}
+                          </div>
+                        </label>
+                      )}
                     </div>
 
+                    {isVideo && (
+                      <div className="flex flex-col gap-2 border-t border-white/10 pt-3 text-xs text-slate-300">
+                        <div className="grid grid-cols-2 gap-2">
+                          <label className="flex flex-col gap-1">
+                            <span>Entrada (s)</span>
+                            <input
+                              type="number"
+                              min={0}
+                              step={0.1}
+                              value={clip.inPoint ?? 0}
+                              onChange={(event) => {
+                                const end = clip.outPoint ?? asset.duration ?? Infinity;
+                                updateClip(clip.id, { inPoint: Math.min(Math.max(0, Number(event.target.value) || 0), end - 0.1) });
+                              }}
+                              className="rounded-full border border-white/10 bg-black/40 px-2 py-1 text-white outline-none focus:border-primary/60"
+                            />
+                          </label>
+                          <label className="flex flex-col gap-1">
+                            <span>Saída (s)</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={asset.duration}
+                              step={0.1}
+                              value={clip.outPoint ?? asset.duration ?? ""}
+                              onChange={(event) => {
+                                const value = Number(event.target.value) || 0;
+                                const outPoint = Math.min(Math.max(value, (clip.inPoint ?? 0) + 0.1), asset.duration ?? Infinity);
+                                updateClip(clip.id, { outPoint: asset.duration && outPoint >= asset.duration ? undefined : outPoint });
+                              }}
+                              className="rounded-full border border-white/10 bg-black/40 px-2 py-1 text-white outline-none focus:border-primary/60"
+                            />
+                          </label>
+                        </div>
+                        <label className="flex flex-col gap-2">
+                          <span>Velocidade · {(clip.speed ?? 1).toFixed(2)}×</span>
+                          <input
+                            type="range"
+                            min={MIN_CLIP_SPEED}
+                            max={MAX_CLIP_SPEED}
+                            step={0.05}
+                            value={clip.speed ?? 1}
+                            onChange={(event) => updateClip(clip.id, { speed: Number(event.target.value) })}
+                            className="accent-primary"
+                          />
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={clip.endSpeed !== undefined}
+                            onChange={(event) =>
+                              updateClip(clip.id, { endSpeed: event.target.checked ? clip.speed ?? 1 : undefined })
+                            }
+                            className="accent-primary"
+                          />
+                          Rampa de velocidade
+                        </label>
+                        {clip.endSpeed !== undefined && (
+                          <label className="flex flex-col gap-2">
+                            <span>Velocidade final · {clip.endSpeed.toFixed(2)}×</span>
+                            <input
+                              type="range"
+                              min={MIN_CLIP_SPEED}
+                              max={MAX_CLIP_SPEED}
+                              step={0.05}
+                              value={clip.endSpeed}
+                              onChange={(event) => updateClip(clip.id, { endSpeed: Number(event.target.value) })}
+                              className="accent-primary"
+                            />
+                          </label>
+                        )}
+                        <div className="flex flex-col gap-2">
+                          <span>Quando o material acabar</span>
+                          <div className="grid grid-cols-3 gap-2 text-[11px]">
+                            {FILL_OPTIONS.map((option) => (
+                              <button
+                                key={option.label}
+                                type="button"
+                                onClick={() => updateClip(clip.id, { fill: option.value })}
+                                className={clsx(
+                                  "rounded-full px-2 py-1 transition",
+                                  clip.fill === option.value ? "bg-white text-black" : "bg-white/10 text-slate-300 hover:bg-white/20"
+                                )}
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <p className="text-[11px] text-slate-400">
+                          Material útil {clipWindow.playable.toFixed(1)}s · handle {clipWindow.handle.toFixed(1)}s
+                        </p>
+                        {runsOutOfHandle && (
+                          <p className="text-[11px] text-amber-200">
+                            A transição seguinte passa do fim da mídia; o último quadro fica congelado durante ela.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    <FramingEditor
+                      asset={asset}
+                      frame={outputFormat}
+                      framing={clip.framing}
+                      focus={clip.focus}
+                      onChange={(changes) => updateClip(clip.id, changes)}
+                    />
+
+                    {asset.type === "image" && (
+                      <MotionEditor
+                        motion={clip.motion}
+                        asset={asset}
+                        frame={outputFormat}
+                        framing={clip.framing}
+                        focus={clip.focus}
+                        onChange={(motion) => updateClip(clip.id, { motion })}
+                      />
+                    )}
+
+                    <ColorGradeEditor
+                      grade={clip.grade}
+                      luts={luts}
+                      onChange={(clipGrade) => updateClip(clip.id, { grade: clipGrade })}
+                      onImportLut={importLut}
+                    />
+
                     <button
-                      onClick={() => removeClip(clip.id)}
+                      title="Remover clipe"
+                      onClick={() => removeClips([clip.id])}
                       className="absolute -right-2 -top-2 flex h-7 w-7 items-center justify-center rounded-full bg-rose-500 text-xs font-bold text-white opacity-0 transition group-hover:opacity-100"
                       type="button"
                     >
@@ -487,6 +1794,45 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
             </div>
           </div>
 
+          <AudioTracksPanel
+            tracks={audioTracks}
+            ducking={ducking}
+            length={Math.max(programmeLength, audioEnd, 1)}
+            playheadTime={playheadTime}
+            insertableSources={{
+              narration: narrationJobId,
+              music: selectedAsset?.type === "audio" ? selectedAsset.id : null,
+              sfx: selectedAsset?.type === "audio" ? selectedAsset.id : null
+            }}
+            describeSource={describeAudioSource}
+            onTracksChange={editAudioTracks}
+            onDuckingChange={setDucking}
+          />
+
+          <TextOverlaysPanel
+            overlays={overlays}
+            length={Math.max(programmeLength, 1)}
+            playheadTime={playheadTime}
+            onChange={editOverlays}
+          />
+
+          <div className="grid gap-4 rounded-2xl border border-white/10 bg-white/5 p-5 text-xs text-slate-300">
+            <div className="flex items-center gap-3">
+              <AdjustmentsHorizontalIcon className="h-5 w-5 text-secondary" />
+              <div>
+                <p className="text-sm font-semibold text-white">Cor do projeto</p>
+                <p>Aplicada ao vídeo inteiro depois da cor de cada clipe e das transições, sob os textos.</p>
+              </div>
+            </div>
+            <ColorGradeEditor
+              grade={grade}
+              luts={luts}
+              title="Ajustes globais"
+              onChange={(next) => setGrade(next ?? NEUTRAL_GRADE)}
+              onImportLut={importLut}
+            />
+          </div>
+
           <div className="grid gap-4 rounded-2xl border border-white/10 bg-white/5 p-5 text-xs text-slate-300">
             <div className="flex items-center gap-3">
               <SwatchIcon className="h-5 w-5 text-secondary" />
@@ -506,6 +1852,128 @@ export function VideoComposerModule({ narrationUrl, narrationDuration }: VideoCo
               O motor de renderização ajusta automaticamente keyframes, easing e blending de cor entre as transições escolhidas.
             </p>
           </div>
+
+          <div className="grid gap-4 rounded-2xl border border-primary/20 bg-primary/10 p-5 text-xs text-slate-300">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <FilmIcon className="h-5 w-5 text-primary" />
+                <div>
+                  <p className="text-sm font-semibold text-white">Exportação</p>
+                  <p>
+                    Renderiza a timeline em {outputFormat.width}×{outputFormat.height} ({outputCodec.label}, ~
+                    {(getVideoBitrate(output) / 1000).toFixed(1)} Mb/s) com{" "}
+                    {audioTracks.some((track) => !track.muted && track.clips.length) ? "as faixas de áudio mixadas" : "trilha silenciosa"}{" "}
+                    no servidor.
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={exportTimeline}
+                disabled={!timeline.length || isExporting || renderStatus?.status === "processing"}
+                className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-black transition hover:bg-slate-200 disabled:cursor-not-allowed disabled:opacity-60"
+                type="button"
+              >
+                {isExporting ? "Enviando..." : "Exportar vídeo"}
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="uppercase tracking-[0.3em] text-slate-400">Formato</span>
+              {OUTPUT_FORMATS.map((format) => (
+                <button
+                  key={format.value}
+                  type="button"
+                  title={`${format.width}×${format.height} · ${format.description}`}
+                  onClick={() => setOutput((prev) => ({ ...prev, format: format.value }))}
+                  className={clsx(
+                    "rounded-full border px-3 py-1 text-[11px] font-semibold transition",
+                    output.format === format.value
+                      ? "border-primary bg-primary/20 text-white"
+                      : "border-white/10 text-slate-300 hover:border-white/30"
+                  )}
+                >
+                  {format.label}
+                  <span className="ml-1 font-normal text-slate-400">{format.description}</span>
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2">
+                <span className="uppercase tracking-[0.3em] text-slate-400">Codec</span>
+                <select
+                  value={output.codec}
+                  onChange={(event) => setOutput((prev) => ({ ...prev, codec: event.target.value as OutputSettings["codec"] }))}
+                  className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-[11px] text-white outline-none focus:border-primary/60"
+                >
+                  {VIDEO_CODECS.map((codec) => (
+                    <option key={codec.value} value={codec.value}>
+                      {codec.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="uppercase tracking-[0.3em] text-slate-400">Qualidade</span>
+                <select
+                  value={output.quality}
+                  onChange={(event) => setOutput((prev) => ({ ...prev, quality: event.target.value as OutputSettings["quality"] }))}
+                  className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-[11px] text-white outline-none focus:border-primary/60"
+                >
+                  {OUTPUT_QUALITIES.map((quality) => (
+                    <option key={quality.value} value={quality.value}>
+                      {quality.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {hasNarration && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="uppercase tracking-[0.3em] text-slate-400">Legendas</span>
+                {CAPTION_MODES.map((mode) => (
+                  <button
+                    key={mode.value}
+                    type="button"
+                    onClick={() => setCaptionMode(mode.value)}
+                    disabled={mode.value !== "none" && !narrationAligned}
+                    className={clsx(
+                      "rounded-full border px-3 py-1 text-[11px] font-semibold transition disabled:cursor-not-allowed disabled:opacity-50",
+                      captionMode === mode.value
+                        ? "border-primary bg-primary/20 text-white"
+                        : "border-white/10 text-slate-300 hover:border-white/30"
+                    )}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {renderStatus && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between text-[11px] uppercase tracking-[0.3em]">
+                  <span>{renderStatus.status === "failed" ? renderStatus.error ?? "Erro ao renderizar" : renderStatus.status}</span>
+                  <span className="tabular-nums text-slate-200">{renderStatus.progress}%</span>
+                </div>
+                {renderStatus.status !== "failed" && (
+                  <div className="relative h-2 overflow-hidden rounded-full bg-white/10">
+                    <div
+                      className="absolute inset-y-0 left-0 rounded-full bg-gradient-to-r from-primary via-secondary to-primary"
+                      style={{ width: `${Math.max(4, renderStatus.progress)}%` }}
+                    />
+                  </div>
+                )}
+                {renderStatus.status === "completed" && renderStatus.downloadUrl && (
+                  <a
+                    href={renderStatus.downloadUrl}
+                    download
+                    className="inline-flex items-center gap-2 rounded-full bg-white px-4 py-2 text-xs font-semibold text-black transition hover:bg-slate-200"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                    Baixar vídeo
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
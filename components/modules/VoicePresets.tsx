@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import clsx from "clsx";
+import type { VoiceCatalogEntry, VoicePreset } from "@/lib/voices";
+
+type VoiceSettings = Pick<VoicePreset, "voiceId" | "speed" | "pitch" | "emotion">;
+
+interface VoicePresetsProps {
+  presets: VoicePreset[];
+  voices: VoiceCatalogEntry[];
+  /** The form's current voice settings, which "Salvar" stores. */
+  current: VoiceSettings;
+  onPresetsChange: (presets: VoicePreset[]) => void;
+  onApply: (preset: VoicePreset) => void;
+}
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return typeof data?.message === "string" ? data.message : fallback;
+};
+
+const isSameSettings = (preset: VoicePreset, current: VoiceSettings) =>
+  preset.voiceId === current.voiceId &&
+  preset.speed === current.speed &&
+  preset.pitch === current.pitch &&
+  preset.emotion === current.emotion;
+
+/**
+ * Named voice settings stored on the server, shared by everyone using it. A preset whose voice the active
+ * engine does not offer is listed but cannot be applied.
+ */
+export function VoicePresets({ presets, voices, current, onPresetsChange, onApply }: VoicePresetsProps) {
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const savePreset = useCallback(async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/voices/presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, ...current })
+      });
+      if (!response.ok) throw new Error(await readErrorMessage(response, "Não foi possível salvar a predefinição"));
+      const preset: VoicePreset = await response.json();
+      onPresetsChange([...presets, preset].sort((a, b) => a.name.localeCompare(b.name, "pt-BR")));
+      setName("");
+    } catch (saveError) {
+      console.error(saveError);
+      setError(saveError instanceof Error ? saveError.message : "Erro desconhecido");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [current, name, onPresetsChange, presets]);
+
+  const deletePreset = useCallback(
+    async (presetId: string) => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/voices/presets/${presetId}`, { method: "DELETE" });
+        if (!response.ok) throw new Error(await readErrorMessage(response, "Não foi possível excluir a predefinição"));
+        onPresetsChange(presets.filter((preset) => preset.id !== presetId));
+      } catch (deleteError) {
+        console.error(deleteError);
+        setError(deleteError instanceof Error ? deleteError.message : "Erro desconhecido");
+      }
+    },
+    [onPresetsChange, presets]
+  );
+
+  return (
+    <div className="space-y-3 border-t border-white/10 pt-4">
+      <h4 className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-400">Predefinições</h4>
+      {presets.length > 0 && (
+        <ul className="grid gap-2">
+          {presets.map((preset) => {
+            const voice = voices.find((entry) => entry.id === preset.voiceId);
+            return (
+              <li key={preset.id} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  disabled={!voice}
+                  onClick={() => onApply(preset)}
+                  title={voice ? undefined : "Voz indisponível no motor atual"}
+                  className={clsx(
+                    "flex-1 rounded-2xl border px-3 py-2 text-left text-xs transition disabled:cursor-not-allowed disabled:opacity-50",
+                    isSameSettings(preset, current)
+                      ? "border-primary/60 bg-primary/10 text-white"
+                      : "border-white/10 bg-black/30 text-slate-300 hover:border-white/30"
+                  )}
+                >
+                  <span className="block font-semibold">{preset.name}</span>
+                  <span className="text-[11px] text-slate-400">
+                    {voice?.label ?? preset.voiceId} · {preset.speed.toFixed(2)}x · tom {preset.pitch > 0 ? `+${preset.pitch}` : preset.pitch} ·{" "}
+                    {preset.emotion}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  title="Excluir predefinição"
+                  onClick={() => void deletePreset(preset.id)}
+                  className="rounded-full p-1.5 text-slate-300 transition hover:bg-rose-500/20 hover:text-rose-100"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => {
+            // The field sits inside the narration form; Enter saves the preset instead of submitting it.
+            if (event.key === "Enter") {
+              event.preventDefault();
+              void savePreset();
+            }
+          }}
+          placeholder="Ex.: Narrador documentário"
+          maxLength={80}
+          className="min-w-0 flex-1 rounded-full border border-white/10 bg-black/30 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:border-primary focus:outline-none"
+        />
+        <button
+          type="button"
+          disabled={!name.trim() || isSaving}
+          onClick={() => void savePreset()}
+          className="rounded-full bg-white/10 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isSaving ? "Salvando..." : "Salvar atual"}
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-200">{error}</p>}
+    </div>
+  );
+}
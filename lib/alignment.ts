@@ -0,0 +1,49 @@
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SentenceTiming {
+  text: string;
+  start: number;
+  end: number;
+  words: WordTiming[];
+}
+
+const SENTENCE_BOUNDARY = /(?<=[.!?…;])\s+/;
+
+export const splitSentences = (text: string) => text.split(SENTENCE_BOUNDARY).filter((sentence) => sentence.trim());
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const shift = (value: number, offset: number) => round(Math.max(0, value + offset));
+
+// Engines only report the length of each rendered sentence, so word boundaries are interpolated
+// inside it, weighted by letter count with a floor so short words still get a readable slot.
+const wordWeight = (word: string) => Math.max(2, word.replace(/[^\p{L}\p{N}]/gu, "").length) + (/[,:;]$/.test(word) ? 2 : 0);
+
+export function alignSentence(text: string, start: number, end: number): SentenceTiming {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const total = words.reduce((acc, word) => acc + wordWeight(word), 0);
+  let cursor = start;
+
+  return {
+    text: text.trim(),
+    start: round(start),
+    end: round(end),
+    words: words.map((word) => {
+      const wordStart = cursor;
+      cursor += total ? ((end - start) * wordWeight(word)) / total : 0;
+      return { text: word, start: round(wordStart), end: round(cursor) };
+    })
+  };
+}
+
+export const offsetTimings = (sentences: SentenceTiming[], offset: number): SentenceTiming[] =>
+  sentences.map((sentence) => ({
+    ...sentence,
+    start: shift(sentence.start, offset),
+    end: shift(sentence.end, offset),
+    words: sentence.words.map((word) => ({ ...word, start: shift(word.start, offset), end: shift(word.end, offset) }))
+  }));
@@ -0,0 +1,203 @@
+import { createWriteStream } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { createGunzip } from "zlib";
+
+export interface ArchiveEntry {
+  name: string;
+  size: number;
+  /** Opened only when the entry is written, so one file at a time is read. */
+  open: () => Readable | Promise<Readable | undefined>;
+}
+
+/** An archive that cannot be read or does not hold a valid project: the uploader's fault, not the server's. */
+export class ArchiveError extends Error {}
+
+const BLOCK_SIZE = 512;
+const END_OF_ARCHIVE = Buffer.alloc(BLOCK_SIZE * 2);
+
+const writeOctal = (header: Buffer, value: number, offset: number, length: number) => {
+  header.write(value.toString(8).padStart(length - 1, "0"), offset, length - 1, "ascii");
+};
+
+const readString = (header: Buffer, offset: number, length: number) => {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString("utf8", 0, end === -1 ? length : end);
+};
+
+const readOctal = (header: Buffer, offset: number, length: number) =>
+  parseInt(readString(header, offset, length).trim() || "0", 8);
+
+const checksum = (header: Buffer) => {
+  let sum = 0;
+  for (let index = 0; index < BLOCK_SIZE; index += 1) {
+    // The checksum field itself counts as eight spaces.
+    sum += index >= 148 && index < 156 ? 0x20 : header[index];
+  }
+  return sum;
+};
+
+function createHeader(name: string, size: number, modifiedAt: number) {
+  const encodedName = Buffer.from(name, "utf8");
+  if (encodedName.length > 100) {
+    throw new Error(`Nome de arquivo longo demais para o pacote: ${name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  encodedName.copy(header, 0);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(modifiedAt / 1000), 136, 12);
+  header.write("0", 156, "ascii");
+  header.write("ustar\u000000", 257, "ascii");
+  writeOctal(header, checksum(header), 148, 7);
+  header[155] = 0x20;
+  return header;
+}
+
+const paddingLength = (size: number) => (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+
+/** An entry held in memory, for the document and other small files. */
+export const createBufferEntry = (name: string, data: Buffer): ArchiveEntry => ({
+  name,
+  size: data.length,
+  open: () => Readable.from([data])
+});
+
+async function* writeEntries(entries: ArchiveEntry[], modifiedAt: number) {
+  for (const entry of entries) {
+    const source = await entry.open();
+    if (!source) {
+      throw new Error(`Arquivo removido durante o empacotamento: ${entry.name}`);
+    }
+    yield createHeader(entry.name, entry.size, modifiedAt);
+
+    let written = 0;
+    for await (const chunk of source as AsyncIterable<Buffer>) {
+      written += chunk.length;
+      if (written > entry.size) break;
+      yield chunk;
+    }
+    source.destroy();
+    // The header already announced the size; a file that changed since it was measured breaks the archive.
+    if (written !== entry.size) {
+      throw new Error(`Arquivo alterado durante o empacotamento: ${entry.name}`);
+    }
+    yield Buffer.alloc(paddingLength(entry.size));
+  }
+  yield END_OF_ARCHIVE;
+}
+
+/**
+ * Streams the entries as an uncompressed ustar archive, the layout of `.aurora` project bundles. Media is
+ * already compressed, so gzip would cost CPU for nothing. The size is known up front for Content-Length.
+ */
+export function createArchive(entries: ArchiveEntry[], modifiedAt = Date.now()) {
+  // Names too long for a header are rejected before the first byte goes out.
+  for (const entry of entries) createHeader(entry.name, entry.size, modifiedAt);
+  const size = entries.reduce((total, entry) => total + BLOCK_SIZE + entry.size + paddingLength(entry.size), END_OF_ARCHIVE.length);
+  return { size, stream: Readable.from(writeEntries(entries, modifiedAt)) };
+}
+
+/** Bundles exported before archives were streamed are gzip-compressed; both kinds are read. */
+async function decompress(source: AsyncIterable<Uint8Array>) {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const chunks = Readable.from(
+    (async function* () {
+      if (!first.done) yield first.value;
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) yield next.value;
+    })()
+  );
+  if (first.done || first.value[0] !== 0x1f || first.value[1] !== 0x8b) return chunks;
+
+  const gunzip = createGunzip();
+  chunks.once("error", (error) => gunzip.destroy(error));
+  return chunks.pipe(gunzip);
+}
+
+/**
+ * Extracts the regular files of a tar (plain or gzip-compressed) into `directory`, at most `maxBytes` in
+ * total. Files are stored under generated names, so entry names never reach the file system; resolves
+ * with the path of each entry by name. Directories and links are skipped.
+ */
+export async function extractArchive(source: AsyncIterable<Uint8Array>, directory: string, maxBytes: number) {
+  const iterator = (await decompress(source))[Symbol.asyncIterator]() as AsyncIterator<Uint8Array>;
+  let buffered = Buffer.alloc(0);
+  let total = 0;
+
+  const fill = async () => {
+    // A damaged gzip stream fails here, while the tar is being read.
+    const next = await iterator.next().catch(() => {
+      throw new ArchiveError("Pacote de projeto corrompido");
+    });
+    if (next.done) {
+      throw new ArchiveError("Pacote de projeto incompleto");
+    }
+    total += next.value.length;
+    if (total > maxBytes) {
+      throw new ArchiveError("Pacote de projeto grande demais");
+    }
+    // Web streams (a request body) yield plain Uint8Arrays.
+    const chunk = Buffer.from(next.value.buffer, next.value.byteOffset, next.value.byteLength);
+    buffered = buffered.length ? Buffer.concat([buffered, chunk]) : chunk;
+  };
+
+  const readBlock = async () => {
+    while (buffered.length < BLOCK_SIZE) await fill();
+    const block = buffered.subarray(0, BLOCK_SIZE);
+    buffered = buffered.subarray(BLOCK_SIZE);
+    return block;
+  };
+
+  async function* readData(size: number) {
+    let remaining = size;
+    while (remaining > 0) {
+      if (!buffered.length) await fill();
+      const piece = buffered.subarray(0, Math.min(remaining, buffered.length));
+      buffered = buffered.subarray(piece.length);
+      remaining -= piece.length;
+      yield piece;
+    }
+  }
+
+  const skip = async (size: number) => {
+    for (let remaining = size; remaining > 0; ) {
+      if (!buffered.length) await fill();
+      const length = Math.min(remaining, buffered.length);
+      buffered = buffered.subarray(length);
+      remaining -= length;
+    }
+  };
+
+  const files = new Map<string, string>();
+  try {
+    for (;;) {
+      const header = await readBlock();
+      if (header.every((byte) => byte === 0)) break;
+      if (readOctal(header, 148, 8) !== checksum(header)) {
+        throw new ArchiveError("Pacote de projeto corrompido");
+      }
+
+      const size = readOctal(header, 124, 12);
+      const type = String.fromCharCode(header[156] || 0x30);
+      if (type === "0") {
+        const prefix = readString(header, 345, 155);
+        const name = readString(header, 0, 100);
+        const filePath = path.join(directory, `entry-${files.size}`);
+        await pipeline(Readable.from(readData(size)), createWriteStream(filePath));
+        files.set(prefix ? `${prefix}/${name}` : name, filePath);
+      } else {
+        await skip(size);
+      }
+      await skip(paddingLength(size));
+    }
+  } finally {
+    await iterator.return?.();
+  }
+  return files;
+}
@@ -0,0 +1,75 @@
+export type AudioFormat = "mp3" | "wav" | "flac" | "opus" | "m4a";
+
+export interface AudioFormatDefinition {
+  id: AudioFormat;
+  label: string;
+  description: string;
+  extension: string;
+  contentType: string;
+  muxer: string;
+  codec: string;
+  outputOptions: string[];
+}
+
+export const AUDIO_FORMATS: AudioFormatDefinition[] = [
+  {
+    id: "mp3",
+    label: "MP3",
+    description: "320 kbps",
+    extension: "mp3",
+    contentType: "audio/mpeg",
+    muxer: "mp3",
+    codec: "libmp3lame",
+    outputOptions: ["-b:a 320k"]
+  },
+  {
+    id: "wav",
+    label: "WAV",
+    description: "48 kHz · 24-bit",
+    extension: "wav",
+    contentType: "audio/wav",
+    muxer: "wav",
+    codec: "pcm_s24le",
+    outputOptions: ["-ar 48000"]
+  },
+  {
+    id: "flac",
+    label: "FLAC",
+    description: "48 kHz · 24-bit sem perdas",
+    extension: "flac",
+    contentType: "audio/flac",
+    muxer: "flac",
+    codec: "flac",
+    outputOptions: ["-ar 48000", "-sample_fmt s32", "-bits_per_raw_sample 24"]
+  },
+  {
+    id: "opus",
+    label: "Opus",
+    description: "128 kbps",
+    extension: "opus",
+    contentType: "audio/ogg; codecs=opus",
+    muxer: "opus",
+    codec: "libopus",
+    outputOptions: ["-b:a 128k", "-ar 48000"]
+  },
+  {
+    id: "m4a",
+    label: "AAC / M4A",
+    description: "256 kbps",
+    extension: "m4a",
+    contentType: "audio/mp4",
+    muxer: "ipod",
+    codec: "aac",
+    outputOptions: ["-b:a 256k", "-ar 48000", "-movflags +faststart"]
+  }
+];
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = "mp3";
+
+/** Lossless copy kept for every job; the other formats are transcoded from it. */
+export const MASTER_AUDIO_FORMAT: AudioFormat = "flac";
+
+export const isAudioFormat = (value: unknown): value is AudioFormat => AUDIO_FORMATS.some((format) => format.id === value);
+
+export const getAudioFormat = (format: AudioFormat) =>
+  AUDIO_FORMATS.find((definition) => definition.id === format) ?? AUDIO_FORMATS[0];
@@ -0,0 +1,165 @@
+import { offsetTimings, type SentenceTiming } from "@/lib/alignment";
+import type { PauseTiming } from "@/lib/pauseDetection";
+
+export type AudioTrackKind = "narration" | "music" | "sfx";
+
+export interface AudioClip {
+  id: string;
+  /** TTS job id on the narration track, media library id on the music and SFX tracks. */
+  sourceId: string;
+  /** Where the clip starts on the timeline, in seconds. */
+  offset: number;
+  /** Plays only the first `duration` seconds of the source; the whole file when omitted. */
+  duration?: number;
+  /** Linear gain applied before the track volume. */
+  volume: number;
+}
+
+export interface AudioTrack {
+  kind: AudioTrackKind;
+  /** Linear gain: 1 keeps the source level, 2 is roughly +6 dB. */
+  volume: number;
+  muted: boolean;
+  clips: AudioClip[];
+}
+
+export interface DuckingSettings {
+  enabled: boolean;
+  /** Attenuation applied to the music bed while the narration speaks, in dB. */
+  depth: number;
+  /** Seconds the music takes to fade down before speech starts. */
+  attack: number;
+  /** Seconds the music takes to come back up after speech ends. */
+  release: number;
+}
+
+/** The timeline always carries one track of each kind, in this order. */
+export const AUDIO_TRACKS: { kind: AudioTrackKind; label: string }[] = [
+  { kind: "narration", label: "Narração" },
+  { kind: "music", label: "Trilha sonora" },
+  { kind: "sfx", label: "Efeitos" }
+];
+
+export const MAX_TRACK_VOLUME = 2;
+export const MAX_AUDIO_CLIPS = 100;
+export const MAX_DUCKING_DEPTH = 30;
+export const MAX_DUCKING_RAMP = 3;
+
+export const DEFAULT_DUCKING: DuckingSettings = { enabled: true, depth: 12, attack: 0.3, release: 0.8 };
+
+export const createAudioTracks = (): AudioTrack[] =>
+  AUDIO_TRACKS.map(({ kind }) => ({ kind, volume: 1, muted: false, clips: [] }));
+
+export const getAudioTrack = (tracks: AudioTrack[], kind: AudioTrackKind) => tracks.find((track) => track.kind === kind);
+
+const isAudioTrackKind = (value: unknown): value is AudioTrackKind => AUDIO_TRACKS.some((track) => track.kind === value);
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const parseClip = (value: unknown): AudioClip | null => {
+  if (!value || typeof value !== "object") return null;
+  const { id, sourceId, offset, duration, volume } = value as Record<string, unknown>;
+  if (typeof id !== "string" || typeof sourceId !== "string" || !sourceId) return null;
+  if (!isNumberIn(offset, 0, Number.MAX_SAFE_INTEGER)) return null;
+  if (duration !== undefined && (!isNumberIn(duration, 0, Number.MAX_SAFE_INTEGER) || duration === 0)) return null;
+  if (volume !== undefined && !isNumberIn(volume, 0, MAX_TRACK_VOLUME)) return null;
+  return { id, sourceId, offset, duration, volume: volume ?? 1 };
+};
+
+/**
+ * Validates an untrusted list of audio tracks. Kinds missing from the payload come back as empty tracks,
+ * so callers always get the full set in AUDIO_TRACKS order; null when anything is malformed or repeated.
+ */
+export const parseAudioTracks = (value: unknown): AudioTrack[] | null => {
+  if (!Array.isArray(value)) return null;
+  const parsed = new Map<AudioTrackKind, AudioTrack>();
+
+  for (const entry of value) {
+    const { kind, volume, muted, clips } = entry ?? {};
+    if (!isAudioTrackKind(kind) || parsed.has(kind)) return null;
+    if (!isNumberIn(volume, 0, MAX_TRACK_VOLUME) || typeof muted !== "boolean") return null;
+    if (!Array.isArray(clips) || clips.length > MAX_AUDIO_CLIPS) return null;
+
+    const parsedClips: AudioClip[] = [];
+    for (const clip of clips) {
+      const audioClip = parseClip(clip);
+      if (!audioClip) return null;
+      parsedClips.push(audioClip);
+    }
+
+    parsed.set(kind, { kind, volume, muted, clips: parsedClips });
+  }
+  return createAudioTracks().map((track) => parsed.get(track.kind) ?? track);
+};
+
+export const parseDucking = (value: unknown): DuckingSettings | null => {
+  if (!value || typeof value !== "object") return null;
+  const { enabled, depth, attack, release } = value as Record<string, unknown>;
+  if (typeof enabled !== "boolean" || !isNumberIn(depth, 0, MAX_DUCKING_DEPTH)) return null;
+  if (!isNumberIn(attack, 0, MAX_DUCKING_RAMP) || !isNumberIn(release, 0, MAX_DUCKING_RAMP)) return null;
+  return { enabled, depth, attack, release };
+};
+
+/** Media library ids referenced by the music and SFX tracks. */
+export const getAudioAssetIds = (tracks: AudioTrack[]) =>
+  Array.from(
+    new Set(tracks.filter((track) => track.kind !== "narration").flatMap((track) => track.clips.map((clip) => clip.sourceId)))
+  );
+
+/** TTS job ids referenced by the narration track. */
+export const getNarrationJobIds = (tracks: AudioTrack[]) =>
+  Array.from(new Set(getAudioTrack(tracks, "narration")?.clips.map((clip) => clip.sourceId) ?? []));
+
+/** Where the last clip of the tracks stops, given each source's full length. */
+export const getAudioTracksEnd = (tracks: AudioTrack[], sourceDuration: (sourceId: string) => number | undefined) =>
+  tracks.reduce(
+    (end, track) =>
+      track.clips.reduce((trackEnd, clip) => {
+        const length = clip.duration ?? sourceDuration(clip.sourceId) ?? 0;
+        return Math.max(trackEnd, clip.offset + length);
+      }, end),
+    0
+  );
+
+const trimTimings = (sentences: SentenceTiming[], limit?: number) => {
+  if (limit === undefined) return sentences;
+  return sentences
+    .filter((sentence) => sentence.start < limit)
+    .map((sentence) => ({
+      ...sentence,
+      end: Math.min(sentence.end, limit),
+      words: sentence.words
+        .filter((word) => word.start < limit)
+        .map((word) => ({ ...word, end: Math.min(word.end, limit) }))
+    }));
+};
+
+/**
+ * Lays the narration's sentence timings out on the timeline: each clip's alignment is cut where the clip
+ * is trimmed and shifted by its offset. Clips whose alignment is unknown are skipped.
+ */
+export function placeNarration(track: AudioTrack | undefined, alignments: Record<string, SentenceTiming[] | undefined>) {
+  if (!track) return [];
+  return track.clips
+    .flatMap((clip) => {
+      const sentences = alignments[clip.sourceId];
+      return sentences ? offsetTimings(trimTimings(sentences, clip.duration), clip.offset) : [];
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+/** The narration's detected pauses on the timeline, cut and shifted like placeNarration does with sentences. */
+export function placeNarrationPauses(track: AudioTrack | undefined, pauses: Record<string, PauseTiming[] | undefined>) {
+  if (!track) return [];
+  return track.clips
+    .flatMap((clip) =>
+      (pauses[clip.sourceId] ?? [])
+        .filter((pause) => clip.duration === undefined || pause.start < clip.duration)
+        .map((pause) => ({
+          start: pause.start + clip.offset,
+          end: Math.min(pause.end, clip.duration ?? pause.end) + clip.offset
+        }))
+    )
+    .sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,164 @@
+import type { SentenceTiming } from "@/lib/alignment";
+import type { PauseTiming } from "@/lib/pauseDetection";
+
+/** A place on the timeline where a cut does not split speech; stronger points are longer breaks. */
+export interface CutPoint {
+  time: number;
+  strength: number;
+}
+
+export interface DurationLimits {
+  min: number;
+  max: number;
+}
+
+/** How far a boundary may move to reach a pause when snapping, in seconds. */
+export const SNAP_TOLERANCE = 1.5;
+
+const SENTENCE_STRENGTH = 0.5;
+// Pauses longer than this read as paragraph breaks and are not preferred any further.
+const MAX_PAUSE_STRENGTH = 3;
+const MERGE_DISTANCE = 0.1;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Cut candidates for a placed narration: the middle of every detected pause, weighted by its length so
+ * paragraph breaks win over breaths, and every sentence boundary the pauses did not already cover.
+ */
+export function getCutPoints(sentences: SentenceTiming[], pauses: PauseTiming[]): CutPoint[] {
+  const points: CutPoint[] = pauses.map(({ start, end }) => ({
+    time: (start + end) / 2,
+    strength: 1 + Math.min(MAX_PAUSE_STRENGTH, end - start)
+  }));
+
+  const ordered = [...sentences].sort((a, b) => a.start - b.start);
+  ordered.slice(0, -1).forEach((sentence, index) => {
+    const next = ordered[index + 1];
+    points.push({ time: (sentence.end + Math.max(sentence.end, next.start)) / 2, strength: SENTENCE_STRENGTH });
+  });
+
+  const merged: CutPoint[] = [];
+  for (const point of points.sort((a, b) => a.time - b.time)) {
+    const previous = merged[merged.length - 1];
+    if (previous && point.time - previous.time < MERGE_DISTANCE) {
+      if (point.strength > previous.strength) merged[merged.length - 1] = point;
+    } else {
+      merged.push(point);
+    }
+  }
+  return merged;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Splits `length` seconds into `count` clip durations, cutting on the narration's breaks. Each cut aims at
+ * an even share of what is left and takes the best point within half a share of it, trading distance for
+ * strength; where the narration has no break nearby the cut falls on the even split.
+ */
+export function planCutDurations(count: number, length: number, points: CutPoint[], minDuration: number) {
+  if (count <= 0 || length <= 0) return [];
+  const cuts: number[] = [];
+  let previous = 0;
+
+  for (let index = 1; index < count; index += 1) {
+    const remaining = count - index;
+    const share = (length - previous) / (remaining + 1);
+    const ideal = previous + share;
+    const window = share / 2;
+    const earliest = previous + minDuration;
+    const latest = length - remaining * minDuration;
+
+    let best: { time: number; score: number } | null = null;
+    for (const point of points) {
+      if (point.time < earliest || point.time > latest || Math.abs(point.time - ideal) > window) continue;
+      const score = Math.abs(point.time - ideal) / window - point.strength / MAX_PAUSE_STRENGTH;
+      if (!best || score < best.score) best = { time: point.time, score };
+    }
+
+    const cut = best?.time ?? Math.min(Math.max(ideal, earliest), Math.max(earliest, latest));
+    cuts.push(cut);
+    previous = cut;
+  }
+
+  const boundaries = [0, ...cuts, length];
+  const durations = boundaries.slice(1).map((boundary, index) => round(boundary - boundaries[index]));
+  // Rounding each clip must not change the total the caller asked for.
+  durations[durations.length - 1] = round(durations[durations.length - 1] + length - sum(durations));
+  return durations;
+}
+
+/**
+ * Moves each boundary between clips onto the strongest cut point within `tolerance`, as long as both
+ * clips it separates stay within their limits. The total length never changes.
+ */
+export function snapDurations(durations: number[], points: CutPoint[], limits: DurationLimits[], tolerance = SNAP_TOLERANCE) {
+  const snapped = [...durations];
+  let boundary = 0;
+
+  for (let index = 0; index < snapped.length - 1; index += 1) {
+    boundary += snapped[index];
+    const start = boundary - snapped[index];
+    const end = boundary + snapped[index + 1];
+
+    let best: CutPoint | null = null;
+    for (const point of points) {
+      const before = point.time - start;
+      const after = end - point.time;
+      if (Math.abs(point.time - boundary) > tolerance) continue;
+      if (before < limits[index].min || before > limits[index].max) continue;
+      if (after < limits[index + 1].min || after > limits[index + 1].max) continue;
+      if (
+        !best ||
+        point.strength > best.strength ||
+        (point.strength === best.strength && Math.abs(point.time - boundary) < Math.abs(best.time - boundary))
+      ) {
+        best = point;
+      }
+    }
+    if (!best) continue;
+
+    snapped[index] = round(best.time - start);
+    snapped[index + 1] = round(end - best.time);
+    boundary = start + snapped[index];
+  }
+  return snapped;
+}
+
+/**
+ * Scales the durations proportionally so they add up to `target`. Clips that would cross their limits are
+ * pinned to them and the rest absorb the difference; `fixedIndex` keeps one clip (the one being edited)
+ * as it is. When the limits make the target unreachable the result gets as close as they allow.
+ */
+export function rescaleDurations(durations: number[], target: number, limits: DurationLimits[], fixedIndex?: number) {
+  const result = [...durations];
+  const pinned = new Set<number>(fixedIndex === undefined ? [] : [fixedIndex]);
+
+  for (let pass = 0; pass < durations.length; pass += 1) {
+    const free = result.map((_duration, index) => index).filter((index) => !pinned.has(index));
+    const freeTotal = sum(free.map((index) => durations[index]));
+    if (!free.length || freeTotal <= 0) break;
+
+    const scale = (target - sum(result.filter((_duration, index) => pinned.has(index)))) / freeTotal;
+    let clamped = false;
+    for (const index of free) {
+      const scaled = durations[index] * scale;
+      const bounded = Math.min(limits[index].max, Math.max(limits[index].min, scaled));
+      result[index] = bounded;
+      if (bounded !== scaled) {
+        pinned.add(index);
+        clamped = true;
+      }
+    }
+    if (!clamped) break;
+  }
+
+  const rounded = result.map(round);
+  const last = rounded.map((_duration, index) => index).filter((index) => index !== fixedIndex).pop();
+  if (last !== undefined) {
+    const adjusted = round(rounded[last] + target - sum(rounded));
+    if (adjusted >= limits[last].min && adjusted <= limits[last].max) rounded[last] = adjusted;
+  }
+  return rounded;
+}
@@ -0,0 +1,132 @@
+import type { MediaAsset, TimelineItem } from "@/lib/composition";
+import { getMotionProgress, splitMotion } from "@/lib/motion";
+
+/** The part of a video source a clip plays, and how long it lasts once its speed is applied. */
+export interface ClipWindow {
+  /** Source seconds of the in point. */
+  start: number;
+  /** Source seconds between the in and out points. */
+  length: number;
+  startSpeed: number;
+  endSpeed: number;
+  /** Output seconds the window lasts at its speed. */
+  playable: number;
+  /** Source seconds after the out point, used as the clip's handle when a transition runs past its slot. */
+  handle: number;
+}
+
+// Tolerance for durations rounded by sliders and ffprobe.
+const EPSILON = 0.05;
+
+const round = (value: number) => Number(value.toFixed(6));
+
+/** Output seconds needed to play `length` source seconds while the rate moves linearly from `from` to `to`. */
+const rampDuration = (length: number, from: number, to: number) =>
+  from === to ? length / from : (length * Math.log(to / from)) / (to - from);
+
+export function getClipWindow(clip: TimelineItem, sourceDuration?: number): ClipWindow {
+  const startSpeed = clip.speed ?? 1;
+  const endSpeed = clip.endSpeed ?? startSpeed;
+  const start = clip.inPoint ?? 0;
+  // Without a known source length the window is assumed to cover the slot exactly.
+  const end = clip.outPoint ?? sourceDuration ?? start + clip.duration * Math.max(startSpeed, endSpeed);
+  const length = Math.max(0, end - start);
+
+  return {
+    start,
+    length,
+    startSpeed,
+    endSpeed,
+    playable: length ? rampDuration(length, startSpeed, endSpeed) : 0,
+    handle: sourceDuration === undefined ? 0 : Math.max(0, sourceDuration - end)
+  };
+}
+
+const rampOffset = ({ length, startSpeed, endSpeed }: ClipWindow, time: number) =>
+  startSpeed === endSpeed
+    ? time * startSpeed
+    : (length * startSpeed * (Math.exp((time * (endSpeed - startSpeed)) / length) - 1)) / (endSpeed - startSpeed);
+
+/**
+ * Source seconds past the in point shown `time` seconds into a clip whose slot lasts `duration`. Looped clips
+ * wrap around the window; otherwise the out frame is held until the slot ends, and a transition running past
+ * the slot plays the handle at the end speed before freezing again.
+ */
+export function getSourceOffset(window: ClipWindow, duration: number, time: number, fill?: TimelineItem["fill"]) {
+  if (!window.playable) return 0;
+  if (time < window.playable) return rampOffset(window, time);
+  if (fill === "loop") return rampOffset(window, time % window.playable);
+
+  const hold = Math.max(window.playable, duration);
+  if (time < hold) return window.length;
+  return Math.min(window.length + window.handle, window.length + (time - hold) * window.endSpeed);
+}
+
+export const getSpeedAt = ({ length, startSpeed, endSpeed }: ClipWindow, offset: number) =>
+  length ? startSpeed + ((endSpeed - startSpeed) * Math.min(offset, length)) / length : startSpeed;
+
+/** Explains why a video clip cannot be rendered from its source, or returns null when it can. */
+export function checkClipSource(clip: TimelineItem, sourceDuration?: number) {
+  if (sourceDuration !== undefined) {
+    if ((clip.outPoint ?? 0) > sourceDuration + EPSILON) return "O ponto de saída ultrapassa a duração da mídia";
+    if ((clip.inPoint ?? 0) >= (clip.outPoint ?? sourceDuration)) return "O ponto de entrada precisa ficar antes do fim da mídia";
+  }
+
+  const { playable } = getClipWindow(clip, sourceDuration);
+  if (!clip.fill && clip.duration > playable + EPSILON) {
+    return `O clipe dura mais que o material disponível (${playable.toFixed(1)}s); escolha congelar ou repetir`;
+  }
+  return null;
+}
+
+/**
+ * ffmpeg `setpts` expression mapping source time to output time for the same curve as getSourceOffset
+ * (without looping): the ramp over the window, then the handle at the end speed after `hold` seconds.
+ * The gap it leaves while the out frame is held is filled by the `fps` filter duplicating that frame.
+ */
+export function buildSpeedExpression(window: ClipWindow, hold: number) {
+  const length = round(window.length);
+  const { startSpeed, endSpeed } = window;
+  const delta = round(endSpeed - startSpeed);
+  const ramp =
+    startSpeed === endSpeed
+      ? `ld(0)/${startSpeed}`
+      : `${length}/(${delta})*log((${startSpeed}+(${delta})*ld(0)/${length})/${startSpeed})`;
+  return `st(0,(PTS-STARTPTS)*TB);if(lt(ld(0),${length}),${ramp},${round(hold)}+(ld(0)-${length})/${endSpeed})/TB`;
+}
+
+/**
+ * Cuts a clip `time` seconds into its slot into two clips that play back as the original did: a video's
+ * second half starts on the source frame shown at the cut (and a ramp on the speed it had reached), a
+ * still's move carries on from the crop shown there. The second half keeps the clip's id, enters on a cut
+ * and keeps its fill. Returns null where the cut cannot keep the picture: outside the slot, on a held
+ * frame, or in a looped video, whose halves could not repeat the whole window.
+ */
+export function splitClip(clip: TimelineItem, time: number, asset: Pick<MediaAsset, "type" | "duration">) {
+  if (time <= 0 || time >= clip.duration) return null;
+  const first: TimelineItem = { ...clip, duration: round(time) };
+  const second: TimelineItem = {
+    ...clip,
+    duration: round(clip.duration - time),
+    transition: "corte",
+    transitionDuration: undefined,
+    easing: undefined
+  };
+
+  if (asset.type === "video") {
+    const window = getClipWindow(clip, asset.duration);
+    if (clip.fill === "loop" || time >= window.playable) return null;
+    const offset = rampOffset(window, time);
+    const cut = round(window.start + offset);
+    first.outPoint = cut;
+    second.inPoint = cut;
+    if (clip.endSpeed !== undefined) {
+      const speed = round(getSpeedAt(window, offset));
+      first.endSpeed = speed;
+      second.speed = speed;
+    }
+  } else if (clip.motion) {
+    [first.motion, second.motion] = splitMotion(clip.motion, getMotionProgress(clip, time));
+  }
+  return [first, second] as const;
+}
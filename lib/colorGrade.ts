@@ -0,0 +1,181 @@
+/**
+ * Colour adjustments of a clip or of the whole programme, applied in this order: exposure and temperature
+ * as per-channel gains, contrast around mid-grey, saturation against Rec. 709 luma, the LUT, then the
+ * vignette. Every step works on gamma-encoded RGB clamped to 0–1, in the preview's shader and in the
+ * export's filters alike.
+ */
+export interface ColorGrade {
+  /** Stops; each one doubles or halves the light. */
+  exposure: number;
+  contrast: number;
+  /** -1 is greyscale. */
+  saturation: number;
+  /** Positive warms, negative cools. */
+  temperature: number;
+  vignette: number;
+  /** A LUT from the library. */
+  lut?: string;
+}
+
+export type ColorAdjustment = Exclude<keyof ColorGrade, "lut">;
+
+export type ColorLook = "warm" | "cool" | "cinema" | "vivid" | "faded" | "mono";
+
+/** A LUT in the library; its `.cube` file is served by `/api/luts/<id>`. */
+export interface LutRecord {
+  id: string;
+  name: string;
+  /** Points per axis of the cube. */
+  size: number;
+  createdAt: number;
+}
+
+export interface CubeLut {
+  title?: string;
+  size: number;
+  /** RGB triples with red changing fastest, then green, then blue, as `.cube` files list them. */
+  data: Float32Array;
+}
+
+export const NEUTRAL_GRADE: ColorGrade = { exposure: 0, contrast: 0, saturation: 0, temperature: 0, vignette: 0 };
+
+export const COLOR_ADJUSTMENTS: { value: ColorAdjustment; label: string; min: number; max: number; step: number }[] = [
+  { value: "exposure", label: "Exposição", min: -2, max: 2, step: 0.05 },
+  { value: "contrast", label: "Contraste", min: -1, max: 1, step: 0.05 },
+  { value: "saturation", label: "Saturação", min: -1, max: 1, step: 0.05 },
+  { value: "temperature", label: "Temperatura", min: -1, max: 1, step: 0.05 },
+  { value: "vignette", label: "Vinheta", min: 0, max: 1, step: 0.05 }
+];
+
+const look = (adjustments: Partial<ColorGrade>): ColorGrade => ({ ...NEUTRAL_GRADE, ...adjustments });
+
+/** Looks set the adjustments only; a LUT chosen alongside stays. */
+export const COLOR_LOOKS: { value: ColorLook; label: string; grade: ColorGrade }[] = [
+  { value: "warm", label: "Quente", grade: look({ temperature: 0.5, saturation: 0.1 }) },
+  { value: "cool", label: "Frio", grade: look({ temperature: -0.5, saturation: -0.05 }) },
+  { value: "cinema", label: "Cinema", grade: look({ contrast: 0.2, saturation: -0.15, temperature: 0.15, vignette: 0.35 }) },
+  { value: "vivid", label: "Vívido", grade: look({ contrast: 0.15, saturation: 0.35 }) },
+  { value: "faded", label: "Desbotado", grade: look({ exposure: 0.15, contrast: -0.25, saturation: -0.3 }) },
+  { value: "mono", label: "Preto e branco", grade: look({ contrast: 0.15, saturation: -1 }) }
+];
+
+export const MAX_LUT_SIZE = 65;
+
+/** Rec. 709 luma weights, which saturation mixes each channel against. */
+export const LUMA_WEIGHTS = [0.2126, 0.7152, 0.0722] as const;
+
+// Share of the light a full temperature shift moves between the red and blue channels.
+const TEMPERATURE_RANGE = 0.1;
+const LUT_ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+export const isNeutralGrade = (grade?: ColorGrade) =>
+  !grade || (!grade.lut && COLOR_ADJUSTMENTS.every(({ value }) => grade[value] === 0));
+
+export const findColorLook = (grade: ColorGrade) =>
+  COLOR_LOOKS.find((entry) => COLOR_ADJUSTMENTS.every(({ value }) => Math.abs(entry.grade[value] - grade[value]) < 0.001))
+    ?.value ?? null;
+
+/** Red, green and blue gains of the exposure and temperature. */
+export function getChannelGains({ exposure, temperature }: ColorGrade) {
+  const gain = 2 ** exposure;
+  return [gain * (1 + TEMPERATURE_RANGE * temperature), gain, gain * (1 - TEMPERATURE_RANGE * temperature)] as const;
+}
+
+/** ffmpeg's vignette angle; its falloff is cos(angle × distance)⁴, the distance running 0–1 from centre to corner. */
+export const getVignetteAngle = (vignette: number) => (vignette * Math.PI) / 2;
+
+/** Validates an untrusted grade; returns null when any adjustment is missing or out of range. */
+export const parseColorGrade = (value: unknown): ColorGrade | null => {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const grade = { ...NEUTRAL_GRADE };
+  for (const { value: key, min, max } of COLOR_ADJUSTMENTS) {
+    const amount = record[key];
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < min || amount > max) return null;
+    grade[key] = amount;
+  }
+  if (record.lut !== undefined && (typeof record.lut !== "string" || !LUT_ID_PATTERN.test(record.lut))) return null;
+  return record.lut === undefined ? grade : { ...grade, lut: record.lut };
+};
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * ffmpeg filters applying a grade; `lutFile` is the LUT's path, already escaped for a filter argument.
+ * Neutral steps are left out, so an ungraded clip adds nothing to the graph.
+ */
+export function buildGradeFilters(grade: ColorGrade, lutFile?: string) {
+  const filters: string[] = [];
+  const [red, green, blue] = getChannelGains(grade);
+  const contrast = 1 + grade.contrast;
+  if (red !== 1 || green !== 1 || blue !== 1 || contrast !== 1) {
+    const curve = (gain: number) => `clip((val/maxval*${round(gain)}-0.5)*${round(contrast)}+0.5,0,1)*maxval`;
+    filters.push(`lutrgb=r='${curve(red)}':g='${curve(green)}':b='${curve(blue)}'`);
+  }
+  if (grade.saturation) {
+    // Each channel moves away from (or towards) the pixel's luma: out = luma + (in - luma) × amount.
+    const amount = 1 + grade.saturation;
+    const row = (channel: number) =>
+      LUMA_WEIGHTS.map((weight, index) => round(weight * (1 - amount) + (index === channel ? amount : 0)));
+    const [rr, rg, rb] = row(0);
+    const [gr, gg, gb] = row(1);
+    const [br, bg, bb] = row(2);
+    filters.push(`colorchannelmixer=rr=${rr}:rg=${rg}:rb=${rb}:gr=${gr}:gg=${gg}:gb=${gb}:br=${br}:bg=${bg}:bb=${bb}`);
+  }
+  if (lutFile) {
+    filters.push(`lut3d=file='${lutFile}':interp=trilinear`);
+  }
+  if (grade.vignette) {
+    filters.push(`vignette=angle=${round(getVignetteAngle(grade.vignette))}`);
+  }
+  return filters;
+}
+
+/** Reads a `.cube` 3D LUT; throws with a message for the user when the file is not one this editor can apply. */
+export function parseCubeLut(text: string): CubeLut {
+  let title: string | undefined;
+  let size = 0;
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (keyword === "TITLE") {
+      title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, "$1");
+    } else if (keyword === "LUT_3D_SIZE") {
+      size = Number(rest[0]);
+    } else if (keyword === "LUT_1D_SIZE") {
+      throw new Error("LUTs 1D não são suportadas; use uma LUT 3D");
+    } else if (keyword === "DOMAIN_MIN" || keyword === "DOMAIN_MAX" || keyword === "LUT_3D_INPUT_RANGE") {
+      const expected = keyword === "DOMAIN_MIN" ? [0, 0, 0] : keyword === "DOMAIN_MAX" ? [1, 1, 1] : [0, 1];
+      if (rest.length !== expected.length || rest.some((entry, index) => Number(entry) !== expected[index])) {
+        throw new Error("Apenas LUTs com domínio de 0 a 1 são suportadas");
+      }
+    } else {
+      const triple = line.split(/\s+/).map(Number);
+      if (triple.length !== 3 || triple.some((entry) => !Number.isFinite(entry))) {
+        throw new Error(`Linha inválida na LUT: ${line.slice(0, 40)}`);
+      }
+      values.push(...triple);
+    }
+  }
+
+  if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+    throw new Error(`A LUT precisa declarar LUT_3D_SIZE entre 2 e ${MAX_LUT_SIZE}`);
+  }
+  if (values.length !== size ** 3 * 3) {
+    throw new Error("A LUT não tem o número de entradas declarado");
+  }
+  return { title, size, data: Float32Array.from(values) };
+}
+
+/** Writes a LUT back out as a `.cube` file, its name in the title. */
+export function formatCubeLut({ size, data }: CubeLut, title: string) {
+  const lines = [`TITLE "${title.replace(/"/g, "'")}"`, `LUT_3D_SIZE ${size}`];
+  for (let index = 0; index < data.length; index += 3) {
+    lines.push(`${data[index].toFixed(6)} ${data[index + 1].toFixed(6)} ${data[index + 2].toFixed(6)}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,144 @@
+import { LUMA_WEIGHTS, getChannelGains, getVignetteAngle, type ColorGrade, type CubeLut } from "@/lib/colorGrade";
+
+export interface ColorGrader {
+  /** Grades `source` in place; a LUT that has not loaded yet is skipped. */
+  apply(source: HTMLCanvasElement, grade: ColorGrade, lut: CubeLut | null): void;
+}
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = (a_position + 1.0) / 2.0;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// The same steps as buildGradeFilters, on the same 0–1 values and with the same clamping.
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D u_source;
+uniform sampler3D u_lut;
+uniform bool u_useLut;
+uniform float u_lutSize;
+uniform vec3 u_gains;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_vignette;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 outColor;
+const vec3 LUMA = vec3(${LUMA_WEIGHTS.join(", ")});
+void main() {
+  vec3 color = texture(u_source, v_uv).rgb;
+  color = clamp((color * u_gains - 0.5) * u_contrast + 0.5, 0.0, 1.0);
+  color = clamp(mix(vec3(dot(color, LUMA)), color, u_saturation), 0.0, 1.0);
+  if (u_useLut) {
+    color = texture(u_lut, color * ((u_lutSize - 1.0) / u_lutSize) + 0.5 / u_lutSize).rgb;
+  }
+  float radius = length((v_uv - 0.5) * u_resolution) / length(u_resolution * 0.5);
+  float falloff = cos(u_vignette * radius);
+  outColor = vec4(color * falloff * falloff * falloff * falloff, 1.0);
+}`;
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  return gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? shader : null;
+};
+
+/**
+ * Grades preview frames on the GPU with one full-frame pass. Returns null where WebGL 2 is unavailable,
+ * and the preview then shows clips ungraded. LUTs are uploaded once as 3D textures and sampled with
+ * trilinear filtering, like ffmpeg's lut3d.
+ */
+export function createColorGrader(): ColorGrader | null {
+  const canvas = document.createElement("canvas");
+  const gl = canvas.getContext("webgl2", { premultipliedAlpha: false, preserveDrawingBuffer: true });
+  if (!gl) return null;
+
+  const vertexShader = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragmentShader = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertexShader || !fragmentShader || !program) return null;
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) return null;
+  gl.useProgram(program);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, "a_position");
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  gl.uniform1i(uniform("u_source"), 0);
+  gl.uniform1i(uniform("u_lut"), 1);
+
+  const sourceTexture = gl.createTexture();
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  // Canvases are stored top row first; flipping keeps v_uv's origin at the bottom-left, as GL draws.
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+
+  const lutTextures = new WeakMap<CubeLut, WebGLTexture>();
+  const getLutTexture = (lut: CubeLut) => {
+    const cached = lutTextures.get(lut);
+    if (cached) return cached;
+    const texture = gl.createTexture();
+    if (!texture) return null;
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_3D, texture);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+    // The cube's order (red fastest, then green, then blue) is the texture's x, y, z order. WebGL refuses
+    // flipped uploads of 3D data, and the table has no rows to flip anyway.
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, lut.data);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    lutTextures.set(lut, texture);
+    return texture;
+  };
+
+  return {
+    apply(source, grade, lut) {
+      const { width, height } = source;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      gl.viewport(0, 0, width, height);
+
+      const lutTexture = lut ? getLutTexture(lut) : null;
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_3D, lutTexture);
+      gl.uniform1i(uniform("u_useLut"), lutTexture ? 1 : 0);
+      gl.uniform1f(uniform("u_lutSize"), lut?.size ?? 2);
+
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+      gl.uniform3fv(uniform("u_gains"), [...getChannelGains(grade)]);
+      gl.uniform1f(uniform("u_contrast"), 1 + grade.contrast);
+      gl.uniform1f(uniform("u_saturation"), 1 + grade.saturation);
+      gl.uniform1f(uniform("u_vignette"), getVignetteAngle(grade.vignette));
+      gl.uniform2f(uniform("u_resolution"), width, height);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+      const context = source.getContext("2d");
+      context?.drawImage(canvas, 0, 0);
+    }
+  };
+}
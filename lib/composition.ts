@@ -0,0 +1,212 @@
+import { parseColorGrade, type ColorGrade } from "@/lib/colorGrade";
+
+export type MediaType = "image" | "video" | "audio";
+
+export type TransitionStyle = "corte" | "fade" | "zoom" | "slide" | "flash" | "glitch";
+
+export type TransitionEasing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+export type CaptionMode = "none" | "burn" | "attach";
+
+/**
+ * A crop of the clip's frame in normalised coordinates (0–1 from the top-left). Crops keep the output aspect,
+ * so `width` and `height` are always the same fraction of the frame.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Ken Burns motion for a still: the visible crop moves from `start` to `end` over the clip's slot. */
+export interface ClipMotion {
+  start: CropRect;
+  end: CropRect;
+  easing: TransitionEasing;
+}
+
+/** What a video clip shows once its trimmed material runs out before the end of its slot. */
+export type ClipFill = "freeze" | "loop";
+
+/**
+ * How a clip whose shape differs from the project's canvas fills it: letterboxed, letterboxed over a
+ * blurred copy of itself, or cropped to cover the canvas around its focal point.
+ */
+export type ClipFraming = "fit" | "fill" | "crop";
+
+/** A point of the source picture, normalised from the top-left, that a crop keeps as close to centre as it can. */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface MediaAsset {
+  id: string;
+  type: MediaType;
+  name: string;
+  url: string;
+  thumbnail: string;
+  poster?: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface TimelineItem {
+  id: string;
+  assetId: string;
+  duration: number;
+  transition: TransitionStyle;
+  transitionDuration?: number;
+  easing?: TransitionEasing;
+  /** Source seconds where a video clip starts and stops; default to the whole file. */
+  inPoint?: number;
+  outPoint?: number;
+  /** Playback rate at the in point; with `endSpeed` it ramps linearly to that rate at the out point. */
+  speed?: number;
+  endSpeed?: number;
+  /** Without a fill the slot may not outlast the trimmed material. */
+  fill?: ClipFill;
+  /** Images only. */
+  motion?: ClipMotion;
+  /** Defaults to fit, centred. */
+  framing?: ClipFraming;
+  focus?: FocalPoint;
+  /** Applied to the framed picture, before the programme's own grade. */
+  grade?: ColorGrade;
+}
+
+export const TRANSITIONS: TransitionStyle[] = ["corte", "fade", "zoom", "slide", "flash", "glitch"];
+
+export const TRANSITION_EASINGS: TransitionEasing[] = ["linear", "ease-in", "ease-out", "ease-in-out"];
+
+export const isTransitionStyle = (value: unknown): value is TransitionStyle =>
+  typeof value === "string" && (TRANSITIONS as string[]).includes(value);
+
+export const isTransitionEasing = (value: unknown): value is TransitionEasing =>
+  typeof value === "string" && (TRANSITION_EASINGS as string[]).includes(value);
+
+export const CLIP_FILLS: { value: ClipFill; label: string }[] = [
+  { value: "freeze", label: "Congelar" },
+  { value: "loop", label: "Repetir" }
+];
+
+export const CLIP_FRAMINGS: { value: ClipFraming; label: string }[] = [
+  { value: "fit", label: "Encaixar" },
+  { value: "fill", label: "Preencher com desfoque" },
+  { value: "crop", label: "Recortar" }
+];
+
+export const CENTER_FOCUS: FocalPoint = { x: 0.5, y: 0.5 };
+
+export const MIN_CLIP_SPEED = 0.25;
+export const MAX_CLIP_SPEED = 4;
+
+const isSpeed = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= MIN_CLIP_SPEED && value <= MAX_CLIP_SPEED;
+
+/** The tightest crop a motion may zoom to, i.e. a 4× magnification. */
+export const MIN_CROP_SIZE = 0.25;
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+
+const parseCropRect = (value: unknown): CropRect | null => {
+  if (!value || typeof value !== "object") return null;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  if (![x, y, width, height].every(isFraction)) return null;
+  const rect = { x, y, width, height } as CropRect;
+  if (rect.width < MIN_CROP_SIZE || Math.abs(rect.width - rect.height) > 0.001) return null;
+  if (rect.x + rect.width > 1.001 || rect.y + rect.height > 1.001) return null;
+  return rect;
+};
+
+export const parseClipMotion = (value: unknown): ClipMotion | null => {
+  if (!value || typeof value !== "object") return null;
+  const { start, end, easing } = value as Record<string, unknown>;
+  const startRect = parseCropRect(start);
+  const endRect = parseCropRect(end);
+  if (!startRect || !endRect || !isTransitionEasing(easing)) return null;
+  return { start: startRect, end: endRect, easing };
+};
+
+const isSeconds = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+export const MAX_TIMELINE_ITEMS = 200;
+
+/** Validates an untrusted timeline payload; returns null when any clip is malformed. */
+export const parseTimeline = (value: unknown): TimelineItem[] | null => {
+  if (!Array.isArray(value) || value.length > MAX_TIMELINE_ITEMS) return null;
+  const items: TimelineItem[] = [];
+  for (const entry of value) {
+    const {
+      id,
+      assetId,
+      duration,
+      transition,
+      transitionDuration,
+      easing,
+      inPoint,
+      outPoint,
+      speed,
+      endSpeed,
+      fill,
+      motion,
+      framing,
+      focus,
+      grade
+    } = entry ?? {};
+    if (typeof id !== "string" || typeof assetId !== "string") return null;
+    if (typeof duration !== "number" || !Number.isFinite(duration) || duration <= 0) return null;
+    if (!isTransitionStyle(transition)) return null;
+    if (transitionDuration !== undefined && (typeof transitionDuration !== "number" || transitionDuration < 0)) return null;
+    if (easing !== undefined && !isTransitionEasing(easing)) return null;
+    if (inPoint !== undefined && !isSeconds(inPoint)) return null;
+    if (outPoint !== undefined && (!isSeconds(outPoint) || outPoint <= (inPoint ?? 0))) return null;
+    if ((speed !== undefined && !isSpeed(speed)) || (endSpeed !== undefined && !isSpeed(endSpeed))) return null;
+    if (fill !== undefined && !CLIP_FILLS.some((option) => option.value === fill)) return null;
+    const parsedMotion = motion === undefined ? undefined : parseClipMotion(motion);
+    if (parsedMotion === null) return null;
+    if (framing !== undefined && !CLIP_FRAMINGS.some((option) => option.value === framing)) return null;
+    if (focus !== undefined && (!focus || typeof focus !== "object" || !isFraction(focus.x) || !isFraction(focus.y))) return null;
+    const parsedGrade = grade === undefined ? undefined : parseColorGrade(grade);
+    if (parsedGrade === null) return null;
+    items.push({
+      id,
+      assetId,
+      duration,
+      transition,
+      transitionDuration,
+      easing,
+      inPoint,
+      outPoint,
+      speed,
+      endSpeed,
+      fill,
+      motion: parsedMotion,
+      framing,
+      focus: focus === undefined ? undefined : { x: focus.x, y: focus.y },
+      grade: parsedGrade
+    });
+  }
+  return items;
+};
+
+export const getClipStart = (timeline: TimelineItem[], index: number) =>
+  timeline.slice(0, index).reduce((acc, clip) => acc + clip.duration, 0);
+
+/** Index of the clip on screen at `time`, or -1 past the end of the timeline. */
+export const getClipIndexAt = (timeline: TimelineItem[], time: number) => {
+  let end = 0;
+  return timeline.findIndex((clip) => (end += clip.duration) > time);
+};
+
+export const CAPTION_MODES: { value: CaptionMode; label: string }[] = [
+  { value: "none", label: "Sem legendas" },
+  { value: "burn", label: "Gravadas no vídeo" },
+  { value: "attach", label: "Faixa anexada" }
+];
+
+export const isCaptionMode = (value: unknown): value is CaptionMode =>
+  CAPTION_MODES.some((mode) => mode.value === value);
@@ -0,0 +1,92 @@
+import { parseScript, type ParsedScript, type ScriptDefaults, type ScriptPosition } from "@/lib/scriptMarkup";
+import { findVoice } from "@/lib/voices";
+
+export interface DialogueOptions {
+  cast: Record<string, string>;
+  gap: number;
+}
+
+export interface DialogueLine extends ScriptPosition {
+  speaker: string | null;
+  /** Where the speaker's name starts on the line. */
+  speakerColumn: number;
+  text: string;
+}
+
+export interface ScriptInput extends ScriptDefaults {
+  text: string;
+  dialogue?: DialogueOptions;
+}
+
+export const DEFAULT_DIALOGUE_GAP = 0.6;
+export const MAX_DIALOGUE_GAP = 5;
+
+const SPEAKER_PATTERN = /^(\s*)([A-ZÀ-Ý][A-ZÀ-Ý0-9 ._-]{0,31}):\s*/;
+
+/**
+ * Splits a script into the lines of each speaker. Continuation lines, blank ones included, stay in the
+ * speaker's text: parseScript then locates errors on the original lines and turns blank lines into
+ * paragraph pauses, as it does outside dialogue mode.
+ */
+export function splitDialogue(text: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+
+  text.split("\n").forEach((rawLine, index) => {
+    const match = rawLine.match(SPEAKER_PATTERN);
+    if (match) {
+      lines.push({
+        speaker: match[2].trim(),
+        speakerColumn: match[1].length + 1,
+        text: rawLine.slice(match[0].length),
+        line: index + 1,
+        column: match[0].length + 1
+      });
+      return;
+    }
+
+    const previous = lines[lines.length - 1];
+    if (previous) {
+      previous.text = `${previous.text}\n${rawLine}`;
+      return;
+    }
+    if (rawLine.trim()) {
+      lines.push({ speaker: null, speakerColumn: 1, text: rawLine, line: index + 1, column: 1 });
+    }
+  });
+
+  return lines;
+}
+
+export const extractSpeakers = (text: string) =>
+  Array.from(new Set(splitDialogue(text).flatMap((line) => (line.speaker ? [line.speaker] : []))));
+
+export function parseDialogue(text: string, defaults: ScriptDefaults, { cast, gap }: DialogueOptions): ParsedScript {
+  const result: ParsedScript = { segments: [], errors: [] };
+  const reported = new Set<string>();
+
+  splitDialogue(text).forEach((line, index) => {
+    const castVoice = line.speaker ? cast[line.speaker] : undefined;
+    const voiceId = castVoice ? findVoice(castVoice)?.id : defaults.voiceId;
+    if (!voiceId && line.speaker && !reported.has(line.speaker)) {
+      // Reported once, on the speaker's first line; the rest of their lines are still checked below.
+      reported.add(line.speaker);
+      result.errors.push({
+        line: line.line,
+        column: line.speakerColumn,
+        message: `Voz desconhecida no elenco para ${line.speaker}: "${castVoice}"`
+      });
+    }
+    const parsed = parseScript(line.text, { ...defaults, voiceId: voiceId ?? defaults.voiceId }, line);
+
+    if (index > 0 && gap > 0) {
+      result.segments.push({ type: "pause", duration: gap, line: line.line, column: 1 });
+    }
+    result.segments.push(...parsed.segments);
+    result.errors.push(...parsed.errors);
+  });
+
+  return result;
+}
+
+export const parseSynthesisScript = ({ text, dialogue, ...defaults }: ScriptInput) =>
+  dialogue ? parseDialogue(text, defaults, dialogue) : parseScript(text, defaults);
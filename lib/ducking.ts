@@ -0,0 +1,84 @@
+import type { SentenceTiming } from "@/lib/alignment";
+import type { DuckingSettings } from "@/lib/audioTracks";
+
+export interface SpeechInterval {
+  start: number;
+  end: number;
+}
+
+export interface DuckingPoint {
+  time: number;
+  gain: number;
+}
+
+// Zero-length ramps would click and divide by zero in the ffmpeg expression.
+const MIN_RAMP = 0.05;
+
+const ramps = ({ attack, release }: DuckingSettings) => ({
+  attack: Math.max(MIN_RAMP, attack),
+  release: Math.max(MIN_RAMP, release)
+});
+
+const toFixed = (value: number) => Number(value.toFixed(3));
+
+export const getDuckedGain = ({ depth }: DuckingSettings) => 10 ** (-depth / 20);
+
+/**
+ * Turns placed narration sentences into the spans the music ducks under. Sentences whose envelopes would
+ * touch are merged, so the bed stays down through short pauses instead of pumping between sentences.
+ */
+export function getSpeechIntervals(sentences: SentenceTiming[], settings: DuckingSettings): SpeechInterval[] {
+  const { attack, release } = ramps(settings);
+  const intervals: SpeechInterval[] = [];
+
+  for (const { start, end } of [...sentences].sort((a, b) => a.start - b.start)) {
+    if (end <= start) continue;
+    const previous = intervals[intervals.length - 1];
+    if (previous && start - attack <= previous.end + release) {
+      previous.end = Math.max(previous.end, end);
+    } else {
+      intervals.push({ start, end });
+    }
+  }
+  return intervals;
+}
+
+/**
+ * The music gain as a piecewise-linear envelope: it ramps down over `attack` seconds so it is already
+ * ducked when a sentence starts (the narration timings are known in advance), holds, and ramps back up
+ * over `release` seconds. The preview schedules these points on a GainNode.
+ */
+export function getDuckingEnvelope(intervals: SpeechInterval[], settings: DuckingSettings): DuckingPoint[] {
+  const { attack, release } = ramps(settings);
+  const ducked = getDuckedGain(settings);
+  return intervals.flatMap(({ start, end }) => [
+    { time: start - attack, gain: 1 },
+    { time: start, gain: ducked },
+    { time: end, gain: ducked },
+    { time: end + release, gain: 1 }
+  ]);
+}
+
+export function getEnvelopeGain(points: DuckingPoint[], time: number) {
+  const nextIndex = points.findIndex((point) => point.time > time);
+  if (nextIndex === -1) return points[points.length - 1]?.gain ?? 1;
+  if (nextIndex === 0) return points[0].gain;
+  const previous = points[nextIndex - 1];
+  const next = points[nextIndex];
+  return previous.gain + ((next.gain - previous.gain) * (time - previous.time)) / (next.time - previous.time);
+}
+
+/**
+ * The same envelope as an ffmpeg `volume` expression (evaluated per frame). Each interval contributes a
+ * trapezoid — the minimum of its rising and falling ramps — and merged intervals never overlap, so summing
+ * them gives the ducking amount at `t`.
+ */
+export function buildDuckingExpression(intervals: SpeechInterval[], settings: DuckingSettings) {
+  const { attack, release } = ramps(settings);
+  const reduction = toFixed(1 - getDuckedGain(settings));
+  const trapezoids = intervals.map(
+    ({ start, end }) =>
+      `min(clip((t-(${toFixed(start - attack)}))/${toFixed(attack)},0,1),clip((${toFixed(end + release)}-t)/${toFixed(release)},0,1))`
+  );
+  return trapezoids.length ? `1-${reduction}*(${trapezoids.join("+")})` : "1";
+}
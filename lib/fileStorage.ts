@@ -0,0 +1,30 @@
+import { readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { v4 as uuid } from "uuid";
+
+/** Root for everything the server persists; each store keeps its own subdirectory. */
+export const resolveDataDirectory = (...segments: string[]) =>
+  path.join(process.env.AURORA_DATA_DIR ?? path.join(process.cwd(), ".aurora-data"), ...segments);
+
+/**
+ * Writes through a temporary file so readers never observe a half-written entry. Each write gets its own
+ * temporary name, so concurrent writes to one path each publish a whole file and the last rename wins.
+ */
+export async function writeAtomic(filePath: string, data: string | Buffer | Readable) {
+  const temporaryPath = `${filePath}.${uuid()}.tmp`;
+  try {
+    await writeFile(temporaryPath, data);
+    await rename(temporaryPath, filePath);
+  } catch (error) {
+    await rm(temporaryPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function readOptional(filePath: string) {
+  return readFile(filePath).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  });
+}
@@ -0,0 +1,80 @@
+import { CENTER_FOCUS, type FocalPoint, type TimelineItem } from "@/lib/composition";
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** A rectangle in the frame's pixels. */
+export interface FrameRect extends Size {
+  x: number;
+  y: number;
+}
+
+// Blur radius of a fill background, as a fraction of the frame's shorter side; boxblur runs it twice.
+const FILL_BLUR = 1 / 40;
+const FILL_BLUR_PASSES = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/** The whole source, scaled to fit inside the frame and centred. */
+export function getContainRect(source: Size, frame: Size): FrameRect {
+  const scale = Math.min(frame.width / source.width, frame.height / source.height);
+  const width = source.width * scale;
+  const height = source.height * scale;
+  return { x: (frame.width - width) / 2, y: (frame.height - height) / 2, width, height };
+}
+
+/** The source scaled to cover the frame, shifted to bring `focus` towards the centre without leaving a gap. */
+export function getCoverRect(source: Size, frame: Size, focus: FocalPoint = CENTER_FOCUS): FrameRect {
+  const scale = Math.max(frame.width / source.width, frame.height / source.height);
+  const width = source.width * scale;
+  const height = source.height * scale;
+  return {
+    x: clamp(frame.width / 2 - focus.x * width, frame.width - width, 0),
+    y: clamp(frame.height / 2 - focus.y * height, frame.height - height, 0),
+    width,
+    height
+  };
+}
+
+/** Standard deviation, in frame pixels, of the blur behind a fill clip; matches the export's repeated box blur. */
+export function getFillBlur(frame: Size) {
+  const radius = Math.round(Math.min(frame.width, frame.height) * FILL_BLUR);
+  return radius * Math.sqrt(FILL_BLUR_PASSES / 3);
+}
+
+/**
+ * ffmpeg filter chains that frame the stream at `input` into a `width`×`height` picture at `[label]`, as
+ * getContainRect and getCoverRect place it for the preview. Fill splits the stream to lay the fitted
+ * picture over a blurred cover of itself.
+ */
+export function buildFramingFilters(
+  input: string,
+  label: string,
+  { framing = "fit", focus = CENTER_FOCUS }: Pick<TimelineItem, "framing" | "focus">,
+  width: number,
+  height: number
+) {
+  const fit = [
+    `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black`
+  ];
+  const cover = [
+    `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+    `crop=${width}:${height}:'min(max(iw*${round(focus.x)}-ow/2,0),iw-ow)':'min(max(ih*${round(focus.y)}-oh/2,0),ih-oh)'`
+  ];
+
+  if (framing === "crop") return [`${input}${[...cover, "setsar=1"].join(",")}[${label}]`];
+  if (framing === "fit") return [`${input}${[...fit, "setsar=1"].join(",")}[${label}]`];
+
+  const radius = Math.round(Math.min(width, height) * FILL_BLUR);
+  return [
+    `${input}split[${label}fg][${label}bg]`,
+    `[${label}bg]${[...cover, `boxblur=${radius}:${FILL_BLUR_PASSES}`].join(",")}[${label}blur]`,
+    `[${label}fg]scale=${width}:${height}:force_original_aspect_ratio=decrease[${label}fit]`,
+    `[${label}blur][${label}fit]overlay=(W-w)/2:(H-h)/2,setsar=1[${label}]`
+  ];
+}
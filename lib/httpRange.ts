@@ -0,0 +1,40 @@
+export interface ByteRange {
+  /** Inclusive byte offsets, as in the Range header. */
+  start: number;
+  end: number;
+}
+
+export interface EntityInfo {
+  size: number;
+  modifiedAt: number;
+}
+
+/**
+ * Parses a single `bytes=` range. Multi-range requests return null so the caller falls back to a full
+ * 200 response, which RFC 9110 allows and which every media player handles.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (!suffix) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || end < start) return "unsatisfiable";
+  return { start, end };
+}
+
+export const createEtag = (variant: string, { size, modifiedAt }: EntityInfo) =>
+  `"${variant}-${size.toString(16)}-${Math.floor(modifiedAt).toString(16)}"`;
+
+export const matchesEtag = (header: string | null, etag: string) =>
+  (header ?? "").split(",").some((candidate) => {
+    const value = candidate.trim();
+    return value === "*" || value.replace(/^W\//, "") === etag;
+  });
@@ -0,0 +1,239 @@
+import { createReadStream } from "fs";
+import { mkdir, readdir, rm, stat } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import type { SentenceTiming } from "@/lib/alignment";
+import { AUDIO_FORMATS, getAudioFormat, type AudioFormat } from "@/lib/audioFormats";
+import { readOptional as readFileOptional, resolveDataDirectory, writeAtomic as writeFileAtomic } from "@/lib/fileStorage";
+import type { ByteRange, EntityInfo } from "@/lib/httpRange";
+import type { MasteringReport } from "@/lib/mastering";
+import type { RenderedChunk, SynthesisRequest } from "@/lib/ttsEngine";
+
+export type SynthesisJobStatus = "queued" | "processing" | "completed" | "failed" | "cancelled";
+
+export const SYNTHESIS_JOB_STATUSES: SynthesisJobStatus[] = ["queued", "processing", "completed", "failed", "cancelled"];
+
+export interface ChunkFailure {
+  index: number;
+  line: number;
+  message: string;
+}
+
+export interface SynthesisJob {
+  id: string;
+  status: SynthesisJobStatus;
+  progress: number;
+  error?: string;
+  duration?: number;
+  chunksTotal?: number;
+  chunksDone?: number;
+  chunkFailures?: ChunkFailure[];
+  loudness?: MasteringReport;
+  request: SynthesisRequest;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobStore {
+  save(job: SynthesisJob): Promise<void>;
+  get(jobId: string): Promise<SynthesisJob | undefined>;
+  list(): Promise<SynthesisJob[]>;
+  remove(jobId: string): Promise<void>;
+  /** Streams are written to disk as they are read (the file store), so a large master is never buffered. */
+  saveAudio(jobId: string, format: AudioFormat, audio: Buffer | Readable): Promise<void>;
+  getAudio(jobId: string, format: AudioFormat): Promise<Buffer | undefined>;
+  statAudio(jobId: string, format: AudioFormat): Promise<EntityInfo | undefined>;
+  openAudio(jobId: string, format: AudioFormat, range?: ByteRange): Promise<Readable | undefined>;
+  saveChunk(jobId: string, index: number, chunk: RenderedChunk): Promise<void>;
+  getChunk(jobId: string, index: number): Promise<RenderedChunk | undefined>;
+  removeChunks(jobId: string): Promise<void>;
+  saveAlignment(jobId: string, sentences: SentenceTiming[]): Promise<void>;
+  getAlignment(jobId: string): Promise<SentenceTiming[] | undefined>;
+}
+
+const JOB_ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+const JOB_FILE_PATTERN = /^([a-zA-Z0-9-]+)\.json$/;
+
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, SynthesisJob>();
+  const audio = new Map<string, Map<AudioFormat, { data: Buffer; modifiedAt: number }>>();
+  const chunks = new Map<string, Map<number, RenderedChunk>>();
+  const alignments = new Map<string, SentenceTiming[]>();
+
+  return {
+    async save(job) {
+      jobs.set(job.id, { ...job });
+    },
+    async get(jobId) {
+      const job = jobs.get(jobId);
+      return job ? { ...job } : undefined;
+    },
+    async list() {
+      return Array.from(jobs.values()).map((job) => ({ ...job }));
+    },
+    async remove(jobId) {
+      jobs.delete(jobId);
+      audio.delete(jobId);
+      chunks.delete(jobId);
+      alignments.delete(jobId);
+    },
+    async saveAudio(jobId, format, source) {
+      const data = Buffer.isBuffer(source) ? source : Buffer.concat(await source.toArray());
+      const stored = audio.get(jobId) ?? new Map<AudioFormat, { data: Buffer; modifiedAt: number }>();
+      stored.set(format, { data, modifiedAt: Date.now() });
+      audio.set(jobId, stored);
+    },
+    async getAudio(jobId, format) {
+      return audio.get(jobId)?.get(format)?.data;
+    },
+    async statAudio(jobId, format) {
+      const entry = audio.get(jobId)?.get(format);
+      return entry ? { size: entry.data.length, modifiedAt: entry.modifiedAt } : undefined;
+    },
+    async openAudio(jobId, format, range) {
+      const entry = audio.get(jobId)?.get(format);
+      if (!entry) return undefined;
+      return Readable.from([range ? entry.data.subarray(range.start, range.end + 1) : entry.data]);
+    },
+    async saveChunk(jobId, index, chunk) {
+      const stored = chunks.get(jobId) ?? new Map<number, RenderedChunk>();
+      stored.set(index, chunk);
+      chunks.set(jobId, stored);
+    },
+    async getChunk(jobId, index) {
+      return chunks.get(jobId)?.get(index);
+    },
+    async removeChunks(jobId) {
+      chunks.delete(jobId);
+    },
+    async saveAlignment(jobId, sentences) {
+      alignments.set(jobId, sentences);
+    },
+    async getAlignment(jobId) {
+      return alignments.get(jobId);
+    }
+  };
+}
+
+export function createFileJobStore(directory: string): JobStore {
+  const ready = mkdir(directory, { recursive: true });
+
+  const resolvePath = (jobId: string, extension: string) => {
+    if (!JOB_ID_PATTERN.test(jobId)) {
+      throw new Error("Identificador de job inválido");
+    }
+    return path.join(directory, `${jobId}.${extension}`);
+  };
+
+  const writeAtomic = async (filePath: string, data: string | Buffer | Readable) => {
+    await ready;
+    await writeFileAtomic(filePath, data);
+  };
+
+  const readOptional = async (filePath: string) => {
+    await ready;
+    return readFileOptional(filePath);
+  };
+
+  const removeChunks = async (jobId: string) => {
+    await ready;
+    const prefix = `${jobId}.chunk-`;
+    const entries = await readdir(directory);
+    await Promise.all(
+      entries.filter((entry) => entry.startsWith(prefix)).map((entry) => rm(path.join(directory, entry), { force: true }))
+    );
+  };
+
+  const get = async (jobId: string) => {
+    if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+    const data = await readOptional(resolvePath(jobId, "json"));
+    return data ? (JSON.parse(data.toString("utf8")) as SynthesisJob) : undefined;
+  };
+
+  return {
+    get,
+    removeChunks,
+    async save(job) {
+      await writeAtomic(resolvePath(job.id, "json"), JSON.stringify(job));
+    },
+    async list() {
+      await ready;
+      const entries = await readdir(directory);
+      const jobs = await Promise.all(
+        entries.flatMap((entry) => {
+          const match = entry.match(JOB_FILE_PATTERN);
+          return match ? [get(match[1])] : [];
+        })
+      );
+      return jobs.filter((job): job is SynthesisJob => Boolean(job));
+    },
+    async remove(jobId) {
+      await Promise.all([
+        rm(resolvePath(jobId, "json"), { force: true }),
+        ...AUDIO_FORMATS.map((format) => rm(resolvePath(jobId, format.extension), { force: true })),
+        rm(resolvePath(jobId, "alignment.json"), { force: true }),
+        removeChunks(jobId)
+      ]);
+    },
+    async saveAudio(jobId, format, audio) {
+      await writeAtomic(resolvePath(jobId, getAudioFormat(format).extension), audio);
+    },
+    async getAudio(jobId, format) {
+      if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+      return readOptional(resolvePath(jobId, getAudioFormat(format).extension));
+    },
+    async statAudio(jobId, format) {
+      if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+      await ready;
+      const info = await stat(resolvePath(jobId, getAudioFormat(format).extension)).catch(() => undefined);
+      return info ? { size: info.size, modifiedAt: info.mtimeMs } : undefined;
+    },
+    async openAudio(jobId, format, range) {
+      if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+      const filePath = resolvePath(jobId, getAudioFormat(format).extension);
+      if (!(await stat(filePath).catch(() => undefined))) return undefined;
+      return createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+    },
+    async saveChunk(jobId, index, chunk) {
+      await writeAtomic(resolvePath(jobId, `chunk-${index}.timing`), JSON.stringify(chunk.sentences));
+      await writeAtomic(resolvePath(jobId, `chunk-${index}.wav`), chunk.wav);
+    },
+    async getChunk(jobId, index) {
+      if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+      const [wav, timing] = await Promise.all([
+        readOptional(resolvePath(jobId, `chunk-${index}.wav`)),
+        readOptional(resolvePath(jobId, `chunk-${index}.timing`))
+      ]);
+      if (!wav || !timing) return undefined;
+      return { wav, sentences: JSON.parse(timing.toString("utf8")) as SentenceTiming[] };
+    },
+    async saveAlignment(jobId, sentences) {
+      await writeAtomic(resolvePath(jobId, "alignment.json"), JSON.stringify(sentences));
+    },
+    async getAlignment(jobId) {
+      if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+      const data = await readOptional(resolvePath(jobId, "alignment.json"));
+      return data ? (JSON.parse(data.toString("utf8")) as SentenceTiming[]) : undefined;
+    }
+  };
+}
+
+export function createJobStoreFromEnv(): JobStore {
+  if (process.env.AURORA_JOB_STORE === "memory") {
+    return createMemoryJobStore();
+  }
+  return createFileJobStore(resolveDataDirectory("tts"));
+}
+
+/** Removes finished jobs idle for longer than the TTL, except the `retained` ones (narrations saved projects use). */
+export async function purgeExpiredJobs(store: JobStore, ttlMs: number, retained: ReadonlySet<string> = new Set(), now = Date.now()) {
+  const jobs = await store.list();
+  const expired = jobs.filter(
+    (job) =>
+      (job.status === "completed" || job.status === "failed" || job.status === "cancelled") &&
+      now - job.updatedAt > ttlMs &&
+      !retained.has(job.id)
+  );
+  await Promise.all(expired.map((job) => store.remove(job.id)));
+  return expired.length;
+}
@@ -0,0 +1,87 @@
+import { mkdir, readdir, rm } from "fs/promises";
+import path from "path";
+import { v4 as uuid } from "uuid";
+import { formatCubeLut, parseCubeLut, type LutRecord } from "@/lib/colorGrade";
+import { readOptional, resolveDataDirectory, writeAtomic } from "@/lib/fileStorage";
+
+/** `.cube` files list every point as text, so a 65-point cube runs to about 8 MB. */
+export const MAX_LUT_BYTES = 16 * 1024 * 1024;
+const MAX_NAME_LENGTH = 120;
+
+interface LutLibraryState {
+  directory: string;
+  ready: Promise<unknown>;
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+const RECORD_FILE_PATTERN = /^([a-zA-Z0-9-]+)\.json$/;
+
+const globalState = globalThis as typeof globalThis & { __auroraLutLibrary?: LutLibraryState };
+
+const state: LutLibraryState = (globalState.__auroraLutLibrary ??= (() => {
+  const directory = resolveDataDirectory("luts");
+  return { directory, ready: mkdir(directory, { recursive: true }) };
+})());
+
+const resolvePath = (lutId: string, extension: "json" | "cube") => {
+  if (!ID_PATTERN.test(lutId)) {
+    throw new Error("Identificador de LUT inválido");
+  }
+  return path.join(state.directory, `${lutId}.${extension}`);
+};
+
+export async function getLut(lutId: string) {
+  if (!ID_PATTERN.test(lutId)) return undefined;
+  await state.ready;
+  const data = await readOptional(resolvePath(lutId, "json"));
+  return data ? (JSON.parse(data.toString("utf8")) as LutRecord) : undefined;
+}
+
+/**
+ * Validates a `.cube` file and adds it to the library, rewritten in a normalised form whose title carries
+ * the LUT's name, so a project archive can restore it from the file alone. A LUT that is already stored
+ * under `lutId` (an archive imported on the server that exported it) is kept as it is.
+ */
+export async function importLut(name: string, text: string, lutId = uuid()) {
+  const existing = await getLut(lutId);
+  if (existing) return existing;
+
+  const lut = parseCubeLut(text);
+  const record: LutRecord = {
+    id: lutId,
+    name: (name.trim() || lut.title || "LUT").slice(0, MAX_NAME_LENGTH),
+    size: lut.size,
+    createdAt: Date.now()
+  };
+  await state.ready;
+  await writeAtomic(resolvePath(lutId, "cube"), formatCubeLut(lut, record.name));
+  await writeAtomic(resolvePath(lutId, "json"), JSON.stringify(record));
+  return record;
+}
+
+/** Removes the record before the file, so a LUT is never listed without its data. */
+export async function deleteLut(lutId: string) {
+  await state.ready;
+  await rm(resolvePath(lutId, "json"), { force: true });
+  await rm(resolvePath(lutId, "cube"), { force: true });
+}
+
+export async function listLuts() {
+  await state.ready;
+  const entries = await readdir(state.directory);
+  const records = await Promise.all(
+    entries.flatMap((entry) => {
+      const match = entry.match(RECORD_FILE_PATTERN);
+      return match ? [getLut(match[1])] : [];
+    })
+  );
+  return records.filter((record): record is LutRecord => Boolean(record)).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function readLutFile(lutId: string) {
+  if (!ID_PATTERN.test(lutId)) return undefined;
+  await state.ready;
+  return readOptional(resolvePath(lutId, "cube"));
+}
+
+export const getLutPath = (lutId: string) => resolvePath(lutId, "cube");
@@ -0,0 +1,155 @@
+export type LoudnessTarget = "podcast" | "broadcast" | "streaming";
+
+export interface LoudnessProfile {
+  id: LoudnessTarget;
+  label: string;
+  description: string;
+  integrated: number;
+  truePeak: number;
+  range: number;
+}
+
+export interface MasteringOptions {
+  target: LoudnessTarget | "off";
+  deEss: boolean;
+  trimSilence: boolean;
+}
+
+export interface LoudnessMeasurement {
+  integrated: number;
+  truePeak: number;
+  range: number;
+  threshold: number;
+  offset: number;
+}
+
+export interface MasteringReport {
+  target: LoudnessTarget;
+  targetIntegrated: number;
+  inputIntegrated: number;
+  integrated: number;
+  truePeak: number;
+  range: number;
+  trimmed: number;
+}
+
+export const LOUDNESS_PROFILES: LoudnessProfile[] = [
+  {
+    id: "podcast",
+    label: "Podcast",
+    description: "-16 LUFS · pico -1 dBTP",
+    integrated: -16,
+    truePeak: -1,
+    range: 11
+  },
+  {
+    id: "broadcast",
+    label: "Broadcast (EBU R128)",
+    description: "-23 LUFS · pico -1 dBTP",
+    integrated: -23,
+    truePeak: -1,
+    range: 15
+  },
+  {
+    id: "streaming",
+    label: "Streaming",
+    description: "-14 LUFS · pico -1 dBTP",
+    integrated: -14,
+    truePeak: -1,
+    range: 11
+  }
+];
+
+export const DEFAULT_MASTERING: MasteringOptions = { target: "podcast", deEss: false, trimSilence: true };
+
+/** Leading/trailing silence below this level is trimmed, keeping a short pad so the first syllable is not clipped. */
+export const SILENCE_THRESHOLD_DB = -50;
+export const SILENCE_PADDING_SECONDS = 0.15;
+
+export const getLoudnessProfile = (target: LoudnessTarget) => LOUDNESS_PROFILES.find((profile) => profile.id === target);
+
+export const isLoudnessTarget = (value: unknown): value is LoudnessTarget =>
+  LOUDNESS_PROFILES.some((profile) => profile.id === value);
+
+export const parseMasteringOptions = (value: unknown): MasteringOptions | null => {
+  if (!value || typeof value !== "object") return null;
+  const { target, deEss, trimSilence } = value as Record<string, unknown>;
+  if (target !== "off" && !isLoudnessTarget(target)) return null;
+  if (typeof deEss !== "boolean" || typeof trimSilence !== "boolean") return null;
+  return { target, deEss, trimSilence };
+};
+
+const loudnorm = (profile: LoudnessProfile) =>
+  `loudnorm=I=${profile.integrated}:TP=${profile.truePeak}:LRA=${profile.range}`;
+
+/** Filters applied before measurement, so the analysis pass sees the same signal the encode pass normalises. */
+export const buildPreFilters = (options: MasteringOptions) => (options.deEss ? ["deesser=i=0.4:m=0.5:f=0.5:s=o"] : []);
+
+export function buildMeasureFilters(options: MasteringOptions) {
+  const profile = options.target === "off" ? undefined : getLoudnessProfile(options.target);
+  if (!profile) return [];
+  return [...buildPreFilters(options), `${loudnorm(profile)}:print_format=json`];
+}
+
+/**
+ * Second loudnorm pass: feeding back the first-pass measurement lets the filter apply a single linear gain
+ * (falling back to its dynamic mode only when the true-peak ceiling cannot be met otherwise).
+ */
+export function buildMasteringFilters(options: MasteringOptions, measurement: LoudnessMeasurement, sampleRate: number) {
+  const profile = options.target === "off" ? undefined : getLoudnessProfile(options.target);
+  if (!profile) return buildPreFilters(options);
+  return [
+    ...buildPreFilters(options),
+    [
+      loudnorm(profile),
+      `measured_I=${measurement.integrated}`,
+      `measured_TP=${measurement.truePeak}`,
+      `measured_LRA=${measurement.range}`,
+      `measured_thresh=${measurement.threshold}`,
+      `offset=${measurement.offset}`,
+      "linear=true",
+      "print_format=json"
+    ].join(":"),
+    // loudnorm upsamples to 192 kHz internally; bring the stream back to the synthesis rate.
+    `aresample=${sampleRate}`
+  ];
+}
+
+export interface LoudnormStats {
+  input: LoudnessMeasurement;
+  output: Omit<LoudnessMeasurement, "offset">;
+}
+
+const toNumber = (value: unknown) => {
+  const parsed = Number(value);
+  // Digital silence is reported as "-inf"; clamp so the value survives JSON serialisation.
+  return Number.isFinite(parsed) ? parsed : -99;
+};
+
+/** Extracts the JSON block loudnorm prints to stderr at the end of a pass. */
+export function parseLoudnormOutput(stderr: string): LoudnormStats | null {
+  const start = stderr.lastIndexOf("{");
+  const end = stderr.lastIndexOf("}");
+  if (start === -1 || end < start) return null;
+
+  try {
+    const data = JSON.parse(stderr.slice(start, end + 1)) as Record<string, string>;
+    return {
+      input: {
+        integrated: toNumber(data.input_i),
+        truePeak: toNumber(data.input_tp),
+        range: toNumber(data.input_lra),
+        threshold: toNumber(data.input_thresh),
+        offset: toNumber(data.target_offset)
+      },
+      output: {
+        integrated: toNumber(data.output_i),
+        truePeak: toNumber(data.output_tp),
+        range: toNumber(data.output_lra),
+        threshold: toNumber(data.output_thresh)
+      }
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+import type { MediaAsset, MediaType } from "@/lib/composition";
+
+export interface MediaRecord {
+  id: string;
+  type: MediaType;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Display dimensions, already swapped for sources recorded with a 90° rotation; zero for audio. */
+  width: number;
+  height: number;
+  rotation: number;
+  codec: string;
+  duration?: number;
+  hasAudio: boolean;
+  createdAt: number;
+}
+
+export interface MediaUpload {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  offset: number;
+  createdAt: number;
+}
+
+export const MEDIA_IMAGE_VARIANTS = ["thumbnail", "poster"] as const;
+
+export type MediaImageVariant = (typeof MEDIA_IMAGE_VARIANTS)[number];
+
+export const isMediaImageVariant = (value: string): value is MediaImageVariant =>
+  (MEDIA_IMAGE_VARIANTS as readonly string[]).includes(value);
+
+export const MEDIA_MIME_TYPES: Record<string, MediaType> = {
+  "image/png": "image",
+  "image/jpeg": "image",
+  "image/webp": "image",
+  "video/mp4": "video",
+  "video/webm": "video",
+  "video/quicktime": "video",
+  "audio/mpeg": "audio",
+  "audio/wav": "audio",
+  "audio/x-wav": "audio",
+  "audio/ogg": "audio",
+  "audio/flac": "audio",
+  "audio/aac": "audio",
+  "audio/mp4": "audio"
+};
+
+export const MEDIA_ACCEPT = Object.keys(MEDIA_MIME_TYPES).join(",");
+
+/** Upload chunk size used by the composer; the server accepts any size up to MAX_UPLOAD_CHUNK_BYTES. */
+export const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+export const MAX_UPLOAD_CHUNK_BYTES = 16 * 1024 * 1024;
+
+export const getMediaType = (mimeType: string): MediaType | undefined => MEDIA_MIME_TYPES[mimeType];
+
+export const getMediaFileUrl = (assetId: string) => `/api/media/${assetId}/file`;
+
+export const getMediaImageUrl = (assetId: string, variant: MediaImageVariant) => `/api/media/${assetId}/${variant}`;
+
+export const toMediaAsset = (record: MediaRecord): MediaAsset => ({
+  id: record.id,
+  type: record.type,
+  name: record.name,
+  url: getMediaFileUrl(record.id),
+  thumbnail: getMediaImageUrl(record.id, "thumbnail"),
+  poster: record.type === "video" ? getMediaImageUrl(record.id, "poster") : undefined,
+  duration: record.duration,
+  width: record.width,
+  height: record.height
+});
@@ -0,0 +1,159 @@
+import type { Readable } from "stream";
+import { v4 as uuid } from "uuid";
+import type { ByteRange } from "@/lib/httpRange";
+import { getMediaType, MAX_UPLOAD_CHUNK_BYTES, type MediaRecord, type MediaUpload } from "@/lib/media";
+import { probeMedia, renderMediaImage, renderWaveform } from "@/lib/mediaProbe";
+import { createMediaStoreFromEnv, type MediaFileVariant, type MediaStore } from "@/lib/mediaStore";
+
+export const MAX_MEDIA_BYTES = Number(process.env.AURORA_MAX_MEDIA_MB ?? 2048) * 1024 * 1024;
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 255;
+
+export interface MediaUploadRequest {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export type MediaChunkResult =
+  | { status: "partial"; upload: MediaUpload }
+  | { status: "conflict"; upload: MediaUpload }
+  | { status: "complete"; asset: MediaRecord };
+
+interface MediaLibraryState {
+  store: MediaStore;
+  pendingWrites: Map<string, Promise<unknown>>;
+}
+
+const globalState = globalThis as typeof globalThis & { __auroraMediaLibrary?: MediaLibraryState };
+
+const state: MediaLibraryState = (globalState.__auroraMediaLibrary ??= {
+  store: createMediaStoreFromEnv(),
+  pendingWrites: new Map<string, Promise<unknown>>()
+});
+
+/** Chunks for the same upload are appended strictly in order, even when a client retries in parallel. */
+function withUploadLock<T>(uploadId: string, task: () => Promise<T>) {
+  const previous = state.pendingWrites.get(uploadId) ?? Promise.resolve();
+  const next = previous.then(task);
+  const settled = next.catch(() => undefined);
+  state.pendingWrites.set(uploadId, settled);
+  void settled.then(() => {
+    if (state.pendingWrites.get(uploadId) === settled) {
+      state.pendingWrites.delete(uploadId);
+    }
+  });
+  return next;
+}
+
+export const parseMediaUploadRequest = (value: unknown): MediaUploadRequest | null => {
+  if (!value || typeof value !== "object") return null;
+  const { name, mimeType, size } = value as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim() || typeof mimeType !== "string" || !getMediaType(mimeType)) return null;
+  if (typeof size !== "number" || !Number.isInteger(size) || size <= 0) return null;
+  return { name: name.trim().slice(0, MAX_NAME_LENGTH), mimeType, size };
+};
+
+export const isWithinMediaLimit = (size: number) => size <= MAX_MEDIA_BYTES;
+
+async function purgeStaleUploads(now = Date.now()) {
+  const uploads = await state.store.listUploads();
+  await Promise.all(
+    uploads.filter((upload) => now - upload.createdAt > UPLOAD_TTL_MS).map((upload) => state.store.removeUpload(upload.id))
+  );
+}
+
+export async function createMediaUpload(request: MediaUploadRequest) {
+  void purgeStaleUploads().catch((error) => console.error(error));
+  const upload: MediaUpload = { id: uuid(), ...request, offset: 0, createdAt: Date.now() };
+  await state.store.saveUpload(upload);
+  return upload;
+}
+
+export const getMediaUpload = (uploadId: string) => state.store.getUpload(uploadId);
+
+export const cancelMediaUpload = (uploadId: string) =>
+  withUploadLock(uploadId, () => state.store.removeUpload(uploadId));
+
+/** Probes the stored source, renders its preview images and records the asset. */
+async function registerMedia(assetId: string, { name, mimeType }: Pick<MediaRecord, "name" | "mimeType">) {
+  const type = getMediaType(mimeType);
+  if (!type) {
+    throw new Error("Tipo de mídia não suportado");
+  }
+
+  try {
+    const sourcePath = state.store.resolveFile(assetId, "source");
+    const probe = await probeMedia(sourcePath, type);
+    const thumbnailPath = state.store.resolveFile(assetId, "thumbnail");
+    if (type === "audio") {
+      await renderWaveform(sourcePath, thumbnailPath);
+    } else {
+      await renderMediaImage(sourcePath, thumbnailPath, "thumbnail", probe.duration);
+    }
+    if (type === "video") {
+      await renderMediaImage(sourcePath, state.store.resolveFile(assetId, "poster"), "poster", probe.duration);
+    }
+
+    const info = await state.store.statFile(assetId, "source");
+    const record: MediaRecord = { id: assetId, type, name, mimeType, size: info?.size ?? 0, ...probe, createdAt: Date.now() };
+    await state.store.save(record);
+    return record;
+  } catch (error) {
+    await state.store.remove(assetId).catch(() => undefined);
+    console.error(error);
+    throw new Error(`Não foi possível processar "${name}". Verifique se o arquivo não está corrompido`);
+  }
+}
+
+/**
+ * Appends a chunk at the given offset. A mismatched offset is reported as a conflict carrying the server's
+ * offset, which is how clients resume after a dropped connection. The final chunk triggers processing.
+ */
+export function appendMediaChunk(uploadId: string, offset: number, data: Buffer) {
+  return withUploadLock(uploadId, async (): Promise<MediaChunkResult | undefined> => {
+    const upload = await state.store.getUpload(uploadId);
+    if (!upload) return undefined;
+    if (offset !== upload.offset) return { status: "conflict", upload };
+
+    if (data.length > MAX_UPLOAD_CHUNK_BYTES || upload.offset + data.length > upload.size) {
+      throw new Error("Bloco maior que o restante declarado para o arquivo");
+    }
+
+    const received = await state.store.appendUpload(uploadId, data);
+    if (received < upload.size) {
+      return { status: "partial", upload: { ...upload, offset: received } };
+    }
+
+    const assetId = uuid();
+    await state.store.commitUpload(uploadId, assetId);
+    return { status: "complete", asset: await registerMedia(assetId, upload) };
+  });
+}
+
+/** Adds media that arrived in one piece (e.g. from a project archive), keeping its id when it is not already stored. */
+export async function importMedia(record: Pick<MediaRecord, "id" | "name" | "mimeType">, source: Readable) {
+  const existing = await state.store.get(record.id);
+  if (existing) {
+    source.destroy();
+    return existing;
+  }
+  await state.store.writeSource(record.id, source);
+  return registerMedia(record.id, record);
+}
+
+export async function listMedia() {
+  const records = await state.store.list();
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export const getMedia = (assetId: string) => state.store.get(assetId);
+
+export const deleteMedia = (assetId: string) => state.store.remove(assetId);
+
+export const statMediaFile = (assetId: string, variant: MediaFileVariant) => state.store.statFile(assetId, variant);
+
+export const openMediaFile = (assetId: string, variant: MediaFileVariant, range?: ByteRange) =>
+  state.store.openFile(assetId, variant, range);
+
+export const getMediaSourcePath = (assetId: string) => state.store.resolveFile(assetId, "source");
@@ -0,0 +1,115 @@
+import ffmpeg from "fluent-ffmpeg";
+import type { MediaType } from "@/lib/composition";
+import type { MediaImageVariant } from "@/lib/media";
+
+export interface MediaProbe {
+  width: number;
+  height: number;
+  rotation: number;
+  codec: string;
+  duration?: number;
+  hasAudio: boolean;
+}
+
+const IMAGE_WIDTHS: Record<MediaImageVariant, number> = {
+  thumbnail: 320,
+  poster: 1280
+};
+
+const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+const toSeconds = (value: unknown) => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+/** Rotation lives in a display-matrix side data entry on recent ffmpeg builds and in the `rotate` tag on older ones. */
+const readRotation = (stream: { tags?: Record<string, string>; side_data_list?: { rotation?: number }[] }) => {
+  const matrix = stream.side_data_list?.find((entry) => typeof entry.rotation === "number")?.rotation;
+  const degrees = matrix ?? Number(stream.tags?.rotate ?? 0);
+  return Number.isFinite(degrees) ? ((Math.round(degrees) % 360) + 360) % 360 : 0;
+};
+
+export function probeMedia(filePath: string, type: MediaType) {
+  return new Promise<MediaProbe>((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (error, data) => {
+      if (error) {
+        reject(toError(error));
+        return;
+      }
+
+      const hasAudio = data.streams.some((stream) => stream.codec_type === "audio");
+      if (type === "audio") {
+        const audio = data.streams.find((stream) => stream.codec_type === "audio");
+        if (!audio) {
+          reject(new Error("Arquivo sem faixa de áudio reconhecível"));
+          return;
+        }
+        resolve({
+          width: 0,
+          height: 0,
+          rotation: 0,
+          codec: audio.codec_name ?? "desconhecido",
+          duration: toSeconds(data.format.duration) ?? toSeconds(audio.duration),
+          hasAudio
+        });
+        return;
+      }
+
+      // Cover art in audio containers shows up as a video stream, so only video types are checked for frames.
+      const video = data.streams.find((stream) => stream.codec_type === "video");
+      if (!video?.width || !video.height) {
+        reject(new Error("Arquivo de mídia sem imagem reconhecível"));
+        return;
+      }
+
+      const rotation = readRotation(video);
+      const quarterTurn = rotation === 90 || rotation === 270;
+      resolve({
+        width: quarterTurn ? video.height : video.width,
+        height: quarterTurn ? video.width : video.height,
+        rotation,
+        codec: video.codec_name ?? "desconhecido",
+        duration: type === "video" ? toSeconds(data.format.duration) ?? toSeconds(video.duration) : undefined,
+        hasAudio
+      });
+    });
+  });
+}
+
+/**
+ * Grabs a single JPEG frame scaled to the variant's width. Videos are sampled a little way in, since the
+ * first frame is often black; ffmpeg applies the source rotation while decoding.
+ */
+export function renderMediaImage(sourcePath: string, outputPath: string, variant: MediaImageVariant, duration?: number) {
+  const width = IMAGE_WIDTHS[variant];
+  const seek = duration ? Math.min(1, duration * 0.1) : 0;
+
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(sourcePath)
+      .inputOptions(seek ? [`-ss ${seek.toFixed(3)}`] : [])
+      .outputOptions(["-frames:v 1", `-vf scale='min(${width},iw)':-2`, "-q:v 3"])
+      .format("image2")
+      .on("error", (error) => reject(toError(error)))
+      .on("end", () => resolve())
+      .save(outputPath);
+  });
+}
+
+/** Audio files have no frame to grab, so their thumbnail is a waveform drawn in the composer's accent colour. */
+export function renderWaveform(sourcePath: string, outputPath: string) {
+  const { thumbnail: width } = IMAGE_WIDTHS;
+
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(sourcePath)
+      .outputOptions([
+        `-filter_complex showwavespic=s=${width}x${Math.round((width * 9) / 16)}:split_channels=0:colors=0x7c3aed`,
+        "-frames:v 1",
+        "-q:v 3"
+      ])
+      .format("image2")
+      .on("error", (error) => reject(toError(error)))
+      .on("end", () => resolve())
+      .save(outputPath);
+  });
+}
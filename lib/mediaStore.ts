@@ -0,0 +1,155 @@
+import { createReadStream } from "fs";
+import { appendFile, mkdir, readdir, rename, rm, stat } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { readOptional, resolveDataDirectory, writeAtomic } from "@/lib/fileStorage";
+import type { ByteRange, EntityInfo } from "@/lib/httpRange";
+import type { MediaImageVariant, MediaRecord, MediaUpload } from "@/lib/media";
+
+export type MediaFileVariant = "source" | MediaImageVariant;
+
+/**
+ * Unlike the job and project stores there is no in-memory variant: ffprobe and ffmpeg need real files,
+ * so uploads and assets always live on disk.
+ */
+export interface MediaStore {
+  saveUpload(upload: MediaUpload): Promise<void>;
+  getUpload(uploadId: string): Promise<MediaUpload | undefined>;
+  listUploads(): Promise<MediaUpload[]>;
+  /** Appends to the partial file and returns its new size. */
+  appendUpload(uploadId: string, data: Buffer): Promise<number>;
+  removeUpload(uploadId: string): Promise<void>;
+  /** Moves a finished upload into the asset's directory and returns the source path. */
+  commitUpload(uploadId: string, assetId: string): Promise<string>;
+  writeSource(assetId: string, source: Readable): Promise<string>;
+  save(record: MediaRecord): Promise<void>;
+  get(assetId: string): Promise<MediaRecord | undefined>;
+  list(): Promise<MediaRecord[]>;
+  remove(assetId: string): Promise<void>;
+  resolveFile(assetId: string, variant: MediaFileVariant): string;
+  statFile(assetId: string, variant: MediaFileVariant): Promise<EntityInfo | undefined>;
+  openFile(assetId: string, variant: MediaFileVariant, range?: ByteRange): Promise<Readable | undefined>;
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+const UPLOAD_FILE_PATTERN = /^([a-zA-Z0-9-]+)\.json$/;
+
+const FILE_NAMES: Record<MediaFileVariant, string> = {
+  source: "source",
+  thumbnail: "thumbnail.jpg",
+  poster: "poster.jpg"
+};
+
+/** Layout: `uploads/<id>.json` + `uploads/<id>.part` while receiving, then `assets/<id>/{asset.json,source,*.jpg}`. */
+export function createFileMediaStore(directory: string): MediaStore {
+  const uploadsDirectory = path.join(directory, "uploads");
+  const assetsDirectory = path.join(directory, "assets");
+  const ready = Promise.all([mkdir(uploadsDirectory, { recursive: true }), mkdir(assetsDirectory, { recursive: true })]);
+
+  const checkId = (id: string) => {
+    if (!ID_PATTERN.test(id)) {
+      throw new Error("Identificador de mídia inválido");
+    }
+    return id;
+  };
+
+  const uploadPath = (uploadId: string, extension: "json" | "part") =>
+    path.join(uploadsDirectory, `${checkId(uploadId)}.${extension}`);
+
+  const assetPath = (assetId: string, fileName = "") => path.join(assetsDirectory, checkId(assetId), fileName);
+
+  const resolveFile = (assetId: string, variant: MediaFileVariant) => assetPath(assetId, FILE_NAMES[variant]);
+
+  const getUpload = async (uploadId: string) => {
+    if (!ID_PATTERN.test(uploadId)) return undefined;
+    await ready;
+    const data = await readOptional(uploadPath(uploadId, "json"));
+    if (!data) return undefined;
+    // The partial file is the source of truth for the offset, so a crash between appending a chunk
+    // and rewriting the session never makes the client skip or repeat bytes.
+    const part = await stat(uploadPath(uploadId, "part")).catch(() => undefined);
+    return { ...(JSON.parse(data.toString("utf8")) as MediaUpload), offset: part?.size ?? 0 };
+  };
+
+  const get = async (assetId: string) => {
+    if (!ID_PATTERN.test(assetId)) return undefined;
+    await ready;
+    const data = await readOptional(assetPath(assetId, "asset.json"));
+    return data ? (JSON.parse(data.toString("utf8")) as MediaRecord) : undefined;
+  };
+
+  const statFile = async (assetId: string, variant: MediaFileVariant) => {
+    if (!ID_PATTERN.test(assetId)) return undefined;
+    await ready;
+    const info = await stat(resolveFile(assetId, variant)).catch(() => undefined);
+    return info ? { size: info.size, modifiedAt: info.mtimeMs } : undefined;
+  };
+
+  return {
+    getUpload,
+    get,
+    resolveFile,
+    statFile,
+    async saveUpload(upload) {
+      await ready;
+      await writeAtomic(uploadPath(upload.id, "json"), JSON.stringify(upload));
+    },
+    async listUploads() {
+      await ready;
+      const entries = await readdir(uploadsDirectory);
+      const uploads = await Promise.all(
+        entries.flatMap((entry) => {
+          const match = entry.match(UPLOAD_FILE_PATTERN);
+          return match ? [getUpload(match[1])] : [];
+        })
+      );
+      return uploads.filter((upload): upload is MediaUpload => Boolean(upload));
+    },
+    async appendUpload(uploadId, data) {
+      await ready;
+      const partPath = uploadPath(uploadId, "part");
+      await appendFile(partPath, data);
+      return (await stat(partPath)).size;
+    },
+    async removeUpload(uploadId) {
+      await Promise.all([
+        rm(uploadPath(uploadId, "json"), { force: true }),
+        rm(uploadPath(uploadId, "part"), { force: true })
+      ]);
+    },
+    async commitUpload(uploadId, assetId) {
+      await ready;
+      await mkdir(assetPath(assetId), { recursive: true });
+      const sourcePath = resolveFile(assetId, "source");
+      await rename(uploadPath(uploadId, "part"), sourcePath);
+      await rm(uploadPath(uploadId, "json"), { force: true });
+      return sourcePath;
+    },
+    async writeSource(assetId, source) {
+      await ready;
+      await mkdir(assetPath(assetId), { recursive: true });
+      const sourcePath = resolveFile(assetId, "source");
+      await writeAtomic(sourcePath, source);
+      return sourcePath;
+    },
+    async save(record) {
+      await ready;
+      await writeAtomic(assetPath(record.id, "asset.json"), JSON.stringify(record));
+    },
+    async list() {
+      await ready;
+      const entries = await readdir(assetsDirectory);
+      const records = await Promise.all(entries.filter((entry) => ID_PATTERN.test(entry)).map((entry) => get(entry)));
+      return records.filter((record): record is MediaRecord => Boolean(record));
+    },
+    async remove(assetId) {
+      await rm(assetPath(assetId), { recursive: true, force: true });
+    },
+    async openFile(assetId, variant, range) {
+      if (!(await statFile(assetId, variant))) return undefined;
+      return createReadStream(resolveFile(assetId, variant), range ? { start: range.start, end: range.end } : undefined);
+    }
+  };
+}
+
+export const createMediaStoreFromEnv = () => createFileMediaStore(resolveDataDirectory("media"));
@@ -0,0 +1,100 @@
+import { UPLOAD_CHUNK_BYTES, type MediaRecord } from "@/lib/media";
+
+interface UploadOptions {
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+interface UploadState {
+  uploadId: string;
+  offset: number;
+}
+
+const RESUME_KEY_PREFIX = "aurora:upload:";
+const MAX_ATTEMPTS = 4;
+
+/** Server answers that retrying cannot fix (bad request, expired upload, unsupported file). */
+class UploadRejected extends Error {}
+
+// Name, size and modification time identify "the same file" well enough to resume it after a reload.
+const resumeKey = (file: File) => `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function readBody(response: Response) {
+  const body = await response.json().catch(() => ({}));
+  if (response.ok || response.status === 409) return body;
+  const message = typeof body?.message === "string" ? body.message : "Falha no envio da mídia";
+  if (response.status < 500) throw new UploadRejected(message);
+  throw new Error(message);
+}
+
+async function resumeUpload(file: File): Promise<UploadState | null> {
+  const uploadId = window.localStorage.getItem(resumeKey(file));
+  if (!uploadId) return null;
+  const response = await fetch(`/api/media/uploads/${uploadId}`, { cache: "no-store" }).catch(() => null);
+  if (!response?.ok) {
+    window.localStorage.removeItem(resumeKey(file));
+    return null;
+  }
+  const body = await response.json();
+  return { uploadId, offset: body.offset };
+}
+
+async function startUpload(file: File, signal?: AbortSignal): Promise<UploadState> {
+  const response = await fetch("/api/media/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: file.name, mimeType: file.type, size: file.size }),
+    signal
+  });
+  const body = await readBody(response);
+  window.localStorage.setItem(resumeKey(file), body.uploadId);
+  return { uploadId: body.uploadId, offset: body.offset };
+}
+
+/**
+ * Sends a file to the media library in chunks. Network failures are retried from the offset the server
+ * reports, and an upload interrupted by a page reload picks up where it stopped the next time the same
+ * file is chosen. Resolves with the probed library record.
+ */
+export async function uploadMediaFile(file: File, { onProgress, signal }: UploadOptions = {}): Promise<MediaRecord> {
+  const key = resumeKey(file);
+  let { uploadId, offset } = (await resumeUpload(file)) ?? (await startUpload(file, signal));
+  let failures = 0;
+  onProgress?.(offset, file.size);
+
+  for (;;) {
+    try {
+      const response = await fetch(`/api/media/uploads/${uploadId}`, {
+        method: "PATCH",
+        headers: { "Upload-Offset": String(offset), "Content-Type": "application/offset+octet-stream" },
+        body: file.slice(offset, offset + UPLOAD_CHUNK_BYTES),
+        signal
+      });
+      const body = await readBody(response);
+
+      if (body.asset) {
+        window.localStorage.removeItem(key);
+        onProgress?.(file.size, file.size);
+        return body.asset as MediaRecord;
+      }
+
+      // A 409 carries the server's offset: an earlier attempt landed even though its response was lost.
+      offset = body.offset;
+      failures = 0;
+      onProgress?.(offset, file.size);
+    } catch (error) {
+      if (error instanceof UploadRejected) {
+        window.localStorage.removeItem(key);
+        throw error;
+      }
+      if (signal?.aborted || (failures += 1) >= MAX_ATTEMPTS) throw error;
+      await wait(1000 * failures);
+      const resumed = await resumeUpload(file);
+      if (!resumed) throw error;
+      ({ uploadId, offset } = resumed);
+    }
+  }
+}
+
@@ -0,0 +1,84 @@
+import type { ClipMotion, CropRect, TimelineItem } from "@/lib/composition";
+import { applyEasing, getEasingExpression } from "@/lib/transitions";
+
+export type MotionPreset = "zoom-in" | "zoom-out" | "pan-right" | "pan-left" | "pan-up" | "pan-down";
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const centered = (size: number): CropRect => ({ x: (1 - size) / 2, y: (1 - size) / 2, width: size, height: size });
+
+const crop = (x: number, y: number, size: number): CropRect => ({ x, y, width: size, height: size });
+
+export const KEN_BURNS_PRESETS: { value: MotionPreset; label: string; motion: ClipMotion }[] = [
+  { value: "zoom-in", label: "Aproximar", motion: { start: FULL_FRAME, end: centered(0.75), easing: "ease-in-out" } },
+  { value: "zoom-out", label: "Afastar", motion: { start: centered(0.75), end: FULL_FRAME, easing: "ease-in-out" } },
+  { value: "pan-right", label: "Para a direita", motion: { start: crop(0, 0.1, 0.8), end: crop(0.2, 0.1, 0.8), easing: "linear" } },
+  { value: "pan-left", label: "Para a esquerda", motion: { start: crop(0.2, 0.1, 0.8), end: crop(0, 0.1, 0.8), easing: "linear" } },
+  { value: "pan-up", label: "Para cima", motion: { start: crop(0.1, 0.2, 0.8), end: crop(0.1, 0, 0.8), easing: "linear" } },
+  { value: "pan-down", label: "Para baixo", motion: { start: crop(0.1, 0, 0.8), end: crop(0.1, 0.2, 0.8), easing: "linear" } }
+];
+
+// Consecutive stills alternate between zooms and pans so neighbours never repeat the same move.
+const AUTO_SEQUENCE: MotionPreset[] = ["zoom-in", "pan-right", "zoom-out", "pan-left"];
+
+/** The preset applied automatically to the still at `index` on the timeline. */
+export function getAutoMotion(index: number) {
+  const preset = AUTO_SEQUENCE[index % AUTO_SEQUENCE.length];
+  return (KEN_BURNS_PRESETS.find((entry) => entry.value === preset) ?? KEN_BURNS_PRESETS[0]).motion;
+}
+
+const sameRect = (a: CropRect, b: CropRect) =>
+  [a.x - b.x, a.y - b.y, a.width - b.width, a.height - b.height].every((delta) => Math.abs(delta) < 0.001);
+
+/** The preset a motion was made from, or null once its rectangles have been edited. */
+export const findMotionPreset = (motion: ClipMotion) =>
+  KEN_BURNS_PRESETS.find(
+    (entry) => entry.motion.easing === motion.easing && sameRect(entry.motion.start, motion.start) && sameRect(entry.motion.end, motion.end)
+  )?.value ?? null;
+
+/** How far through its move a clip is `time` seconds after it starts; the move holds its end through the next transition. */
+export const getMotionProgress = (clip: TimelineItem, time: number) =>
+  clip.duration > 0 ? Math.min(1, Math.max(0, time / clip.duration)) : 1;
+
+export function getMotionRect({ start, end, easing }: ClipMotion, progress: number): CropRect {
+  const eased = applyEasing(easing, progress);
+  const mix = (from: number, to: number) => from + (to - from) * eased;
+  return {
+    x: mix(start.x, end.x),
+    y: mix(start.y, end.y),
+    width: mix(start.width, end.width),
+    height: mix(start.height, end.height)
+  };
+}
+
+const round = (value: number) => Number(value.toFixed(6));
+
+/**
+ * ffmpeg filters that move the crop across a looped still with `zoompan`, on the same eased interpolation
+ * of the rectangles as getMotionRect. The still must already be framed at twice the output size, because
+ * zoompan positions its crop on whole pixels, which makes slow moves judder at 1×.
+ */
+export function buildMotionFilters({ start, end, easing }: ClipMotion, duration: number, fps: number, width: number, height: number) {
+  const progress = `st(0,min(on/${round(Math.max(duration, 1 / fps) * fps)},1));st(1,${getEasingExpression(easing)})`;
+  const mix = (key: keyof CropRect) => `(${round(start[key])}+(${round(end[key] - start[key])})*ld(1))`;
+  return [
+    `zoompan=z='${progress};1/${mix("width")}':x='${progress};${mix("x")}*iw':y='${progress};${mix("y")}*ih':d=1:s=${width}x${height}:fps=${fps}`
+  ];
+}
+
+const roundRect = (rect: CropRect): CropRect => {
+  const size = Number(rect.width.toFixed(4));
+  return { x: Number(rect.x.toFixed(4)), y: Number(rect.y.toFixed(4)), width: size, height: size };
+};
+
+/**
+ * Cuts a move in two at `progress`: the halves meet on the crop shown there, so the frame does not jump at
+ * the cut. Each half keeps the easing, which re-paces an eased move around the cut.
+ */
+export function splitMotion(motion: ClipMotion, progress: number): [ClipMotion, ClipMotion] {
+  const middle = roundRect(getMotionRect(motion, progress));
+  return [
+    { ...motion, end: middle },
+    { ...motion, start: middle }
+  ];
+}
@@ -0,0 +1,64 @@
+export type OutputFormat = "landscape-1080" | "landscape-4k" | "vertical" | "square" | "portrait";
+export type VideoCodec = "h264" | "h265" | "vp9";
+export type OutputQuality = "draft" | "standard" | "high";
+
+/** The project's canvas and how the export encodes it. */
+export interface OutputSettings {
+  format: OutputFormat;
+  codec: VideoCodec;
+  quality: OutputQuality;
+}
+
+export const OUTPUT_FPS = 30;
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string; description: string; width: number; height: number }[] = [
+  { value: "landscape-1080", label: "16:9 · 1080p", description: "YouTube, TV", width: 1920, height: 1080 },
+  { value: "landscape-4k", label: "16:9 · 4K", description: "YouTube, TV", width: 3840, height: 2160 },
+  { value: "vertical", label: "9:16", description: "Reels, Shorts, TikTok", width: 1080, height: 1920 },
+  { value: "square", label: "1:1", description: "Feed", width: 1080, height: 1080 },
+  { value: "portrait", label: "4:5", description: "Feed do Instagram", width: 1080, height: 1350 }
+];
+
+/** `efficiency` scales the bitrate to what the codec needs for the same picture quality as H.264. */
+export const VIDEO_CODECS: {
+  value: VideoCodec;
+  label: string;
+  extension: string;
+  mimeType: string;
+  efficiency: number;
+}[] = [
+  { value: "h264", label: "H.264 (MP4)", extension: "mp4", mimeType: "video/mp4", efficiency: 1 },
+  { value: "h265", label: "H.265 (MP4)", extension: "mp4", mimeType: "video/mp4", efficiency: 0.6 },
+  { value: "vp9", label: "VP9 (WebM)", extension: "webm", mimeType: "video/webm", efficiency: 0.65 }
+];
+
+/** Bits per pixel per frame at H.264; 0.1 gives about 6 Mb/s at 1080p30. */
+export const OUTPUT_QUALITIES: { value: OutputQuality; label: string; bitsPerPixel: number }[] = [
+  { value: "draft", label: "Rascunho", bitsPerPixel: 0.05 },
+  { value: "standard", label: "Padrão", bitsPerPixel: 0.1 },
+  { value: "high", label: "Alta", bitsPerPixel: 0.2 }
+];
+
+export const DEFAULT_OUTPUT: OutputSettings = { format: "landscape-1080", codec: "h264", quality: "standard" };
+
+export const getOutputFormat = (format: OutputFormat) =>
+  OUTPUT_FORMATS.find((entry) => entry.value === format) ?? OUTPUT_FORMATS[0];
+
+export const getVideoCodec = (codec: VideoCodec) => VIDEO_CODECS.find((entry) => entry.value === codec) ?? VIDEO_CODECS[0];
+
+/** Target video bitrate in kb/s. */
+export function getVideoBitrate({ format, codec, quality }: OutputSettings) {
+  const { width, height } = getOutputFormat(format);
+  const bitsPerPixel = OUTPUT_QUALITIES.find((entry) => entry.value === quality)?.bitsPerPixel ?? 0.1;
+  return Math.round((width * height * OUTPUT_FPS * bitsPerPixel * getVideoCodec(codec).efficiency) / 1000);
+}
+
+/** Validates untrusted output settings; returns null when any field is unknown. */
+export const parseOutputSettings = (value: unknown): OutputSettings | null => {
+  if (!value || typeof value !== "object") return null;
+  const { format, codec, quality } = value as Record<string, unknown>;
+  if (!OUTPUT_FORMATS.some((entry) => entry.value === format)) return null;
+  if (!VIDEO_CODECS.some((entry) => entry.value === codec)) return null;
+  if (!OUTPUT_QUALITIES.some((entry) => entry.value === quality)) return null;
+  return { format, codec, quality } as OutputSettings;
+};
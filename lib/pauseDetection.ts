@@ -0,0 +1,42 @@
+/** A silence inside a narration, in seconds from the start of its audio. */
+export interface PauseTiming {
+  start: number;
+  end: number;
+}
+
+/**
+ * Quieter than speech but well above the digital silence of inserted pauses, so breaths and the
+ * engines' own room tone between sentences still count as a pause.
+ */
+export const PAUSE_THRESHOLD_DB = -40;
+export const MIN_PAUSE_SECONDS = 0.25;
+
+export const buildPauseDetectFilter = () => `silencedetect=noise=${PAUSE_THRESHOLD_DB}dB:d=${MIN_PAUSE_SECONDS}`;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Pairs the `silence_start` / `silence_end` lines silencedetect prints to stderr. A silence still open when
+ * the audio ends is trailing silence rather than a pause between phrases, so it is left out.
+ */
+export function parseSilenceDetectOutput(stderr: string): PauseTiming[] {
+  const pauses: PauseTiming[] = [];
+  let start: number | null = null;
+
+  for (const line of stderr.split("\n")) {
+    const opened = /silence_start:\s*(-?[\d.]+)/.exec(line);
+    if (opened) {
+      start = Math.max(0, Number(opened[1]));
+      continue;
+    }
+    const closed = /silence_end:\s*([\d.]+)/.exec(line);
+    if (closed && start !== null) {
+      const end = Number(closed[1]);
+      if (Number.isFinite(start) && Number.isFinite(end) && end > start) {
+        pauses.push({ start: round(start), end: round(end) });
+      }
+      start = null;
+    }
+  }
+  return pauses;
+}
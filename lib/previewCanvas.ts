@@ -0,0 +1,123 @@
+import type { CropRect, TimelineItem, TransitionStyle } from "@/lib/composition";
+import { getContainRect, getCoverRect, getFillBlur, type FrameRect } from "@/lib/framing";
+import { FULL_FRAME } from "@/lib/motion";
+
+export type LayerSource = HTMLImageElement | HTMLVideoElement;
+
+// Largest pixelize block of the glitch transition, as a fraction of the frame's shorter side (xfade's pixelize).
+const MAX_PIXEL_BLOCK = 1 / 20;
+
+const getSourceSize = (source: LayerSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Paints one clip into `canvas` the way the export normalises it: framed on black by the clip's framing,
+ * then cropped to `crop` for a still's Ken Burns move. A source that has not loaded yet leaves a black frame.
+ */
+export function renderLayer(
+  canvas: HTMLCanvasElement,
+  source: LayerSource | null,
+  { framing = "fit", focus }: Pick<TimelineItem, "framing" | "focus">,
+  crop: CropRect | null
+) {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+  const { width, height } = canvas;
+  context.fillStyle = "#000";
+  context.fillRect(0, 0, width, height);
+
+  const size = source ? getSourceSize(source) : null;
+  if (!source || !size?.width || !size.height) return;
+  const frame = { width, height };
+  const rect = crop ?? FULL_FRAME;
+  const zoom = 1 / rect.width;
+  const draw = ({ x, y, width: drawWidth, height: drawHeight }: FrameRect) => context.drawImage(source, x, y, drawWidth, drawHeight);
+
+  context.save();
+  context.scale(zoom, zoom);
+  context.translate(-rect.x * width, -rect.y * height);
+  if (framing === "crop") {
+    draw(getCoverRect(size, frame, focus));
+  } else {
+    if (framing === "fill") {
+      // Filter lengths ignore the transform, so the blur grows with the zoom as the export's does.
+      context.save();
+      context.filter = `blur(${getFillBlur(frame) * zoom}px)`;
+      draw(getCoverRect(size, frame, focus));
+      context.restore();
+    }
+    draw(getContainRect(size, frame));
+  }
+  context.restore();
+}
+
+/**
+ * Composites two rendered layers into `target` as the export's xfade filters blend them, `progress` running
+ * from 0 (all outgoing) to 1 (all incoming). Glitch keeps its pixelize blend but not the colour shift and
+ * grain the export adds over it; `scratch` is a spare canvas for the pixelize pass.
+ */
+export function compositeTransition(
+  target: HTMLCanvasElement,
+  outgoing: HTMLCanvasElement,
+  incoming: HTMLCanvasElement,
+  style: TransitionStyle,
+  progress: number,
+  scratch: HTMLCanvasElement
+) {
+  const context = target.getContext("2d");
+  if (!context) return;
+  const { width, height } = target;
+
+  context.save();
+  switch (style) {
+    case "fade":
+      context.drawImage(outgoing, 0, 0);
+      context.globalAlpha = progress;
+      context.drawImage(incoming, 0, 0);
+      break;
+    case "flash":
+      // Out to white over the first half, then in from white.
+      context.drawImage(progress < 0.5 ? outgoing : incoming, 0, 0);
+      context.globalAlpha = progress < 0.5 ? 2 * progress : 2 - 2 * progress;
+      context.fillStyle = "#fff";
+      context.fillRect(0, 0, width, height);
+      break;
+    case "zoom": {
+      // xfade's zoomin: the outgoing frame zooms towards its centre over the first half and fades out over the second.
+      const zoom = Math.min(50, 1 / Math.max(0.02, smoothstep(0.5, 1, 1 - progress)));
+      context.drawImage(incoming, 0, 0);
+      context.globalAlpha = smoothstep(0, 0.5, 1 - progress);
+      context.translate(width / 2, height / 2);
+      context.scale(zoom, zoom);
+      context.drawImage(outgoing, -width / 2, -height / 2);
+      break;
+    }
+    case "slide":
+      context.drawImage(outgoing, -progress * width, 0);
+      context.drawImage(incoming, (1 - progress) * width, 0);
+      break;
+    case "glitch": {
+      const block = Math.max(1, (Math.ceil(Math.min(progress, 1 - progress) * 50) / 50) * 2 * MAX_PIXEL_BLOCK * Math.min(width, height));
+      scratch.width = Math.max(1, Math.round(width / block));
+      scratch.height = Math.max(1, Math.round(height / block));
+      const pixels = scratch.getContext("2d");
+      if (!pixels) break;
+      pixels.drawImage(outgoing, 0, 0, scratch.width, scratch.height);
+      pixels.globalAlpha = progress;
+      pixels.drawImage(incoming, 0, 0, scratch.width, scratch.height);
+      context.imageSmoothingEnabled = false;
+      context.drawImage(scratch, 0, 0, width, height);
+      break;
+    }
+    default:
+      context.drawImage(incoming, 0, 0);
+  }
+  context.restore();
+}
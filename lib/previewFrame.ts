@@ -0,0 +1,74 @@
+import { getClipWindow, getSourceOffset, getSpeedAt } from "@/lib/clipTiming";
+import { getClipIndexAt, getClipStart, type CropRect, type TimelineItem } from "@/lib/composition";
+import { getMotionProgress, getMotionRect } from "@/lib/motion";
+import { applyEasing, resolveTransition, type ResolvedTransition } from "@/lib/transitions";
+
+/** The export's frame rate; the preview seeks and steps on its frames. */
+export const PREVIEW_FPS = 30;
+
+export interface PreviewLayer {
+  clip: TimelineItem;
+  /** Seconds since the clip's slot started; past its duration while it runs on under the next transition. */
+  time: number;
+}
+
+export interface PreviewFrame {
+  /** The clip whose slot contains the time. */
+  index: number;
+  incoming: PreviewLayer;
+  /** The previous clip, while the transition into `incoming` runs. */
+  outgoing?: PreviewLayer;
+  transition: ResolvedTransition;
+  /** Eased progress of the transition; 1 once it is over. */
+  progress: number;
+}
+
+export const snapToFrame = (time: number) => Math.round(time * PREVIEW_FPS) / PREVIEW_FPS;
+
+/** `m:ss:ff`, with `ff` the frame within the second. */
+export function formatTimecode(time: number) {
+  const frames = Math.round(time * PREVIEW_FPS);
+  const seconds = Math.floor(frames / PREVIEW_FPS);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(seconds / 60)}:${pad(seconds % 60)}:${pad(frames % PREVIEW_FPS)}`;
+}
+
+/**
+ * What the export shows at `time`: the clip under the playhead and, during the transition into it, the
+ * previous clip running on past its slot, as the renderer overlaps them from the cut point.
+ */
+export function getPreviewFrame(timeline: TimelineItem[], time: number): PreviewFrame | null {
+  const index = getClipIndexAt(timeline, time);
+  if (index === -1) return null;
+
+  const clip = timeline[index];
+  const previous = timeline[index - 1];
+  const local = time - getClipStart(timeline, index);
+  const transition = resolveTransition(clip, previous);
+  const incoming = { clip, time: local };
+  if (!previous || local >= transition.duration) return { index, incoming, transition, progress: 1 };
+
+  return {
+    index,
+    incoming,
+    outgoing: { clip: previous, time: previous.duration + local },
+    transition,
+    progress: applyEasing(transition.easing, local / transition.duration)
+  };
+}
+
+/** Source seconds a video layer shows and the rate it plays at there, following the export's trim and retime. */
+export function getLayerSource({ clip, time }: PreviewLayer, sourceDuration?: number) {
+  const window = getClipWindow(clip, sourceDuration);
+  const offset = getSourceOffset(window, clip.duration, time, clip.fill);
+  return {
+    time: window.start + offset,
+    rate: getSpeedAt(window, offset),
+    // The picture stands still on a held frame, so the element is paused rather than played.
+    holding: getSourceOffset(window, clip.duration, time + 1 / PREVIEW_FPS, clip.fill) === offset
+  };
+}
+
+/** The Ken Burns crop of a still layer, or null when it has no motion. */
+export const getLayerCrop = ({ clip, time }: PreviewLayer): CropRect | null =>
+  clip.motion ? getMotionRect(clip.motion, getMotionProgress(clip, time)) : null;
@@ -0,0 +1,161 @@
+import type { AudioTrackKind } from "@/lib/audioTracks";
+import { getEnvelopeGain, type DuckingPoint } from "@/lib/ducking";
+
+export interface MixerClip {
+  url: string;
+  offset: number;
+  duration?: number;
+  volume: number;
+}
+
+export interface MixerTrack {
+  kind: AudioTrackKind;
+  volume: number;
+  muted: boolean;
+  clips: MixerClip[];
+  /** Gain automation applied after the track volume (the music bed's ducking). */
+  envelope?: DuckingPoint[];
+}
+
+export interface PreviewMixer {
+  /** Schedules every clip from `from` seconds on the timeline; resolves once the sources are decoded. */
+  play(tracks: MixerTrack[], from: number): Promise<void>;
+  /** Stops playback and returns the position it stopped at. */
+  stop(): number;
+  getTime(): number;
+  setTrackVolume(kind: AudioTrackKind, volume: number, muted: boolean): void;
+  close(): void;
+}
+
+// A little headroom so every clip starts on the same audio clock tick.
+const START_DELAY = 0.05;
+const VOLUME_SMOOTHING = 0.03;
+
+/**
+ * Mixes the composer's audio tracks in the browser. Clips are decoded once and played as scheduled buffer
+ * sources, each track feeding its own GainNode, so offsets, per-track volume and ducking sound the way the
+ * export renders them. The AudioContext clock is the preview's time base.
+ */
+export function createPreviewMixer(): PreviewMixer {
+  let context: AudioContext | null = null;
+  const buffers = new Map<string, Promise<AudioBuffer>>();
+  const trackGains = new Map<AudioTrackKind, GainNode>();
+  let sources: AudioBufferSourceNode[] = [];
+  let nodes: AudioNode[] = [];
+  let session = 0;
+  let startedAt: number | null = null;
+  let position = 0;
+
+  const getContext = () => (context ??= new AudioContext());
+
+  const load = (url: string) => {
+    let buffer = buffers.get(url);
+    if (!buffer) {
+      buffer = fetch(url)
+        .then((response) => {
+          if (!response.ok) throw new Error(`Falha ao carregar ${url}`);
+          return response.arrayBuffer();
+        })
+        .then((data) => getContext().decodeAudioData(data));
+      buffer.catch(() => buffers.delete(url));
+      buffers.set(url, buffer);
+    }
+    return buffer;
+  };
+
+  const getTime = () => (startedAt === null || !context ? position : position + Math.max(0, context.currentTime - startedAt));
+
+  const stop = () => {
+    const time = getTime();
+    session += 1;
+    sources.forEach((source) => source.stop());
+    [...sources, ...nodes].forEach((node) => node.disconnect());
+    sources = [];
+    nodes = [];
+    trackGains.clear();
+    startedAt = null;
+    position = time;
+    return time;
+  };
+
+  return {
+    getTime,
+    stop,
+    async play(tracks, from) {
+      stop();
+      // The clock reports the new position while the sources load, so a seek never shows the old one.
+      position = from;
+      const current = session;
+      const audio = getContext();
+      await audio.resume();
+
+      const decoded = await Promise.all(
+        tracks.map((track) =>
+          Promise.all(
+            track.clips.map((clip) =>
+              load(clip.url).catch((error) => {
+                console.error(error);
+                return null;
+              })
+            )
+          )
+        )
+      );
+      // A stop or another play while sources were loading supersedes this one.
+      if (current !== session) return;
+
+      const start = audio.currentTime + START_DELAY;
+      tracks.forEach((track, trackIndex) => {
+        const gain = audio.createGain();
+        gain.gain.value = track.muted ? 0 : track.volume;
+        trackGains.set(track.kind, gain);
+        nodes.push(gain);
+
+        let output: AudioNode = gain;
+        if (track.envelope?.length) {
+          const envelope = audio.createGain();
+          envelope.gain.setValueAtTime(getEnvelopeGain(track.envelope, from), start);
+          track.envelope
+            .filter((point) => point.time > from)
+            .forEach((point) => envelope.gain.linearRampToValueAtTime(point.gain, start + point.time - from));
+          gain.connect(envelope);
+          nodes.push(envelope);
+          output = envelope;
+        }
+        output.connect(audio.destination);
+
+        track.clips.forEach((clip, clipIndex) => {
+          const buffer = decoded[trackIndex][clipIndex];
+          if (!buffer) return;
+          const length = Math.min(clip.duration ?? buffer.duration, buffer.duration);
+          const skip = Math.max(0, from - clip.offset);
+          if (skip >= length) return;
+
+          const source = audio.createBufferSource();
+          source.buffer = buffer;
+          const clipGain = audio.createGain();
+          clipGain.gain.value = clip.volume;
+          source.connect(clipGain).connect(gain);
+          nodes.push(clipGain);
+          source.start(start + Math.max(0, clip.offset - from), skip, length - skip);
+          sources.push(source);
+        });
+      });
+
+      position = from;
+      startedAt = start;
+    },
+    setTrackVolume(kind, volume, muted) {
+      const gain = trackGains.get(kind);
+      if (gain && context) {
+        gain.gain.setTargetAtTime(muted ? 0 : volume, context.currentTime, VOLUME_SMOOTHING);
+      }
+    },
+    close() {
+      stop();
+      buffers.clear();
+      void context?.close();
+      context = null;
+    }
+  };
+}
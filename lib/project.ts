@@ -0,0 +1,241 @@
+import {
+  DEFAULT_DUCKING,
+  getAudioAssetIds,
+  getAudioTrack,
+  parseAudioTracks,
+  parseDucking,
+  type AudioTrack,
+  type DuckingSettings
+} from "@/lib/audioTracks";
+import { NEUTRAL_GRADE, parseColorGrade, type ColorGrade } from "@/lib/colorGrade";
+import { isCaptionMode, parseTimeline, type CaptionMode, type MediaType, type TimelineItem } from "@/lib/composition";
+import { DEFAULT_OUTPUT, parseOutputSettings, type OutputSettings } from "@/lib/outputFormat";
+import { parseTextOverlays, type TextOverlay } from "@/lib/textOverlays";
+
+/** Bump together with a new entry in PROJECT_MIGRATIONS whenever the document shape changes. */
+export const PROJECT_SCHEMA_VERSION = 7;
+
+export const PROJECT_ARCHIVE_EXTENSION = "aurora";
+
+export type ComposerMode = "simple" | "advanced";
+
+export interface ProjectAsset {
+  id: string;
+  type: MediaType;
+  name: string;
+  mimeType: string;
+  size: number;
+  duration?: number;
+}
+
+export interface ProjectDocument {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  mode: ComposerMode;
+  assets: ProjectAsset[];
+  timeline: TimelineItem[];
+  audioTracks: AudioTrack[];
+  ducking: DuckingSettings;
+  captions: CaptionMode;
+  overlays: TextOverlay[];
+  /** Keeps the clips rescaled so the picture lasts exactly as long as the narration. */
+  fitToNarration: boolean;
+  output: OutputSettings;
+  /** Graded over the whole programme, after each clip's own grade and under the text overlays. */
+  grade: ColorGrade;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  assets: number;
+  clips: number;
+  duration: number;
+}
+
+type RawDocument = Record<string, unknown>;
+
+/**
+ * Upgrades keyed by the version they migrate *from*. Each step returns the document one version up,
+ * so a file saved by any older release is walked forward until it reaches PROJECT_SCHEMA_VERSION.
+ */
+const PROJECT_MIGRATIONS: Record<number, (document: RawDocument) => RawDocument> = {
+  // v2 replaced the single linked narration with audio tracks; the narration becomes a clip at the start.
+  1: ({ narration, ...document }) => {
+    const jobId = narration && typeof narration === "object" ? (narration as RawDocument).jobId : undefined;
+    return {
+      ...document,
+      audioTracks: [
+        {
+          kind: "narration",
+          volume: 1,
+          muted: false,
+          clips: typeof jobId === "string" ? [{ id: jobId, sourceId: jobId, offset: 0, volume: 1 }] : []
+        }
+      ],
+      ducking: DEFAULT_DUCKING
+    };
+  },
+  // v3 added trim points; video clips used to freeze their last frame when the slot outlasted the file.
+  2: ({ timeline, ...document }) => {
+    const assets: RawDocument[] = Array.isArray(document.assets) ? document.assets : [];
+    const videoIds = new Set(assets.filter((asset) => asset?.type === "video").map((asset) => asset.id));
+    return {
+      ...document,
+      timeline: Array.isArray(timeline)
+        ? timeline.map((clip) => (videoIds.has(clip?.assetId) ? { fill: "freeze", ...clip } : clip))
+        : timeline
+    };
+  },
+  // v4 added the option to keep the timeline fitted to the narration; older projects were laid out by hand.
+  3: (document) => ({ ...document, fitToNarration: false }),
+  // v5 added text overlays.
+  4: (document) => ({ ...document, overlays: [] }),
+  // v6 added output formats; every earlier export was 1080p H.264.
+  5: (document) => ({ ...document, output: DEFAULT_OUTPUT }),
+  // v7 added colour grading.
+  6: (document) => ({ ...document, grade: NEUTRAL_GRADE })
+};
+
+export const MAX_PROJECT_ASSETS = 200;
+const MAX_PROJECT_NAME_LENGTH = 120;
+const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+export const isProjectId = (value: unknown): value is string => typeof value === "string" && ID_PATTERN.test(value);
+
+export function migrateProject(value: unknown): RawDocument {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Documento de projeto inválido");
+  }
+
+  let document = value as RawDocument;
+  let version = document.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("Versão do esquema do projeto ausente ou inválida");
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error("Projeto criado por uma versão mais recente do Aurora Studio");
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = PROJECT_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Nenhuma migração disponível a partir da versão ${version}`);
+    }
+    document = migrate(document);
+    version += 1;
+    document.schemaVersion = version;
+  }
+  return document;
+}
+
+const parseAsset = (value: unknown): ProjectAsset | null => {
+  if (!value || typeof value !== "object") return null;
+  const { id, type, name, mimeType, size, duration } = value as RawDocument;
+  if (!isProjectId(id) || (type !== "image" && type !== "video" && type !== "audio")) return null;
+  if (typeof name !== "string" || !name.trim()) return null;
+  if (typeof mimeType !== "string" || typeof size !== "number" || size < 0) return null;
+  if (duration !== undefined && (typeof duration !== "number" || !Number.isFinite(duration) || duration <= 0)) return null;
+  return { id, type, name: name.slice(0, 255), mimeType, size, duration };
+};
+
+/**
+ * Migrates and validates an untrusted project document. Asset metadata (`mimeType`, `size`) is
+ * optional for documents sent by the composer, since the server copies it from the media library on save.
+ */
+export function parseProjectDocument(value: unknown, { requireMedia = true } = {}): ProjectDocument {
+  const document = migrateProject(value);
+  const {
+    id,
+    name,
+    createdAt,
+    updatedAt,
+    mode,
+    assets,
+    timeline,
+    audioTracks,
+    ducking,
+    captions,
+    overlays,
+    fitToNarration,
+    output,
+    grade
+  } = document;
+
+  if (!isProjectId(id)) throw new Error("Identificador de projeto inválido");
+  if (typeof name !== "string" || !name.trim()) throw new Error("Informe um nome para o projeto");
+  if (mode !== "simple" && mode !== "advanced") throw new Error("Modo do compositor inválido");
+  if (!isCaptionMode(captions)) throw new Error("Modo de legenda inválido");
+  if (typeof fitToNarration !== "boolean") throw new Error("Ajuste à narração inválido");
+  const parsedOutput = parseOutputSettings(output);
+  if (!parsedOutput) throw new Error("Formato de saída inválido");
+  const parsedGrade = parseColorGrade(grade);
+  if (!parsedGrade) throw new Error("Correção de cor inválida");
+
+  if (!Array.isArray(assets) || assets.length > MAX_PROJECT_ASSETS) throw new Error("Lista de mídias inválida");
+  const parsedAssets: ProjectAsset[] = [];
+  for (const entry of assets) {
+    const asset = parseAsset(requireMedia ? entry : { mimeType: "", size: 0, ...(entry as RawDocument) });
+    if (!asset) throw new Error("Mídia do projeto inválida");
+    if (parsedAssets.some((existing) => existing.id === asset.id)) throw new Error("Mídia duplicada no projeto");
+    parsedAssets.push(asset);
+  }
+
+  const parsedTimeline = parseTimeline(timeline);
+  if (!parsedTimeline) throw new Error("Timeline inválida");
+  if (parsedTimeline.some((clip) => !parsedAssets.some((asset) => asset.id === clip.assetId))) {
+    throw new Error("A timeline referencia uma mídia ausente do projeto");
+  }
+
+  const parsedTracks = parseAudioTracks(audioTracks);
+  if (!parsedTracks) throw new Error("Faixas de áudio inválidas");
+  if (getAudioAssetIds(parsedTracks).some((assetId) => !parsedAssets.some((asset) => asset.id === assetId))) {
+    throw new Error("As faixas de áudio referenciam uma mídia ausente do projeto");
+  }
+  const parsedDucking = parseDucking(ducking);
+  if (!parsedDucking) throw new Error("Configuração de ducking inválida");
+  const parsedOverlays = parseTextOverlays(overlays);
+  if (!parsedOverlays) throw new Error("Textos sobrepostos inválidos");
+  const narrationClips = getAudioTrack(parsedTracks, "narration")?.clips ?? [];
+  if (narrationClips.some((clip) => !isProjectId(clip.sourceId))) throw new Error("Narração da timeline inválida");
+
+  const now = Date.now();
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    id,
+    name: name.trim().slice(0, MAX_PROJECT_NAME_LENGTH),
+    createdAt: typeof createdAt === "number" ? createdAt : now,
+    updatedAt: typeof updatedAt === "number" ? updatedAt : now,
+    mode,
+    assets: parsedAssets,
+    timeline: parsedTimeline,
+    audioTracks: parsedTracks,
+    ducking: parsedDucking,
+    captions: narrationClips.length ? captions : "none",
+    overlays: parsedOverlays,
+    fitToNarration,
+    output: parsedOutput,
+    grade: parsedGrade
+  };
+}
+
+/** LUTs the programme grade and the clips' grades use, each listed once. */
+export const getProjectLutIds = ({ timeline, grade }: Pick<ProjectDocument, "timeline" | "grade">) =>
+  Array.from(
+    new Set([grade, ...timeline.map((clip) => clip.grade)].flatMap((entry) => (entry?.lut ? [entry.lut] : [])))
+  );
+
+export const toProjectSummary = (document: ProjectDocument): ProjectSummary => ({
+  id: document.id,
+  name: document.name,
+  createdAt: document.createdAt,
+  updatedAt: document.updatedAt,
+  assets: document.assets.length,
+  clips: document.timeline.length,
+  duration: document.timeline.reduce((total, clip) => total + clip.duration, 0)
+});
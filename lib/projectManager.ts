@@ -0,0 +1,259 @@
+import { createReadStream } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { v4 as uuid } from "uuid";
+import type { SentenceTiming } from "@/lib/alignment";
+import { ArchiveError, createArchive, createBufferEntry, extractArchive, type ArchiveEntry } from "@/lib/archive";
+import { getAudioFormat, isAudioFormat, type AudioFormat } from "@/lib/audioFormats";
+import { getNarrationJobIds } from "@/lib/audioTracks";
+import { parseCubeLut } from "@/lib/colorGrade";
+import type { SynthesisJob } from "@/lib/jobStore";
+import { deleteLut, getLut, importLut, readLutFile } from "@/lib/lutLibrary";
+import { deleteMedia, getMedia, importMedia, MAX_MEDIA_BYTES, openMediaFile, statMediaFile } from "@/lib/mediaLibrary";
+import {
+  getProjectLutIds,
+  parseProjectDocument,
+  toProjectSummary,
+  type ProjectAsset,
+  type ProjectDocument
+} from "@/lib/project";
+import { getProjectStore, type ProjectStore } from "@/lib/projectStore";
+import {
+  deleteSynthesisJob,
+  getJob,
+  getNarrationSource,
+  importNarration,
+  openJobAudio
+} from "@/lib/ttsJobManager";
+
+interface ProjectManagerState {
+  store: ProjectStore;
+  pendingWrites: Map<string, Promise<unknown>>;
+}
+
+const ARCHIVE_DOCUMENT = "project.json";
+const ARCHIVE_MEDIA_PREFIX = "media/";
+const ARCHIVE_LUT_PREFIX = "luts/";
+const ARCHIVE_NARRATION_PREFIX = "narrations/";
+// An archive holds several library files, so it may never be smaller than the largest one the library accepts.
+const MAX_ARCHIVE_BYTES = Math.max(Number(process.env.AURORA_MAX_ARCHIVE_MB ?? 8192) * 1024 * 1024, MAX_MEDIA_BYTES);
+
+/** `narrations/<jobId>.json` in an archive; the audio sits next to it as `narrations/<jobId>.<extension>`. */
+interface ArchivedNarration {
+  job: SynthesisJob;
+  format: AudioFormat;
+  alignment?: SentenceTiming[];
+}
+
+const globalState = globalThis as typeof globalThis & { __auroraProjectManager?: ProjectManagerState };
+
+const state: ProjectManagerState = (globalState.__auroraProjectManager ??= {
+  store: getProjectStore(),
+  pendingWrites: new Map<string, Promise<unknown>>()
+});
+
+/** Runs writes to the same project one after another so concurrent saves and deletes apply in request order. */
+function withProjectLock<T>(projectId: string, task: () => Promise<T>) {
+  const previous = state.pendingWrites.get(projectId) ?? Promise.resolve();
+  const next = previous.then(task);
+  const settled = next.catch(() => undefined);
+  state.pendingWrites.set(projectId, settled);
+  void settled.then(() => {
+    if (state.pendingWrites.get(projectId) === settled) {
+      state.pendingWrites.delete(projectId);
+    }
+  });
+  return next;
+}
+
+/** Validates a document sent by the composer, binding it to the project id taken from the URL. */
+export const parseProjectSubmission = (body: unknown, projectId: string) =>
+  parseProjectDocument({ ...(body as object), id: projectId }, { requireMedia: false });
+
+export async function listProjects() {
+  const documents = await state.store.list();
+  return documents.map(toProjectSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export const getProject = (projectId: string) => state.store.get(projectId);
+
+/** Names of project assets that are no longer in the media library. */
+export async function findMissingMedia(document: ProjectDocument) {
+  const records = await Promise.all(document.assets.map((asset) => getMedia(asset.id)));
+  return document.assets.filter((_asset, index) => !records[index]).map((asset) => asset.name);
+}
+
+export async function findProjectsUsingMedia(assetId: string) {
+  const documents = await state.store.list();
+  return documents.filter((document) => document.assets.some((asset) => asset.id === assetId)).map(toProjectSummary);
+}
+
+/** Stores a new revision, refreshing each asset's metadata from the media library. */
+export function saveProject(document: ProjectDocument) {
+  return withProjectLock(document.id, async () => {
+    const previous = await state.store.get(document.id);
+    const assets: ProjectAsset[] = [];
+    for (const asset of document.assets) {
+      const record = await getMedia(asset.id);
+      if (!record) {
+        throw new Error(`Mídia "${asset.name}" não encontrada na biblioteca`);
+      }
+      assets.push({ ...asset, type: record.type, mimeType: record.mimeType, size: record.size, duration: record.duration });
+    }
+    for (const lutId of getProjectLutIds(document)) {
+      if (!(await getLut(lutId))) {
+        throw new Error("LUT do projeto não encontrada na biblioteca");
+      }
+    }
+
+    const now = Date.now();
+    const saved: ProjectDocument = { ...document, assets, createdAt: previous?.createdAt ?? now, updatedAt: now };
+    await state.store.save(saved);
+    return saved;
+  });
+}
+
+export const deleteProject = (projectId: string) => withProjectLock(projectId, () => state.store.remove(projectId));
+
+/**
+ * Bundles the document and every referenced media file, LUT and narration into a `.aurora` archive. Sizes
+ * are checked up front and the files are streamed from the libraries as the archive is sent.
+ */
+export async function exportProjectArchive(projectId: string) {
+  const document = await state.store.get(projectId);
+  if (!document) return undefined;
+
+  const entries: ArchiveEntry[] = [createBufferEntry(ARCHIVE_DOCUMENT, Buffer.from(JSON.stringify(document, null, 2), "utf8"))];
+  for (const asset of document.assets) {
+    const info = await statMediaFile(asset.id, "source");
+    if (!info) {
+      throw new Error(`Mídia "${asset.name}" não encontrada na biblioteca`);
+    }
+    entries.push({ name: `${ARCHIVE_MEDIA_PREFIX}${asset.id}`, size: info.size, open: () => openMediaFile(asset.id, "source") });
+  }
+  for (const lutId of getProjectLutIds(document)) {
+    const data = await readLutFile(lutId);
+    if (!data) {
+      throw new Error("LUT do projeto não encontrada na biblioteca");
+    }
+    entries.push(createBufferEntry(`${ARCHIVE_LUT_PREFIX}${lutId}.cube`, data));
+  }
+  for (const jobId of getNarrationJobIds(document.audioTracks)) {
+    const narration = await getNarrationSource(jobId);
+    if (!narration) {
+      throw new Error("Narração do projeto não encontrada");
+    }
+    const { job, format, size, alignment } = narration;
+    const manifest: ArchivedNarration = { job, format, alignment };
+    entries.push(createBufferEntry(`${ARCHIVE_NARRATION_PREFIX}${jobId}.json`, Buffer.from(JSON.stringify(manifest), "utf8")), {
+      name: `${ARCHIVE_NARRATION_PREFIX}${jobId}.${getAudioFormat(format).extension}`,
+      size,
+      open: () => openJobAudio(jobId, format)
+    });
+  }
+  return { document, archive: createArchive(entries, document.updatedAt) };
+}
+
+function parseArchivedNarration(data: Buffer, jobId: string): ArchivedNarration | undefined {
+  try {
+    const { job, format, alignment } = JSON.parse(data.toString("utf8"));
+    if (job?.id !== jobId || typeof job.request?.text !== "string" || !isAudioFormat(format)) return undefined;
+    return { job, format, alignment: Array.isArray(alignment) ? alignment : undefined };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Runs a validator on archived content, reporting what it rejects as a fault of the archive. */
+function validateArchived<T>(validate: () => T) {
+  try {
+    return validate();
+  } catch (error) {
+    throw new ArchiveError(error instanceof Error ? error.message : "Pacote de projeto inválido");
+  }
+}
+
+async function restoreProjectArchive(files: Map<string, string>) {
+  const documentPath = files.get(ARCHIVE_DOCUMENT);
+  if (!documentPath) {
+    throw new ArchiveError("Pacote sem documento de projeto");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(documentPath, "utf8"));
+  } catch {
+    throw new ArchiveError("Documento de projeto inválido");
+  }
+
+  // The whole archive is checked before anything is copied, so a bad one leaves the libraries untouched.
+  const document = validateArchived(() => parseProjectDocument({ ...(parsed as object), id: uuid() }));
+  const media = document.assets.map((asset) => {
+    const mediaPath = files.get(`${ARCHIVE_MEDIA_PREFIX}${asset.id}`);
+    if (!mediaPath) {
+      throw new ArchiveError(`Mídia "${asset.name}" ausente do pacote`);
+    }
+    return { asset, path: mediaPath };
+  });
+  const luts = [];
+  for (const lutId of getProjectLutIds(document)) {
+    const lutPath = files.get(`${ARCHIVE_LUT_PREFIX}${lutId}.cube`);
+    if (!lutPath) {
+      throw new ArchiveError("LUT do projeto ausente do pacote");
+    }
+    const text = await readFile(lutPath, "utf8");
+    validateArchived(() => parseCubeLut(text));
+    luts.push({ lutId, text });
+  }
+  const narrations = [];
+  for (const jobId of getNarrationJobIds(document.audioTracks)) {
+    const manifestPath = files.get(`${ARCHIVE_NARRATION_PREFIX}${jobId}.json`);
+    // Archives made before narrations were bundled only carry the job id.
+    if (!manifestPath) continue;
+    const manifest = parseArchivedNarration(await readFile(manifestPath), jobId);
+    const audioPath = manifest && files.get(`${ARCHIVE_NARRATION_PREFIX}${jobId}.${getAudioFormat(manifest.format).extension}`);
+    if (!manifest || !audioPath) {
+      throw new ArchiveError("Narração do projeto inválida no pacote");
+    }
+    narrations.push({ manifest, path: audioPath });
+  }
+
+  // Entries this import adds are removed again when a later step fails (a probe, the disk), so no library
+  // keeps files that no project uses. Entries that were already stored are left alone.
+  const added: (() => Promise<unknown>)[] = [];
+  try {
+    for (const { asset, path: mediaPath } of media) {
+      if (!(await getMedia(asset.id))) added.push(() => deleteMedia(asset.id));
+      await importMedia(asset, createReadStream(mediaPath));
+    }
+    for (const { lutId, text } of luts) {
+      if (!(await getLut(lutId))) added.push(() => deleteLut(lutId));
+      // The stored file's title carries the LUT's name.
+      await importLut("", text, lutId);
+    }
+    for (const { manifest, path: audioPath } of narrations) {
+      if (!(await getJob(manifest.job.id))) added.push(() => deleteSynthesisJob(manifest.job.id));
+      await importNarration(manifest.job, manifest.format, createReadStream(audioPath), manifest.alignment);
+    }
+    return await saveProject(document);
+  } catch (error) {
+    await Promise.all(added.map((remove) => remove().catch((removeError) => console.error(removeError))));
+    throw error;
+  }
+}
+
+/**
+ * Restores a `.aurora` archive as a new project. The archive is extracted to a temporary directory as it
+ * arrives, then each file is copied into its library. The document goes through the same migrations as a
+ * regular load, and a fresh id keeps an import from overwriting the project it was exported from. Media,
+ * LUTs and narrations keep their ids, so importing on the server that exported it reuses the entries already there.
+ */
+export async function importProjectArchive(source: AsyncIterable<Uint8Array>) {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "aurora-import-"));
+  try {
+    return await restoreProjectArchive(await extractArchive(source, directory, MAX_ARCHIVE_BYTES));
+  } finally {
+    await rm(directory, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
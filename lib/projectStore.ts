@@ -0,0 +1,86 @@
+import { mkdir, readdir, rm } from "fs/promises";
+import path from "path";
+import { readOptional, resolveDataDirectory, writeAtomic } from "@/lib/fileStorage";
+import { isProjectId, parseProjectDocument, type ProjectDocument } from "@/lib/project";
+
+export interface ProjectStore {
+  save(document: ProjectDocument): Promise<void>;
+  get(projectId: string): Promise<ProjectDocument | undefined>;
+  list(): Promise<ProjectDocument[]>;
+  remove(projectId: string): Promise<void>;
+}
+
+const PROJECT_FILE_PATTERN = /^([a-zA-Z0-9-]+)\.json$/;
+
+export function createMemoryProjectStore(): ProjectStore {
+  const projects = new Map<string, ProjectDocument>();
+
+  return {
+    async save(document) {
+      projects.set(document.id, structuredClone(document));
+    },
+    async get(projectId) {
+      const document = projects.get(projectId);
+      return document ? structuredClone(document) : undefined;
+    },
+    async list() {
+      return Array.from(projects.values()).map((document) => structuredClone(document));
+    },
+    async remove(projectId) {
+      projects.delete(projectId);
+    }
+  };
+}
+
+export function createFileProjectStore(directory: string): ProjectStore {
+  const ready = mkdir(directory, { recursive: true });
+
+  const resolvePath = (projectId: string) => {
+    if (!isProjectId(projectId)) {
+      throw new Error("Identificador de projeto inválido");
+    }
+    return path.join(directory, `${projectId}.json`);
+  };
+
+  const get = async (projectId: string) => {
+    if (!isProjectId(projectId)) return undefined;
+    await ready;
+    const data = await readOptional(resolvePath(projectId));
+    // Files written by older releases are migrated as they are read; the next save stores the new shape.
+    return data ? parseProjectDocument(JSON.parse(data.toString("utf8"))) : undefined;
+  };
+
+  return {
+    get,
+    async save(document) {
+      await ready;
+      await writeAtomic(resolvePath(document.id), JSON.stringify(document));
+    },
+    async list() {
+      await ready;
+      const entries = await readdir(directory);
+      const documents = await Promise.all(
+        entries.flatMap((entry) => {
+          const match = entry.match(PROJECT_FILE_PATTERN);
+          return match ? [get(match[1])] : [];
+        })
+      );
+      return documents.filter((document): document is ProjectDocument => Boolean(document));
+    },
+    async remove(projectId) {
+      await rm(resolvePath(projectId), { force: true });
+    }
+  };
+}
+
+const globalState = globalThis as typeof globalThis & { __auroraProjectStore?: ProjectStore };
+
+/** The process-wide store, shared by the project manager and the synthesis jobs' cleanup. */
+export const getProjectStore = () => (globalState.__auroraProjectStore ??= createProjectStoreFromEnv());
+
+export function createProjectStoreFromEnv(): ProjectStore {
+  if (process.env.AURORA_PROJECT_STORE === "memory") {
+    return createMemoryProjectStore();
+  }
+  return createFileProjectStore(resolveDataDirectory("projects"));
+}
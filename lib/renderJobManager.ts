@@ -0,0 +1,218 @@
+import { mkdir, readdir, rm, stat, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { v4 as uuid } from "uuid";
+import type { SentenceTiming } from "@/lib/alignment";
+import { getAudioTrack, placeNarration, type AudioTrack, type DuckingSettings } from "@/lib/audioTracks";
+import type { ColorGrade } from "@/lib/colorGrade";
+import type { CaptionMode, TimelineItem } from "@/lib/composition";
+import { getSpeechIntervals } from "@/lib/ducking";
+import { getVideoCodec, type OutputSettings, type VideoCodec } from "@/lib/outputFormat";
+import { buildCues, formatSrt } from "@/lib/subtitles";
+import type { TextOverlay } from "@/lib/textOverlays";
+import { getJobAlignment, getJobAudio } from "@/lib/ttsJobManager";
+import {
+  getTimelineDuration,
+  renderTimeline,
+  type RenderAudioTrack,
+  type RenderOptions,
+  type RenderSource
+} from "@/lib/videoRenderer";
+
+export type RenderJobStatus = "queued" | "processing" | "completed" | "failed";
+
+export interface RenderJobInput {
+  timeline: TimelineItem[];
+  /** Library files (visuals, music, SFX) are read in place; the workspace only holds narrations, captions and output. */
+  sources: RenderSource[];
+  audioTracks: AudioTrack[];
+  ducking: DuckingSettings;
+  captions?: CaptionMode;
+  overlays?: TextOverlay[];
+  output: OutputSettings;
+  grade: ColorGrade;
+  /** Library paths of the LUTs the grades use, by id. */
+  luts: Record<string, string>;
+}
+
+export interface RenderJob {
+  id: string;
+  status: RenderJobStatus;
+  progress: number;
+  error?: string;
+  duration: number;
+  /** Decides the file's container and content type. */
+  codec: VideoCodec;
+  outputPath?: string;
+  createdAt: number;
+}
+
+const RENDER_ROOT = path.join(os.tmpdir(), "aurora-render");
+const RENDER_TTL_MS = Number(process.env.AURORA_RENDER_TTL_HOURS ?? 24) * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
+
+interface RenderManagerState {
+  jobs: Map<string, RenderJob>;
+  cleanup?: NodeJS.Timeout;
+}
+
+// Kept on globalThis like the synthesis manager's state, so a dev reload neither forgets running jobs nor
+// lets the sweep below take their workspaces for orphans.
+const globalState = globalThis as typeof globalThis & { __auroraRenderManager?: RenderManagerState };
+
+const state: RenderManagerState = (globalState.__auroraRenderManager ??= { jobs: new Map<string, RenderJob>() });
+const { jobs } = state;
+
+const updateJob = (jobId: string, data: Partial<RenderJob>) => {
+  const job = jobs.get(jobId);
+  if (!job) return;
+  jobs.set(jobId, { ...job, ...data });
+};
+
+const removeWorkspace = (jobId: string) =>
+  rm(path.join(RENDER_ROOT, jobId), { recursive: true, force: true }).catch(() => undefined);
+
+/**
+ * Evicts finished jobs older than the TTL along with their output, and removes workspaces no job owns once
+ * they are as old: jobs only live in memory, so a restart leaves every earlier workspace behind. Younger
+ * ones may belong to another server process sharing the temp directory, still rendering.
+ */
+async function purgeExpiredRenders(now = Date.now()) {
+  for (const job of Array.from(jobs.values())) {
+    if ((job.status === "completed" || job.status === "failed") && now - job.createdAt > RENDER_TTL_MS) {
+      jobs.delete(job.id);
+      await removeWorkspace(job.id);
+    }
+  }
+
+  const entries = await readdir(RENDER_ROOT).catch(() => [] as string[]);
+  await Promise.all(
+    entries
+      .filter((entry) => !jobs.has(entry))
+      .map(async (entry) => {
+        const info = await stat(path.join(RENDER_ROOT, entry)).catch(() => undefined);
+        if (info && now - info.mtimeMs > RENDER_TTL_MS) await removeWorkspace(entry);
+      })
+  );
+}
+
+function ensureCleanup() {
+  if (state.cleanup) return;
+  void purgeExpiredRenders().catch((error) => console.error(error));
+  state.cleanup = setInterval(() => {
+    purgeExpiredRenders().catch((error) => console.error(error));
+  }, CLEANUP_INTERVAL_MS);
+  state.cleanup.unref?.();
+}
+
+async function processRenderJob(jobId: string, input: RenderJobInput) {
+  const workspace = path.join(RENDER_ROOT, jobId);
+  updateJob(jobId, { status: "processing", progress: 2 });
+
+  try {
+    await mkdir(workspace, { recursive: true });
+
+    const narrationTrack = getAudioTrack(input.audioTracks, "narration");
+    const narrationIds = Array.from(new Set(narrationTrack?.clips.map((clip) => clip.sourceId) ?? []));
+    const narrationPaths: Record<string, string> = {};
+    const alignments: Record<string, SentenceTiming[] | undefined> = {};
+
+    for (const narrationId of narrationIds) {
+      const narration = await getJobAudio(narrationId);
+      if (!narration) {
+        throw new Error("Narração da timeline não encontrada");
+      }
+      narrationPaths[narrationId] = path.join(workspace, `narration-${narrationId}.mp3`);
+      await writeFile(narrationPaths[narrationId], narration);
+      alignments[narrationId] = (await getJobAlignment(narrationId)) ?? undefined;
+    }
+
+    const sentences = placeNarration(narrationTrack, alignments);
+
+    let captions: RenderOptions["captions"];
+    if (narrationIds.length && input.captions && input.captions !== "none") {
+      if (narrationIds.some((narrationId) => !alignments[narrationId])) {
+        throw new Error("Marcações de tempo da narração não encontradas");
+      }
+      captions = { path: path.join(workspace, "captions.srt"), mode: input.captions };
+      await writeFile(captions.path, formatSrt(buildCues(sentences)), "utf8");
+    }
+
+    const audioTracks: RenderAudioTrack[] = input.audioTracks
+      .filter((track) => !track.muted && track.volume > 0 && track.clips.length)
+      .map((track) => ({
+        kind: track.kind,
+        volume: track.volume,
+        clips: track.clips.map((clip) => ({
+          path:
+            track.kind === "narration"
+              ? narrationPaths[clip.sourceId]
+              : input.sources.find((source) => source.id === clip.sourceId)?.path ?? "",
+          offset: clip.offset,
+          duration: clip.duration,
+          volume: clip.volume
+        }))
+      }));
+    if (audioTracks.some((track) => track.clips.some((clip) => !clip.path))) {
+      throw new Error("Áudio da timeline não enviado para renderização");
+    }
+
+    // A muted narration still drives the captions, but the music has nothing to make room for.
+    const ducking: RenderOptions["ducking"] = audioTracks.some((track) => track.kind === "narration")
+      ? { intervals: getSpeechIntervals(sentences, input.ducking), settings: input.ducking }
+      : undefined;
+
+    const outputPath = path.join(workspace, `aurora-export.${getVideoCodec(input.output.codec).extension}`);
+    updateJob(jobId, { progress: 5 });
+
+    await renderTimeline({
+      timeline: input.timeline,
+      sources: input.sources,
+      audioTracks,
+      ducking,
+      captions,
+      overlays: input.overlays,
+      output: input.output,
+      grade: input.grade,
+      luts: input.luts,
+      outputPath,
+      onProgress: (progress) => updateJob(jobId, { progress: Math.max(5, progress) })
+    });
+
+    // Only the muxed file is served; narrations, captions, loop segments and overlay text go once it exists.
+    const intermediates = (await readdir(workspace)).filter((entry) => entry !== path.basename(outputPath));
+    await Promise.all(intermediates.map((entry) => rm(path.join(workspace, entry), { recursive: true, force: true })));
+
+    updateJob(jobId, { status: "completed", progress: 100, outputPath });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Falha na renderização";
+    updateJob(jobId, { status: "failed", error: message });
+    await removeWorkspace(jobId);
+  }
+}
+
+export function createRenderJob(input: RenderJobInput) {
+  ensureCleanup();
+
+  const id = uuid();
+  jobs.set(id, {
+    id,
+    status: "queued",
+    progress: 0,
+    duration: getTimelineDuration(input.timeline),
+    codec: input.output.codec,
+    createdAt: Date.now()
+  });
+
+  void processRenderJob(id, input);
+  return id;
+}
+
+export function getRenderJob(jobId: string) {
+  return jobs.get(jobId);
+}
+
+export function getRenderOutputPath(jobId: string) {
+  const job = jobs.get(jobId);
+  return job?.status === "completed" ? job.outputPath : undefined;
+}
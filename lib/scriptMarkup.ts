@@ -0,0 +1,288 @@
+import { EMOTIONS, PITCH_RANGE, SPEED_RANGE, findVoice } from "@/lib/voices";
+
+export interface ScriptDefaults {
+  voiceId: string;
+  speed: number;
+  pitch: number;
+  emotion: string;
+}
+
+export interface ScriptPosition {
+  line: number;
+  column: number;
+}
+
+export interface SpeechSegment extends ScriptDefaults, ScriptPosition {
+  type: "speech";
+  text: string;
+  emphasis: boolean;
+}
+
+export interface PauseSegment extends ScriptPosition {
+  type: "pause";
+  duration: number;
+}
+
+export type ScriptSegment = SpeechSegment | PauseSegment;
+
+export interface ScriptError extends ScriptPosition {
+  message: string;
+}
+
+export interface ParsedScript {
+  segments: ScriptSegment[];
+  errors: ScriptError[];
+}
+
+interface ScriptState extends ScriptDefaults {
+  emphasis: boolean;
+}
+
+interface OpenTag {
+  name: string;
+  previous: ScriptState;
+  position: ScriptPosition;
+}
+
+export const DEFAULT_PAUSE_SECONDS = 1;
+export const MAX_PAUSE_SECONDS = 10;
+export const PARAGRAPH_PAUSE_SECONDS = 0.5;
+
+const PARAGRAPH_BREAK = /\n[^\S\n]*\n\s*/g;
+
+const TOKEN_PATTERN = /\[([^\]\n]*)\]|<(\/?)([a-zA-Z]+)((?:\s+[a-zA-Z-]+\s*=\s*"[^"]*")*)\s*(\/?)>|\*([^*\n]+)\*/g;
+const ATTRIBUTE_PATTERN = /([a-zA-Z-]+)\s*=\s*"([^"]*)"/g;
+const SCOPED_TAGS = ["speak", "p", "s", "emphasis", "prosody", "voice"];
+const PROSODY_RATES: Record<string, number> = { "x-slow": 0.6, slow: 0.8, medium: 1, fast: 1.25, "x-fast": 1.5 };
+const RESET_VALUES = ["padrão", "padrao", "default"];
+
+const stripAccents = (value: string) => value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+const parseNumber = (value: string) => Number(value.trim().replace(",", "."));
+
+export const parseDuration = (value: string) => {
+  const match = value.trim().match(/^(\d+(?:[.,]\d+)?)\s*(ms|s)?$/i);
+  if (!match) return null;
+  const amount = parseNumber(match[1]);
+  return match[2]?.toLowerCase() === "ms" ? amount / 1000 : amount;
+};
+
+const parseRate = (value: string) => {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed in PROSODY_RATES) return PROSODY_RATES[trimmed];
+  if (trimmed.endsWith("%")) return parseNumber(trimmed.slice(0, -1)) / 100;
+  return parseNumber(trimmed.replace(/x$/, ""));
+};
+
+const parsePitch = (value: string) => parseNumber(value.trim().replace(/st$/i, ""));
+
+const createLocator = (text: string, origin: ScriptPosition) => {
+  const lineStarts = [0];
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === "\n") lineStarts.push(index + 1);
+  }
+  return (offset: number): ScriptPosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    const column = offset - lineStarts[low] + 1;
+    return low === 0 ? { line: origin.line, column: origin.column + column - 1 } : { line: origin.line + low, column };
+  };
+};
+
+export function parseScript(
+  text: string,
+  defaults: ScriptDefaults,
+  origin: ScriptPosition = { line: 1, column: 1 }
+): ParsedScript {
+  const locate = createLocator(text, origin);
+  const segments: ScriptSegment[] = [];
+  const errors: ScriptError[] = [];
+  const stack: OpenTag[] = [];
+  let state: ScriptState = { ...defaults, emphasis: false };
+
+  const fail = (offset: number, message: string) => errors.push({ ...locate(offset), message });
+
+  const pushText = (value: string, offset: number) => {
+    let cursor = 0;
+    for (const match of value.matchAll(PARAGRAPH_BREAK)) {
+      const index = match.index ?? 0;
+      pushSpeech(value.slice(cursor, index), offset + cursor);
+      if (segments.length && segments[segments.length - 1].type === "speech") {
+        pushPause(PARAGRAPH_PAUSE_SECONDS, offset + index);
+      }
+      cursor = index + match[0].length;
+    }
+    pushSpeech(value.slice(cursor), offset + cursor);
+  };
+
+  const pushSpeech = (value: string, offset: number, emphasis = state.emphasis) => {
+    const normalised = value.replace(/\s+/g, " ");
+    if (!normalised.trim()) return;
+    const previous = segments[segments.length - 1];
+    if (
+      previous?.type === "speech" &&
+      previous.voiceId === state.voiceId &&
+      previous.speed === state.speed &&
+      previous.pitch === state.pitch &&
+      previous.emotion === state.emotion &&
+      previous.emphasis === emphasis
+    ) {
+      previous.text = `${previous.text}${normalised}`;
+      return;
+    }
+    segments.push({
+      type: "speech",
+      text: normalised,
+      voiceId: state.voiceId,
+      speed: state.speed,
+      pitch: state.pitch,
+      emotion: state.emotion,
+      emphasis,
+      ...locate(offset)
+    });
+  };
+
+  const pushPause = (duration: number, offset: number) => {
+    segments.push({ type: "pause", duration: Math.min(MAX_PAUSE_SECONDS, duration), ...locate(offset) });
+  };
+
+  const applySetting = (key: string, value: string, offset: number, next: ScriptState) => {
+    const reset = RESET_VALUES.includes(value.trim().toLowerCase());
+    switch (key) {
+      case "voz":
+      case "voice": {
+        const voice = reset ? findVoice(defaults.voiceId) : findVoice(value);
+        if (!voice) return fail(offset, `Voz desconhecida: "${value.trim()}"`);
+        next.voiceId = voice.id;
+        return;
+      }
+      case "emocao":
+      case "emotion": {
+        const emotion = reset ? defaults.emotion : value.trim().toLowerCase();
+        if (!(EMOTIONS as readonly string[]).includes(emotion)) {
+          return fail(offset, `Emoção desconhecida: "${value.trim()}"`);
+        }
+        next.emotion = emotion;
+        return;
+      }
+      case "velocidade":
+      case "rate": {
+        const speed = reset ? defaults.speed : parseRate(value);
+        if (!Number.isFinite(speed) || speed < SPEED_RANGE[0] || speed > SPEED_RANGE[1]) {
+          return fail(offset, "Velocidade deve estar entre 0.5 e 2");
+        }
+        next.speed = speed;
+        return;
+      }
+      case "tom":
+      case "pitch": {
+        const pitch = reset ? defaults.pitch : parsePitch(value);
+        if (!Number.isFinite(pitch) || pitch < PITCH_RANGE[0] || pitch > PITCH_RANGE[1]) {
+          return fail(offset, "Tom deve estar entre -10 e +10");
+        }
+        next.pitch = pitch;
+        return;
+      }
+      default:
+        fail(offset, `Diretiva desconhecida: "${key}"`);
+    }
+  };
+
+  const handleDirective = (body: string, offset: number) => {
+    const content = body.trim();
+    const [rawKey, ...rest] = content.split(/[:\s]/);
+    const key = stripAccents(rawKey.toLowerCase());
+    const value = content.slice(rawKey.length).replace(/^\s*:?\s*/, "");
+
+    if (key === "pausa" || key === "pause") {
+      const duration = value ? parseDuration(value) : DEFAULT_PAUSE_SECONDS;
+      if (duration === null) return fail(offset, `Duração de pausa inválida: "${value}"`);
+      return pushPause(duration, offset);
+    }
+
+    if (key === "enfase" || key === "/enfase") {
+      state = { ...state, emphasis: key === "enfase" };
+      return;
+    }
+
+    if (!rest.length || !value) {
+      return fail(offset, `Diretiva incompleta: "[${content}]"`);
+    }
+
+    const next = { ...state };
+    applySetting(key, value, offset, next);
+    state = next;
+  };
+
+  const handleTag = (closing: boolean, name: string, rawAttributes: string, selfClosing: boolean, offset: number) => {
+    const tag = name.toLowerCase();
+    const attributes = Object.fromEntries(
+      Array.from(rawAttributes.matchAll(ATTRIBUTE_PATTERN), (match) => [match[1].toLowerCase(), match[2]])
+    );
+
+    if (tag === "break") {
+      const duration = attributes.time ? parseDuration(attributes.time) : DEFAULT_PAUSE_SECONDS;
+      if (duration === null) return fail(offset, `Atributo time inválido: "${attributes.time}"`);
+      return pushPause(duration, offset);
+    }
+
+    if (!SCOPED_TAGS.includes(tag)) {
+      return fail(offset, `Tag SSML não suportada: <${name}>`);
+    }
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== tag) {
+        if (open) stack.push(open);
+        return fail(offset, `Fechamento inesperado: </${name}>`);
+      }
+      state = open.previous;
+      if (tag === "p" || tag === "s") pushPause(tag === "p" ? 0.8 : 0.4, offset);
+      return;
+    }
+
+    if (selfClosing) return;
+
+    stack.push({ name: tag, previous: state, position: locate(offset) });
+    const next = { ...state };
+    if (tag === "emphasis") next.emphasis = true;
+    if (tag === "voice") {
+      if (!attributes.name) return fail(offset, "Tag <voice> requer o atributo name");
+      applySetting("voice", attributes.name, offset, next);
+    }
+    if (tag === "prosody") {
+      if (attributes.rate) applySetting("rate", attributes.rate, offset, next);
+      if (attributes.pitch) applySetting("pitch", attributes.pitch, offset, next);
+    }
+    state = next;
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const offset = match.index ?? 0;
+    pushText(text.slice(cursor, offset), cursor);
+    cursor = offset + match[0].length;
+
+    if (match[1] !== undefined) {
+      handleDirective(match[1], offset);
+    } else if (match[3] !== undefined) {
+      handleTag(match[2] === "/", match[3], match[4] ?? "", match[5] === "/", offset);
+    } else if (match[6] !== undefined) {
+      pushSpeech(match[6], offset + 1, true);
+    }
+  }
+  pushText(text.slice(cursor), cursor);
+
+  for (const open of stack.reverse()) {
+    errors.push({ ...open.position, message: `Tag <${open.name}> não foi fechada` });
+  }
+
+  return { segments, errors };
+}
+
+export const formatScriptError = ({ line, column, message }: ScriptError) => `Linha ${line}, coluna ${column}: ${message}`;
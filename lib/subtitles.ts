@@ -0,0 +1,73 @@
+import type { SentenceTiming, WordTiming } from "@/lib/alignment";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ["srt", "vtt"];
+
+const MAX_CUE_CHARACTERS = 84;
+const MAX_LINE_CHARACTERS = 42;
+const MAX_CUE_SECONDS = 6;
+
+const wrapLines = (text: string) => {
+  if (text.length <= MAX_LINE_CHARACTERS) return text;
+  const middle = text.lastIndexOf(" ", Math.ceil(text.length / 2));
+  return middle > 0 ? `${text.slice(0, middle)}\n${text.slice(middle + 1)}` : text;
+};
+
+export function buildCues(sentences: SentenceTiming[]): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const sentence of sentences) {
+    let current: WordTiming[] = [];
+
+    const flush = () => {
+      if (!current.length) return;
+      const text = current.map((word) => word.text).join(" ");
+      cues.push({ start: current[0].start, end: current[current.length - 1].end, text: wrapLines(text) });
+      current = [];
+    };
+
+    for (const word of sentence.words) {
+      const length = current.reduce((acc, item) => acc + item.text.length + 1, word.text.length);
+      if (current.length && (length > MAX_CUE_CHARACTERS || word.end - current[0].start > MAX_CUE_SECONDS)) {
+        flush();
+      }
+      current.push(word);
+    }
+    flush();
+  }
+
+  return cues;
+}
+
+const formatTimestamp = (seconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const formatSrt = (cues: SubtitleCue[]) =>
+  cues
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`)
+    .join("\n");
+
+export const formatVtt = (cues: SubtitleCue[]) =>
+  `WEBVTT\n\n${cues
+    .map((cue) => `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`)
+    .join("\n")}`;
+
+export const formatSubtitles = (sentences: SentenceTiming[], format: SubtitleFormat) =>
+  format === "srt" ? formatSrt(buildCues(sentences)) : formatVtt(buildCues(sentences));
+
+export const findActiveCue = (cues: SubtitleCue[], time: number) =>
+  cues.find((cue) => time >= cue.start && time <= cue.end) ?? null;
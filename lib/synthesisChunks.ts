@@ -0,0 +1,65 @@
+import { splitSentences } from "@/lib/alignment";
+import type { ScriptSegment, SpeechSegment } from "@/lib/scriptMarkup";
+
+export interface SynthesisChunk {
+  index: number;
+  line: number;
+  characters: number;
+  segments: ScriptSegment[];
+}
+
+export const MAX_CHUNK_CHARACTERS = Number(process.env.AURORA_CHUNK_CHARACTERS ?? 1200);
+
+const splitLongText = (text: string, maxCharacters: number) => {
+  const pieces: string[] = [];
+  for (const sentence of splitSentences(text)) {
+    let remaining = sentence;
+    while (remaining.length > maxCharacters) {
+      const cut = remaining.lastIndexOf(" ", maxCharacters);
+      const index = cut > maxCharacters / 2 ? cut : maxCharacters;
+      pieces.push(remaining.slice(0, index));
+      remaining = remaining.slice(index).trimStart();
+    }
+    if (remaining.trim()) pieces.push(remaining);
+  }
+  return pieces;
+};
+
+const expandSegment = (segment: ScriptSegment, maxCharacters: number): ScriptSegment[] => {
+  if (segment.type === "pause" || segment.text.length <= maxCharacters) return [segment];
+  return splitLongText(segment.text, maxCharacters).map<SpeechSegment>((text) => ({ ...segment, text: `${text} ` }));
+};
+
+export function planChunks(segments: ScriptSegment[], maxCharacters = MAX_CHUNK_CHARACTERS): SynthesisChunk[] {
+  const chunks: SynthesisChunk[] = [];
+  let current: SynthesisChunk | null = null;
+
+  const close = () => {
+    if (current?.segments.some((segment) => segment.type === "speech")) {
+      chunks.push(current);
+    } else if (current && chunks.length) {
+      chunks[chunks.length - 1].segments.push(...current.segments);
+    }
+    current = null;
+  };
+
+  for (const segment of segments.flatMap((item) => expandSegment(item, maxCharacters))) {
+    const length = segment.type === "speech" ? segment.text.length : 0;
+
+    if (current && length && current.characters + length > maxCharacters) {
+      close();
+    }
+
+    current ??= { index: chunks.length, line: segment.line, characters: 0, segments: [] };
+    current.segments.push(segment);
+    current.characters += length;
+
+    // Explicit pauses and paragraph breaks are the preferred join points once a chunk is reasonably full.
+    if (segment.type === "pause" && current.characters >= maxCharacters * 0.6) {
+      close();
+    }
+  }
+
+  close();
+  return chunks.map((chunk, index) => ({ ...chunk, index }));
+}
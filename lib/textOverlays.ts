@@ -0,0 +1,261 @@
+export type TextOverlayKind = "title" | "lower-third" | "caption";
+export type TextAnimation = "none" | "fade" | "slide-up" | "slide-left" | "slide-right";
+export type TextAlign = "left" | "center" | "right";
+export type TextFont = "inter" | "poppins" | "serif" | "mono";
+
+export interface TextOverlay {
+  id: string;
+  kind: TextOverlayKind;
+  /** Lines are separated by newlines. */
+  text: string;
+  /** Smaller line under the text, such as the role under a lower-third's name. */
+  subtitle?: string;
+  /** Timeline seconds. */
+  start: number;
+  duration: number;
+  font: TextFont;
+  bold: boolean;
+  /** Pixels of a frame whose shorter side is REFERENCE_HEIGHT. */
+  size: number;
+  color: string;
+  /** Box behind each line, or the whole frame on title cards; no background when null. */
+  background: string | null;
+  backgroundOpacity: number;
+  /** Anchor in normalised frame coordinates: the block's vertical centre and its left edge, centre or right edge by `align`. */
+  x: number;
+  y: number;
+  align: TextAlign;
+  enter: TextAnimation;
+  exit: TextAnimation;
+  animationDuration: number;
+}
+
+export interface OverlayState {
+  opacity: number;
+  /** Offset from the anchor, in fractions of the frame. */
+  dx: number;
+  dy: number;
+}
+
+export const REFERENCE_HEIGHT = 1080;
+export const MAX_TEXT_OVERLAYS = 100;
+export const MAX_OVERLAY_TEXT = 500;
+export const MIN_TEXT_SIZE = 16;
+export const MAX_TEXT_SIZE = 240;
+export const MAX_OVERLAY_ANIMATION = 2;
+/** Line height as a multiple of the font size, shared by the preview and the export. */
+export const LINE_HEIGHT = 1.25;
+export const SUBTITLE_SCALE = 0.6;
+/** Padding of the box behind each line, as a multiple of the font size. */
+export const BOX_PADDING = 0.25;
+
+export const TEXT_OVERLAY_KINDS: { value: TextOverlayKind; label: string }[] = [
+  { value: "title", label: "Cartela de título" },
+  { value: "lower-third", label: "Terço inferior" },
+  { value: "caption", label: "Legenda" }
+];
+
+export const TEXT_ANIMATIONS: { value: TextAnimation; label: string }[] = [
+  { value: "none", label: "Nenhuma" },
+  { value: "fade", label: "Esmaecer" },
+  { value: "slide-up", label: "Subir" },
+  { value: "slide-left", label: "Para a esquerda" },
+  { value: "slide-right", label: "Para a direita" }
+];
+
+/** `fontconfig` is the family ffmpeg asks fontconfig for; the server needs the same fonts as the browser. */
+export const TEXT_FONTS: { value: TextFont; label: string; css: string; fontconfig: string }[] = [
+  { value: "inter", label: "Inter", css: "var(--font-inter), Inter, sans-serif", fontconfig: "Inter" },
+  { value: "poppins", label: "Poppins", css: "var(--font-poppins), Poppins, sans-serif", fontconfig: "Poppins" },
+  { value: "serif", label: "Serifada", css: "Georgia, 'DejaVu Serif', serif", fontconfig: "Serif" },
+  { value: "mono", label: "Monoespaçada", css: "ui-monospace, 'DejaVu Sans Mono', monospace", fontconfig: "Monospace" }
+];
+
+/** Broadcast safe areas as the margin left on each side of the frame. */
+export const SAFE_AREAS = [
+  { label: "Ação", margin: 0.035 },
+  { label: "Título", margin: 0.05 }
+];
+
+// How far a sliding overlay travels, in fractions of the frame.
+const SLIDE_DISTANCE = 0.06;
+
+const MOVEMENT: Record<TextAnimation, { x: number; y: number }> = {
+  none: { x: 0, y: 0 },
+  fade: { x: 0, y: 0 },
+  "slide-up": { x: 0, y: -1 },
+  "slide-left": { x: -1, y: 0 },
+  "slide-right": { x: 1, y: 0 }
+};
+
+const DEFAULTS: Record<TextOverlayKind, Omit<TextOverlay, "id" | "kind" | "start">> = {
+  title: {
+    text: "Título",
+    duration: 4,
+    font: "poppins",
+    bold: true,
+    size: 96,
+    color: "#ffffff",
+    background: "#111827",
+    backgroundOpacity: 1,
+    x: 0.5,
+    y: 0.5,
+    align: "center",
+    enter: "fade",
+    exit: "fade",
+    animationDuration: 0.6
+  },
+  "lower-third": {
+    text: "Nome Sobrenome",
+    subtitle: "Cargo",
+    duration: 5,
+    font: "inter",
+    bold: true,
+    size: 48,
+    color: "#ffffff",
+    background: "#7c3aed",
+    backgroundOpacity: 0.85,
+    x: 0.08,
+    y: 0.8,
+    align: "left",
+    enter: "slide-right",
+    exit: "slide-left",
+    animationDuration: 0.5
+  },
+  caption: {
+    text: "Legenda",
+    duration: 3,
+    font: "inter",
+    bold: false,
+    size: 42,
+    color: "#ffffff",
+    background: "#000000",
+    backgroundOpacity: 0.6,
+    x: 0.5,
+    y: 0.88,
+    align: "center",
+    enter: "fade",
+    exit: "fade",
+    animationDuration: 0.3
+  }
+};
+
+export const createTextOverlay = (id: string, kind: TextOverlayKind, start: number): TextOverlay => ({
+  id,
+  kind,
+  start,
+  ...DEFAULTS[kind]
+});
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const isColor = (value: unknown): value is string => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+const isOneOf = <T extends string>(options: { value: T }[], value: unknown): value is T =>
+  options.some((option) => option.value === value);
+
+const parseOverlay = (value: unknown): TextOverlay | null => {
+  if (!value || typeof value !== "object") return null;
+  const overlay = value as Record<string, unknown>;
+  const { id, kind, text, subtitle, start, duration, font, bold, size, color, background, backgroundOpacity } = overlay;
+  const { x, y, align, enter, exit, animationDuration } = overlay;
+
+  if (typeof id !== "string" || !isOneOf(TEXT_OVERLAY_KINDS, kind)) return null;
+  if (typeof text !== "string" || !text.trim() || text.length > MAX_OVERLAY_TEXT) return null;
+  if (subtitle !== undefined && (typeof subtitle !== "string" || subtitle.length > MAX_OVERLAY_TEXT)) return null;
+  if (!isNumberIn(start, 0, Number.MAX_SAFE_INTEGER) || !isNumberIn(duration, 0, Number.MAX_SAFE_INTEGER) || !duration) {
+    return null;
+  }
+  if (!isOneOf(TEXT_FONTS, font) || typeof bold !== "boolean" || !isNumberIn(size, MIN_TEXT_SIZE, MAX_TEXT_SIZE)) return null;
+  if (!isColor(color) || (background !== null && !isColor(background)) || !isNumberIn(backgroundOpacity, 0, 1)) return null;
+  if (!isNumberIn(x, 0, 1) || !isNumberIn(y, 0, 1) || (align !== "left" && align !== "center" && align !== "right")) {
+    return null;
+  }
+  if (!isOneOf(TEXT_ANIMATIONS, enter) || !isOneOf(TEXT_ANIMATIONS, exit)) return null;
+  if (!isNumberIn(animationDuration, 0, MAX_OVERLAY_ANIMATION)) return null;
+
+  return {
+    id,
+    kind,
+    text,
+    subtitle: subtitle?.trim() ? subtitle : undefined,
+    start,
+    duration,
+    font,
+    bold,
+    size,
+    color,
+    background,
+    backgroundOpacity,
+    x,
+    y,
+    align,
+    enter,
+    exit,
+    animationDuration
+  };
+};
+
+/** Validates an untrusted list of text overlays; null when anything is malformed or an id repeats. */
+export const parseTextOverlays = (value: unknown): TextOverlay[] | null => {
+  if (!Array.isArray(value) || value.length > MAX_TEXT_OVERLAYS) return null;
+  const overlays: TextOverlay[] = [];
+  for (const entry of value) {
+    const overlay = parseOverlay(entry);
+    if (!overlay || overlays.some((existing) => existing.id === overlay.id)) return null;
+    overlays.push(overlay);
+  }
+  return overlays;
+};
+
+export const getOverlayLines = (overlay: TextOverlay) => overlay.text.split("\n").filter((line) => line.trim());
+
+/** Height of the text block in pixels of the reference frame, used to centre it on its anchor. */
+export const getOverlayBlockHeight = (overlay: TextOverlay) =>
+  overlay.size * LINE_HEIGHT * (getOverlayLines(overlay).length + (overlay.subtitle ? SUBTITLE_SCALE : 0));
+
+// Animations never take more than half the overlay, so a short one still reaches full opacity.
+export const getAnimationLength = (overlay: TextOverlay) => Math.min(overlay.animationDuration, overlay.duration / 2);
+
+/**
+ * Opacity and offset of an overlay `time` seconds into the timeline. Entering, it fades in while moving
+ * along its animation's direction into place; leaving, it fades out while carrying on in the exit's direction.
+ */
+export function getOverlayState(overlay: TextOverlay, time: number): OverlayState | null {
+  const end = overlay.start + overlay.duration;
+  if (time < overlay.start || time >= end) return null;
+
+  const length = getAnimationLength(overlay);
+  const entering = overlay.enter === "none" || !length ? 1 : Math.min(1, (time - overlay.start) / length);
+  const leaving = overlay.exit === "none" || !length ? 1 : Math.min(1, (end - time) / length);
+  const into = MOVEMENT[overlay.enter];
+  const onwards = MOVEMENT[overlay.exit];
+
+  return {
+    opacity: entering * leaving,
+    dx: SLIDE_DISTANCE * (-(1 - entering) * into.x + (1 - leaving) * onwards.x),
+    dy: SLIDE_DISTANCE * (-(1 - entering) * into.y + (1 - leaving) * onwards.y)
+  };
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/** getOverlayState as ffmpeg expressions of `t`, for the drawtext `alpha`, `x` and `y` options. */
+export function buildOverlayExpressions(overlay: TextOverlay) {
+  const end = overlay.start + overlay.duration;
+  const length = round(getAnimationLength(overlay));
+  const entering = overlay.enter === "none" || !length ? "1" : `clip((t-${round(overlay.start)})/${length},0,1)`;
+  const leaving = overlay.exit === "none" || !length ? "1" : `clip((${round(end)}-t)/${length},0,1)`;
+  const into = MOVEMENT[overlay.enter];
+  const onwards = MOVEMENT[overlay.exit];
+  const offset = (axis: "x" | "y") => {
+    const terms = [
+      into[axis] ? `${round(-SLIDE_DISTANCE * into[axis])}*(1-${entering})` : "",
+      onwards[axis] ? `${round(SLIDE_DISTANCE * onwards[axis])}*(1-${leaving})` : ""
+    ].filter(Boolean);
+    return terms.length ? `(${terms.join("+")})` : "0";
+  };
+
+  return { alpha: `${entering}*${leaving}`, dx: offset("x"), dy: offset("y") };
+}
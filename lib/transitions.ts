@@ -0,0 +1,97 @@
+import type { TimelineItem, TransitionEasing, TransitionStyle } from "@/lib/composition";
+
+export const DEFAULT_TRANSITION_DURATION = 0.8;
+export const MIN_TRANSITION_DURATION = 0.2;
+export const MAX_TRANSITION_DURATION = 3;
+export const DEFAULT_TRANSITION_EASING: TransitionEasing = "ease-in-out";
+
+export interface ResolvedTransition {
+  style: TransitionStyle;
+  duration: number;
+  easing: TransitionEasing;
+}
+
+export interface TransitionFilter {
+  xfade: string;
+  post: string[];
+}
+
+// Built-in xfade transitions have no easing parameter, so only the styles rendered through
+// custom expressions honour the chosen curve; the preview mirrors the same restriction.
+const EASABLE_STYLES: TransitionStyle[] = ["fade", "flash"];
+
+const EASING_EXPRESSIONS: Record<TransitionEasing, string> = {
+  linear: "ld(0)",
+  "ease-in": "ld(0)*ld(0)",
+  "ease-out": "ld(0)*(2-ld(0))",
+  "ease-in-out": "if(lt(ld(0),0.5),2*ld(0)*ld(0),1-pow(2-2*ld(0),2)/2)"
+};
+
+/** An easing curve as an ffmpeg expression of the progress held in register 0. */
+export const getEasingExpression = (easing: TransitionEasing) => EASING_EXPRESSIONS[easing];
+
+/** The same curves as EASING_EXPRESSIONS, for animations the browser computes itself. */
+export function applyEasing(easing: TransitionEasing, progress: number) {
+  switch (easing) {
+    case "ease-in":
+      return progress * progress;
+    case "ease-out":
+      return progress * (2 - progress);
+    case "ease-in-out":
+      return progress < 0.5 ? 2 * progress * progress : 1 - (2 - 2 * progress) ** 2 / 2;
+    default:
+      return progress;
+  }
+}
+
+export const supportsEasing = (style: TransitionStyle) => EASABLE_STYLES.includes(style);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function resolveTransition(clip: TimelineItem, previous?: TimelineItem): ResolvedTransition {
+  if (!previous || clip.transition === "corte") {
+    return { style: "corte", duration: 0, easing: "linear" };
+  }
+
+  const requested = clip.transitionDuration ?? DEFAULT_TRANSITION_DURATION;
+  const ceiling = Math.min(MAX_TRANSITION_DURATION, clip.duration / 2, previous.duration);
+  const easing = supportsEasing(clip.transition) ? clip.easing ?? DEFAULT_TRANSITION_EASING : "linear";
+
+  return {
+    style: clip.transition,
+    duration: Number(clamp(requested, Math.min(MIN_TRANSITION_DURATION, ceiling), ceiling).toFixed(3)),
+    easing
+  };
+}
+
+const easedProgress = (easing: TransitionEasing) => `st(0,1-P);st(1,${EASING_EXPRESSIONS[easing]})`;
+
+const enableWindow = (offset: number, duration: number) => `enable='between(t,${offset},${offset + duration})'`;
+
+export function buildTransitionFilter({ style, duration, easing }: ResolvedTransition, offset: number): TransitionFilter {
+  const base = `duration=${duration}:offset=${offset}`;
+
+  switch (style) {
+    case "fade":
+      return {
+        xfade: `xfade=transition=custom:${base}:expr='${easedProgress(easing)};A*(1-ld(1))+B*ld(1)'`,
+        post: []
+      };
+    case "flash":
+      return {
+        xfade: `xfade=transition=custom:${base}:expr='${easedProgress(easing)};st(2,if(eq(PLANE,0),255,128));if(lt(ld(1),0.5),A*(1-2*ld(1))+ld(2)*2*ld(1),ld(2)*(2-2*ld(1))+B*(2*ld(1)-1))'`,
+        post: []
+      };
+    case "zoom":
+      return { xfade: `xfade=transition=zoomin:${base}`, post: [] };
+    case "slide":
+      return { xfade: `xfade=transition=slideleft:${base}`, post: [] };
+    case "glitch":
+      return {
+        xfade: `xfade=transition=pixelize:${base}`,
+        post: [`rgbashift=rh=-12:bh=12:${enableWindow(offset, duration)}`, `noise=alls=40:allf=t:${enableWindow(offset, duration)}`]
+      };
+    default:
+      throw new Error(`Transição ${style} não possui filtro de exportação`);
+  }
+}
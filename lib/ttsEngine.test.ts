@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+
+// Stands in for the piper binary: writes a second of silence at the rate of the model it is given, 16 kHz
+// for the low models and 22.05 kHz for the others, as the real voices do.
+const FAKE_PIPER = `#!/usr/bin/env node
+const fs = require("fs");
+const args = process.argv.slice(2);
+const model = args[args.indexOf("--model") + 1];
+const output = args[args.indexOf("--output_file") + 1];
+const rate = /-(x_)?low\\.onnx$/.test(model) ? 16000 : 22050;
+const data = Buffer.alloc(rate * 2);
+const header = Buffer.alloc(44);
+header.write("RIFF", 0, "ascii");
+header.writeUInt32LE(36 + data.length, 4);
+header.write("WAVEfmt ", 8, "ascii");
+header.writeUInt32LE(16, 16);
+header.writeUInt16LE(1, 20);
+header.writeUInt16LE(1, 22);
+header.writeUInt32LE(rate, 24);
+header.writeUInt32LE(rate * 2, 28);
+header.writeUInt16LE(2, 32);
+header.writeUInt16LE(16, 34);
+header.write("data", 36, "ascii");
+header.writeUInt32LE(data.length, 40);
+process.stdin.resume();
+process.stdin.on("end", () => fs.writeFileSync(output, Buffer.concat([header, data])));
+`;
+
+let directory: string;
+
+before(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "aurora-piper-test-"));
+  const binary = path.join(directory, "piper");
+  await writeFile(binary, FAKE_PIPER);
+  await chmod(binary, 0o755);
+  // The provider reads its binary path when it is first imported.
+  process.env.PIPER_PATH = binary;
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+test("a Piper script can switch between voices whose models have different sample rates", async () => {
+  const { SPEECH_SAMPLE_RATE, planSynthesisChunks, renderChunk } = await import("@/lib/ttsEngine");
+  const { concatWav, parseWav, readWavDuration } = await import("@/lib/wav");
+
+  // Atlas uses pt_BR-faber-medium (22.05 kHz) and Caetano pt_BR-edresson-low (16 kHz).
+  const chunks = planSynthesisChunks({
+    text: "ATLAS: Boa noite.\nCAETANO: Boa noite.\nATLAS: [voz: masc-epic] Agora com a outra voz.",
+    voiceId: "masc-deep",
+    speed: 1,
+    pitch: 0,
+    emotion: "neutro",
+    engine: "piper",
+    dialogue: { cast: { ATLAS: "masc-deep", CAETANO: "masc-epic" }, gap: 0.5 }
+  });
+
+  const rendered = [];
+  for (const chunk of chunks) {
+    rendered.push(await renderChunk(chunk, "piper"));
+  }
+
+  for (const { wav } of rendered) {
+    assert.equal(parseWav(wav).format.sampleRate, SPEECH_SAMPLE_RATE);
+  }
+  // Three one-second utterances and two dialogue gaps, whichever chunks they landed in.
+  const joined = concatWav(rendered.map(({ wav }) => wav));
+  assert.ok(Math.abs(readWavDuration(joined) - 4) < 0.01);
+});
@@ -0,0 +1,318 @@
+import { readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { PassThrough, Readable, Writable } from "stream";
+import ffmpeg from "fluent-ffmpeg";
+import { v4 as uuid } from "uuid";
+import { alignSentence, splitSentences, type SentenceTiming } from "@/lib/alignment";
+import { getAudioFormat, MASTER_AUDIO_FORMAT, type AudioFormat } from "@/lib/audioFormats";
+import { parseSynthesisScript, type DialogueOptions } from "@/lib/dialogue";
+import {
+  buildMasteringFilters,
+  buildMeasureFilters,
+  buildPreFilters,
+  getLoudnessProfile,
+  parseLoudnormOutput,
+  SILENCE_PADDING_SECONDS,
+  SILENCE_THRESHOLD_DB,
+  type MasteringOptions,
+  type MasteringReport
+} from "@/lib/mastering";
+import { buildPauseDetectFilter, parseSilenceDetectOutput } from "@/lib/pauseDetection";
+import { formatScriptError, type SpeechSegment } from "@/lib/scriptMarkup";
+import { planChunks, type SynthesisChunk } from "@/lib/synthesisChunks";
+import { getProvider } from "@/lib/ttsProviders";
+import { getVoiceDefinition } from "@/lib/voices";
+import {
+  bytesPerSecond,
+  concatWav,
+  createWavHeader,
+  measureEdgeSilence,
+  parseWav,
+  readWavDuration,
+  resampleWav,
+  type WavFormat,
+  type WavPart
+} from "@/lib/wav";
+
+export interface SynthesisRequest {
+  text: string;
+  voiceId: string;
+  speed: number;
+  pitch: number;
+  emotion: string;
+  engine?: string;
+  dialogue?: DialogueOptions;
+  mastering?: MasteringOptions;
+}
+
+export interface SynthesisResult {
+  audio: Buffer;
+  duration: number;
+}
+
+/** `audio` holds the lossless master in MASTER_AUDIO_FORMAT. */
+export interface EncodedNarration extends SynthesisResult {
+  /** Seconds of leading silence removed, so timings measured on the chunks can be shifted to match. */
+  trimmedStart: number;
+  loudness?: MasteringReport;
+}
+
+export interface RenderedChunk {
+  wav: Buffer;
+  sentences: SentenceTiming[];
+}
+
+/**
+ * Every utterance is brought to this rate before it is joined to others, so a script can switch between
+ * voices whose models were trained at different rates. It is the rate of eSpeak and of Piper's medium models.
+ */
+export const SPEECH_SAMPLE_RATE = 22_050;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface EncodeOptions {
+  filters?: string[];
+  onStderr?: (line: string) => void;
+}
+
+const toReadable = (audio: Buffer | Readable) => (Buffer.isBuffer(audio) ? Readable.from([audio]) : audio);
+
+const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Encodes through a temporary file rather than a pipe: the WAV and M4A muxers need a seekable output
+ * to write their final sizes and index.
+ */
+export async function encodeAudio(
+  audio: Buffer | Readable,
+  format: AudioFormat,
+  { filters = [], onStderr }: EncodeOptions = {},
+  inputFormat = "wav"
+) {
+  const definition = getAudioFormat(format);
+  const outputPath = path.join(os.tmpdir(), `aurora-encode-${uuid()}.${definition.extension}`);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(toReadable(audio)).inputFormat(inputFormat);
+      if (filters.length) command.audioFilters(filters);
+      if (onStderr) command.on("stderr", (line) => onStderr(String(line)));
+      command
+        .audioCodec(definition.codec)
+        .outputOptions(definition.outputOptions)
+        .format(definition.muxer)
+        .on("error", (error) => reject(toError(error)))
+        .on("end", () => resolve())
+        .save(outputPath);
+    });
+    return await readFile(outputPath);
+  } finally {
+    await rm(outputPath, { force: true });
+  }
+}
+
+/** Live MP3 encode of a WAV stream that is still being produced; aborting the signal stops ffmpeg. */
+export function streamMp3(wav: Readable, signal?: AbortSignal) {
+  const output = new PassThrough();
+  const command = ffmpeg(wav)
+    .inputFormat("wav")
+    .audioCodec("libmp3lame")
+    .audioBitrate(320)
+    .format("mp3")
+    .on("error", (error) => output.destroy(toError(error)));
+  command.pipe(output, { end: true });
+
+  signal?.addEventListener(
+    "abort",
+    () => {
+      wav.destroy();
+      command.kill("SIGKILL");
+    },
+    { once: true }
+  );
+  return output;
+}
+
+/** Derives a delivery format from a stored encode (normally the FLAC master). */
+export const transcodeAudio = (source: Buffer, sourceFormat: AudioFormat, target: AudioFormat) =>
+  encodeAudio(source, target, {}, getAudioFormat(sourceFormat).muxer);
+
+/** Analysis-only pass: runs the filters and discards the audio, returning what they reported on stderr. */
+async function analyseAudio(audio: Buffer | Readable, inputFormat: string, filters: string[]) {
+  const lines: string[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const sink = new Writable({
+      write(_chunk, _encoding, callback) {
+        callback();
+      }
+    });
+    sink.on("finish", () => resolve());
+
+    ffmpeg(toReadable(audio))
+      .inputFormat(inputFormat)
+      .audioFilters(filters)
+      .format("null")
+      .on("stderr", (line) => lines.push(String(line)))
+      .on("error", (error) => reject(toError(error)))
+      .pipe(sink, { end: true });
+  });
+  return lines.join("\n");
+}
+
+async function measureLoudness(wav: Readable, options: MasteringOptions) {
+  const stats = parseLoudnormOutput(await analyseAudio(wav, "wav", buildMeasureFilters(options)));
+  if (!stats) {
+    throw new Error("Não foi possível medir a loudness da narração");
+  }
+  return stats.input;
+}
+
+/** Silences between phrases of a stored encode, used to place cuts on the narration's natural breaks. */
+export const detectPauses = async (audio: Buffer, format: AudioFormat) =>
+  parseSilenceDetectOutput(await analyseAudio(audio, getAudioFormat(format).muxer, [buildPauseDetectFilter()]));
+
+type SegmentRequest = Pick<SpeechSegment, "text" | "voiceId" | "speed" | "pitch" | "emotion" | "emphasis"> & {
+  engine?: string;
+};
+
+export async function renderSpeechWav(request: SegmentRequest, signal?: AbortSignal) {
+  const provider = getProvider(request.engine);
+  if (!provider) {
+    throw new Error(`Motor de voz ${request.engine} não registrado`);
+  }
+
+  const voice = getVoiceDefinition(request.voiceId);
+  const engineVoice = voice?.engineVoices[provider.id];
+  if (!voice || !engineVoice) {
+    throw new Error(`Voz não disponível no motor ${provider.label}`);
+  }
+
+  const { emotions, pitchRange, speedRange } = provider.capabilities;
+
+  const wav = await provider.synthesize({
+    text: request.text,
+    voice,
+    engineVoice,
+    speed: clamp(request.speed, speedRange[0], speedRange[1]),
+    pitch: clamp(request.pitch, pitchRange[0], pitchRange[1]),
+    emotion: emotions.includes(request.emotion) ? request.emotion : emotions[0] ?? "neutro",
+    emphasis: request.emphasis,
+    signal
+  });
+  return resampleWav(wav, SPEECH_SAMPLE_RATE);
+}
+
+export function planSynthesisChunks(request: SynthesisRequest) {
+  const { segments, errors } = parseSynthesisScript(request);
+  if (errors.length) {
+    throw new Error(formatScriptError(errors[0]));
+  }
+  return planChunks(segments);
+}
+
+export async function renderChunk(chunk: SynthesisChunk, engine?: string, signal?: AbortSignal): Promise<RenderedChunk> {
+  const parts: WavPart[] = [];
+  const sentences: SentenceTiming[] = [];
+  let cursor = 0;
+
+  for (const segment of chunk.segments) {
+    if (segment.type === "pause") {
+      parts.push({ silence: segment.duration });
+      cursor += segment.duration;
+      continue;
+    }
+    for (const sentence of splitSentences(segment.text)) {
+      signal?.throwIfAborted();
+      const wav = await renderSpeechWav({ ...segment, text: sentence, engine }, signal);
+      const duration = readWavDuration(wav);
+      parts.push(wav);
+      sentences.push(alignSentence(sentence, cursor, cursor + duration));
+      cursor += duration;
+    }
+  }
+
+  return { wav: concatWav(parts), sentences };
+}
+
+/**
+ * Streams the stored chunk WAVs into a single gapless master without holding the whole PCM in memory.
+ * With mastering enabled the stream is read twice: once to measure loudness, once to encode.
+ */
+export async function encodeChunks(
+  count: number,
+  loadChunk: (index: number) => Promise<Buffer>,
+  mastering?: MasteringOptions
+): Promise<EncodedNarration> {
+  let format: WavFormat | undefined;
+  let dataLength = 0;
+  let leading = 0;
+  let trailing = 0;
+
+  for (let index = 0; index < count; index += 1) {
+    const parsed = parseWav(await loadChunk(index));
+    format ??= parsed.format;
+    if (
+      parsed.format.sampleRate !== format.sampleRate ||
+      parsed.format.channels !== format.channels ||
+      parsed.format.bitsPerSample !== format.bitsPerSample
+    ) {
+      throw new Error("Trechos de áudio com formatos incompatíveis");
+    }
+    dataLength += parsed.data.length;
+
+    if (mastering?.trimSilence && (index === 0 || index === count - 1)) {
+      const silence = measureEdgeSilence(parsed, SILENCE_THRESHOLD_DB, SILENCE_PADDING_SECONDS);
+      if (index === 0) leading = silence.leading;
+      if (index === count - 1) trailing = Math.min(silence.trailing, parsed.data.length - (count === 1 ? leading : 0));
+    }
+  }
+
+  if (!format) {
+    throw new Error("Nenhum trecho sintetizado");
+  }
+
+  const outputLength = dataLength - leading - trailing;
+  const header = createWavHeader(format, outputLength);
+  async function* pcm() {
+    yield header;
+    for (let index = 0; index < count; index += 1) {
+      const { data } = parseWav(await loadChunk(index));
+      const start = index === 0 ? leading : 0;
+      const end = index === count - 1 ? data.length - trailing : data.length;
+      yield data.subarray(start, end);
+    }
+  }
+
+  const duration = outputLength / bytesPerSecond(format);
+  const trimmedStart = leading / bytesPerSecond(format);
+  const profile = mastering && mastering.target !== "off" ? getLoudnessProfile(mastering.target) : undefined;
+
+  if (!mastering || !profile) {
+    const filters = mastering ? buildPreFilters(mastering) : [];
+    return { audio: await encodeAudio(Readable.from(pcm()), MASTER_AUDIO_FORMAT, { filters }), duration, trimmedStart };
+  }
+
+  const measurement = await measureLoudness(Readable.from(pcm()), mastering);
+  const lines: string[] = [];
+  const audio = await encodeAudio(Readable.from(pcm()), MASTER_AUDIO_FORMAT, {
+    filters: buildMasteringFilters(mastering, measurement, format.sampleRate),
+    onStderr: (line) => lines.push(line)
+  });
+  const output = parseLoudnormOutput(lines.join("\n"))?.output;
+
+  return {
+    audio,
+    duration,
+    trimmedStart,
+    loudness: {
+      target: profile.id,
+      targetIntegrated: profile.integrated,
+      inputIntegrated: measurement.integrated,
+      integrated: output?.integrated ?? profile.integrated,
+      truePeak: output?.truePeak ?? measurement.truePeak,
+      range: output?.range ?? measurement.range,
+      trimmed: Number(((leading + trailing) / bytesPerSecond(format)).toFixed(3))
+    }
+  };
+}
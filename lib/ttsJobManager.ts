@@ -0,0 +1,469 @@
+import { EventEmitter } from "events";
+import { Readable } from "stream";
+import { v4 as uuid } from "uuid";
+import { offsetTimings, type SentenceTiming } from "@/lib/alignment";
+import { DEFAULT_AUDIO_FORMAT, MASTER_AUDIO_FORMAT, type AudioFormat } from "@/lib/audioFormats";
+import { getNarrationJobIds } from "@/lib/audioTracks";
+import {
+  createJobStoreFromEnv,
+  purgeExpiredJobs,
+  type ChunkFailure,
+  type JobStore,
+  type SynthesisJob,
+  type SynthesisJobStatus
+} from "@/lib/jobStore";
+import type { PauseTiming } from "@/lib/pauseDetection";
+import { getProjectStore } from "@/lib/projectStore";
+import {
+  detectPauses,
+  encodeChunks,
+  planSynthesisChunks,
+  renderChunk,
+  streamMp3,
+  transcodeAudio,
+  type SynthesisRequest
+} from "@/lib/ttsEngine";
+import type { ByteRange } from "@/lib/httpRange";
+import { createWavHeader, parseWav, readWavDuration, STREAMING_DATA_LENGTH } from "@/lib/wav";
+
+const JOB_TTL_MS = Number(process.env.AURORA_JOB_TTL_HOURS ?? 24) * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
+const CHUNK_CONCURRENCY = Math.max(1, Number(process.env.AURORA_CHUNK_CONCURRENCY ?? 2));
+const STREAM_POLL_MS = 500;
+
+interface ManagerState {
+  store: JobStore;
+  running: Set<string>;
+  pendingWrites: Map<string, Promise<unknown>>;
+  transcoding: Map<string, Promise<Buffer | undefined>>;
+  pauses: Map<string, Promise<PauseTiming[] | undefined>>;
+  chunkReaders: Map<string, number>;
+  controllers: Map<string, AbortController>;
+  events: EventEmitter;
+  recovery?: Promise<void>;
+  cleanup?: NodeJS.Timeout;
+}
+
+// Next.js re-evaluates modules on every dev reload; keeping the state on globalThis stops each
+// reload from spawning a second recovery pass and cleanup timer against the same store.
+const globalState = globalThis as typeof globalThis & { __auroraTtsManager?: ManagerState };
+
+const state: ManagerState = (globalState.__auroraTtsManager ??= {
+  store: createJobStoreFromEnv(),
+  running: new Set<string>(),
+  pendingWrites: new Map<string, Promise<unknown>>(),
+  transcoding: new Map<string, Promise<Buffer | undefined>>(),
+  pauses: new Map<string, Promise<PauseTiming[] | undefined>>(),
+  chunkReaders: new Map<string, number>(),
+  controllers: new Map<string, AbortController>(),
+  events: new EventEmitter().setMaxListeners(0)
+});
+
+function updateJob(jobId: string, data: Partial<SynthesisJob>) {
+  const previous = state.pendingWrites.get(jobId) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const job = await state.store.get(jobId);
+    if (!job) return undefined;
+    const updated = { ...job, ...data, updatedAt: Date.now() };
+    await state.store.save(updated);
+    state.events.emit(jobId, updated);
+    return updated;
+  });
+
+  const settled = next.catch(() => undefined);
+  state.pendingWrites.set(jobId, settled);
+  void settled.then(() => {
+    if (state.pendingWrites.get(jobId) === settled) {
+      state.pendingWrites.delete(jobId);
+    }
+  });
+  return next;
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  const queue = [...items];
+  const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
+
+async function processJob(jobId: string) {
+  if (state.running.has(jobId)) return;
+  state.running.add(jobId);
+  const controller = new AbortController();
+  const { signal } = controller;
+  state.controllers.set(jobId, controller);
+
+  try {
+    const queued = await state.store.get(jobId);
+    if (!queued || queued.status === "cancelled") return;
+
+    const job = await updateJob(jobId, { status: "processing", progress: 5, error: undefined, chunkFailures: [] });
+    if (!job) return;
+
+    const chunks = planSynthesisChunks(job.request);
+    const stored = await Promise.all(chunks.map((chunk) => state.store.getChunk(jobId, chunk.index)));
+    const pending = chunks.filter((_chunk, index) => !stored[index]);
+    const failures: ChunkFailure[] = [];
+    let chunksDone = chunks.length - pending.length;
+
+    await updateJob(jobId, { chunksTotal: chunks.length, chunksDone });
+
+    await runWithConcurrency(pending, CHUNK_CONCURRENCY, async (chunk) => {
+      if (signal.aborted) return;
+      try {
+        await state.store.saveChunk(jobId, chunk.index, await renderChunk(chunk, job.request.engine, signal));
+        chunksDone += 1;
+        await updateJob(jobId, { chunksDone, progress: 5 + Math.round((chunksDone / chunks.length) * 85) });
+      } catch (error) {
+        if (signal.aborted) return;
+        const message = error instanceof Error ? error.message : "Falha na síntese";
+        failures.push({ index: chunk.index, line: chunk.line, message });
+      }
+    });
+
+    signal.throwIfAborted();
+    if (failures.length) {
+      await updateJob(jobId, {
+        status: "failed",
+        error: `${failures.length} de ${chunks.length} trechos falharam`,
+        chunkFailures: failures.sort((a, b) => a.index - b.index)
+      });
+      return;
+    }
+
+    const loadChunk = async (index: number) => {
+      const chunk = await state.store.getChunk(jobId, index);
+      if (!chunk) throw new Error(`Trecho ${index + 1} não encontrado`);
+      return chunk;
+    };
+
+    await updateJob(jobId, { progress: 92 });
+    signal.throwIfAborted();
+    const result = await encodeChunks(chunks.length, async (index) => (await loadChunk(index)).wav, job.request.mastering);
+
+    // Chunk timings are relative to their own WAV; shift them by the audio rendered before them.
+    const alignment: SentenceTiming[] = [];
+    let chunkOffset = -result.trimmedStart;
+    for (const chunk of chunks) {
+      const { wav, sentences } = await loadChunk(chunk.index);
+      alignment.push(...offsetTimings(sentences, chunkOffset));
+      chunkOffset += readWavDuration(wav);
+    }
+
+    await state.store.saveAudio(jobId, MASTER_AUDIO_FORMAT, result.audio);
+    // MP3 stays the default deliverable, so it is produced up front; other formats are transcoded on request.
+    await state.store.saveAudio(
+      jobId,
+      DEFAULT_AUDIO_FORMAT,
+      await transcodeAudio(result.audio, MASTER_AUDIO_FORMAT, DEFAULT_AUDIO_FORMAT)
+    );
+    await state.store.saveAlignment(jobId, alignment);
+    // A live listener still needs the chunks; the last one to disconnect cleans them up instead.
+    if (!state.chunkReaders.get(jobId)) {
+      await state.store.removeChunks(jobId);
+    }
+    // Checked after the last await: a cancel that lands later queues its update behind this one.
+    signal.throwIfAborted();
+    await updateJob(jobId, { status: "completed", progress: 100, duration: result.duration, loudness: result.loudness });
+  } catch (error) {
+    // A cancelled job already carries its final status; the abort error is not a failure.
+    if (signal.aborted) return;
+    const message = error instanceof Error ? error.message : "Falha na síntese";
+    await updateJob(jobId, { status: "failed", error: message });
+  } finally {
+    state.running.delete(jobId);
+    state.controllers.delete(jobId);
+    if (signal.aborted && !state.chunkReaders.get(jobId)) {
+      await state.store.removeChunks(jobId).catch((error) => console.error(error));
+    }
+  }
+}
+
+async function recoverJobs() {
+  const jobs = await state.store.list();
+  const pending = jobs
+    .filter((job) => job.status === "queued" || job.status === "processing")
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const job of pending) {
+    await updateJob(job.id, { status: "queued", progress: 0 });
+    void processJob(job.id);
+  }
+}
+
+/** Narrations on the tracks of saved projects; they outlive the TTL for as long as a project uses them. */
+async function listRetainedJobIds() {
+  const projects = await getProjectStore().list();
+  return new Set(projects.flatMap((project) => getNarrationJobIds(project.audioTracks)));
+}
+
+function ensureStarted() {
+  state.recovery ??= recoverJobs().catch((error) => console.error("Falha ao recuperar jobs de síntese", error));
+
+  if (!state.cleanup) {
+    state.cleanup = setInterval(() => {
+      listRetainedJobIds()
+        .then((retained) => purgeExpiredJobs(state.store, JOB_TTL_MS, retained))
+        .catch((error) => console.error(error));
+    }, CLEANUP_INTERVAL_MS);
+    state.cleanup.unref?.();
+  }
+
+  return state.recovery;
+}
+
+export async function createSynthesisJob(request: SynthesisRequest) {
+  await ensureStarted();
+
+  const now = Date.now();
+  const job: SynthesisJob = {
+    id: uuid(),
+    status: "queued",
+    progress: 0,
+    request,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await state.store.save(job);
+  void processJob(job.id);
+  return job.id;
+}
+
+export async function getJob(jobId: string) {
+  await ensureStarted();
+  return state.store.get(jobId);
+}
+
+async function transcodeVariant(jobId: string, format: AudioFormat) {
+  const master = await state.store.getAudio(jobId, MASTER_AUDIO_FORMAT);
+  // Jobs completed before masters were kept only have the MP3 to work from.
+  const source = master
+    ? { audio: master, format: MASTER_AUDIO_FORMAT }
+    : await state.store.getAudio(jobId, DEFAULT_AUDIO_FORMAT).then((audio) => audio && { audio, format: DEFAULT_AUDIO_FORMAT });
+  if (!source) return undefined;
+
+  const audio = await transcodeAudio(source.audio, source.format, format);
+  await state.store.saveAudio(jobId, format, audio);
+  return audio;
+}
+
+async function ensureVariant(jobId: string, format: AudioFormat) {
+  if (await state.store.statAudio(jobId, format)) return true;
+
+  const job = await state.store.get(jobId);
+  if (job?.status !== "completed") return false;
+
+  // Concurrent requests for the same variant share one ffmpeg run.
+  const key = `${jobId}:${format}`;
+  const pending = state.transcoding.get(key) ?? transcodeVariant(jobId, format);
+  state.transcoding.set(key, pending);
+  try {
+    return Boolean(await pending);
+  } finally {
+    state.transcoding.delete(key);
+  }
+}
+
+export async function getJobAudio(jobId: string, format: AudioFormat = DEFAULT_AUDIO_FORMAT) {
+  await ensureStarted();
+  if (!(await ensureVariant(jobId, format))) return undefined;
+  return state.store.getAudio(jobId, format);
+}
+
+export async function getJobAudioInfo(jobId: string, format: AudioFormat = DEFAULT_AUDIO_FORMAT) {
+  await ensureStarted();
+  if (!(await ensureVariant(jobId, format))) return undefined;
+  return state.store.statAudio(jobId, format);
+}
+
+export async function openJobAudio(jobId: string, format: AudioFormat, range?: ByteRange) {
+  await ensureStarted();
+  return state.store.openAudio(jobId, format, range);
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function* readChunksInOrder(jobId: string, signal: AbortSignal) {
+  let index = 0;
+  while (!signal.aborted) {
+    const job = await state.store.get(jobId);
+    if (!job || job.status === "failed" || job.status === "cancelled") return;
+    if (job.chunksTotal !== undefined && index >= job.chunksTotal) return;
+
+    const chunk = await state.store.getChunk(jobId, index);
+    if (chunk) {
+      const { format, data } = parseWav(chunk.wav);
+      if (index === 0) yield createWavHeader(format, STREAMING_DATA_LENGTH);
+      yield data;
+      index += 1;
+    } else if (job.status === "completed") {
+      return;
+    } else {
+      await wait(STREAM_POLL_MS);
+    }
+  }
+}
+
+/**
+ * Streams an unmastered MP3 of a job that is still rendering, following the chunks in script order as
+ * they land in the store. Returns undefined once the job is no longer in progress.
+ */
+export async function streamJobAudio(jobId: string, signal: AbortSignal) {
+  await ensureStarted();
+  const job = await state.store.get(jobId);
+  if (!job || (job.status !== "queued" && job.status !== "processing")) return undefined;
+
+  state.chunkReaders.set(jobId, (state.chunkReaders.get(jobId) ?? 0) + 1);
+  const release = async () => {
+    const readers = (state.chunkReaders.get(jobId) ?? 1) - 1;
+    if (readers > 0) {
+      state.chunkReaders.set(jobId, readers);
+      return;
+    }
+    state.chunkReaders.delete(jobId);
+    const latest = await state.store.get(jobId);
+    if (latest?.status === "completed") await state.store.removeChunks(jobId);
+  };
+
+  const output = streamMp3(Readable.from(readChunksInOrder(jobId, signal)), signal);
+  output.once("close", () => {
+    release().catch((error) => console.error(error));
+  });
+  return output;
+}
+
+/** Calls `listener` with every persisted update of the job; returns the unsubscribe function. */
+export function subscribeToJob(jobId: string, listener: (job: SynthesisJob) => void) {
+  state.events.on(jobId, listener);
+  return () => {
+    state.events.off(jobId, listener);
+  };
+}
+
+export async function getJobAlignment(jobId: string) {
+  await ensureStarted();
+  return state.store.getAlignment(jobId);
+}
+
+/** Pauses in the finished narration, detected on the master the first time they are asked for. */
+export async function getJobPauses(jobId: string) {
+  await ensureStarted();
+  let pending = state.pauses.get(jobId);
+  if (!pending) {
+    pending = state.store
+      .getAudio(jobId, MASTER_AUDIO_FORMAT)
+      .then((audio) => (audio ? detectPauses(audio, MASTER_AUDIO_FORMAT) : undefined));
+    state.pauses.set(jobId, pending);
+  }
+  try {
+    return await pending;
+  } catch (error) {
+    state.pauses.delete(jobId);
+    throw error;
+  }
+}
+
+/**
+ * What a project archive carries of a finished narration: the job, its alignment and the format and size of
+ * its master (or MP3, for older jobs), which `openJobAudio` streams.
+ */
+export async function getNarrationSource(jobId: string) {
+  await ensureStarted();
+  const job = await state.store.get(jobId);
+  if (job?.status !== "completed") return undefined;
+
+  for (const format of [MASTER_AUDIO_FORMAT, DEFAULT_AUDIO_FORMAT]) {
+    const info = await state.store.statAudio(jobId, format);
+    if (info) return { job, format, size: info.size, alignment: await state.store.getAlignment(jobId) };
+  }
+  return undefined;
+}
+
+/**
+ * Stores a narration that arrived in a project archive under its original id, as a completed job; the other
+ * formats are transcoded from its audio on request. A job already in the store is left as it is.
+ */
+export async function importNarration(job: SynthesisJob, format: AudioFormat, audio: Readable, alignment?: SentenceTiming[]) {
+  await ensureStarted();
+  if (await state.store.get(job.id)) {
+    audio.destroy();
+    return;
+  }
+
+  try {
+    await state.store.saveAudio(job.id, format, audio);
+    if (alignment) await state.store.saveAlignment(job.id, alignment);
+    await state.store.save({ ...job, status: "completed", progress: 100, updatedAt: Date.now() });
+  } catch (error) {
+    // The record is written last, so a failed import leaves files no job owns; they go with it.
+    await state.store.remove(job.id).catch(() => undefined);
+    throw error;
+  }
+}
+
+export const isRetryable = (job: SynthesisJob) => job.status === "failed" || job.status === "cancelled";
+
+/** Queues a failed or cancelled job again; resolves with the number of chunks it still has to render. */
+export async function retrySynthesisJob(jobId: string) {
+  await ensureStarted();
+  const job = await state.store.get(jobId);
+  // A cancelled job may still be unwinding its last chunk; it can be retried once that settles.
+  if (!job || !isRetryable(job) || state.running.has(jobId)) return undefined;
+
+  // Chunks kept from the previous attempt are reused; everything else (all of a cancelled job) is rendered again.
+  const chunks = planSynthesisChunks(job.request);
+  const stored = await Promise.all(chunks.map((chunk) => state.store.getChunk(jobId, chunk.index)));
+  const pendingChunks = stored.filter((chunk) => !chunk).length;
+
+  const updated = await updateJob(jobId, { status: "queued", progress: 0, error: undefined });
+  void processJob(jobId);
+  return updated && { job: updated, pendingChunks };
+}
+
+export async function cancelSynthesisJob(jobId: string) {
+  await ensureStarted();
+  const job = await state.store.get(jobId);
+  if (!job || (job.status !== "queued" && job.status !== "processing")) return undefined;
+
+  state.controllers.get(jobId)?.abort();
+  const updated = await updateJob(jobId, { status: "cancelled", error: undefined });
+  if (!state.running.has(jobId) && !state.chunkReaders.get(jobId)) {
+    await state.store.removeChunks(jobId);
+  }
+  return updated;
+}
+
+/** Removes a finished job together with its audio variants, alignment and any leftover chunks. */
+export async function deleteSynthesisJob(jobId: string) {
+  await ensureStarted();
+  const job = await state.store.get(jobId);
+  if (!job || job.status === "queued" || job.status === "processing") return false;
+
+  await state.pendingWrites.get(jobId);
+  await state.store.remove(jobId);
+  state.pauses.delete(jobId);
+  return true;
+}
+
+export interface JobListQuery {
+  statuses?: SynthesisJobStatus[];
+  page: number;
+  pageSize: number;
+}
+
+export async function listJobs({ statuses, page, pageSize }: JobListQuery) {
+  await ensureStarted();
+  const jobs = (await state.store.list())
+    .filter((job) => !statuses?.length || statuses.includes(job.status))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return {
+    jobs: jobs.slice((page - 1) * pageSize, page * pageSize),
+    total: jobs.length
+  };
+}
@@ -0,0 +1,44 @@
+import { AUDIO_FORMATS } from "@/lib/audioFormats";
+import type { SynthesisJob } from "@/lib/jobStore";
+
+/** Public shape of a synthesis job, shared by the status route and the SSE stream. */
+export function toJobStatusPayload(job: SynthesisJob) {
+  const completed = job.status === "completed";
+  const inProgress = job.status === "queued" || job.status === "processing";
+
+  return {
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    downloadUrl: completed ? `/api/tts/${job.id}/audio` : undefined,
+    streamUrl: inProgress && job.chunksDone ? `/api/tts/${job.id}/audio` : undefined,
+    formatUrls: completed
+      ? Object.fromEntries(AUDIO_FORMATS.map((format) => [format.id, `/api/tts/${job.id}/audio?format=${format.id}`]))
+      : undefined,
+    alignmentUrl: completed ? `/api/tts/${job.id}/alignment` : undefined,
+    subtitleUrls: completed
+      ? { srt: `/api/tts/${job.id}/subtitles?format=srt`, vtt: `/api/tts/${job.id}/subtitles?format=vtt` }
+      : undefined,
+    duration: job.duration,
+    chunksTotal: job.chunksTotal,
+    chunksDone: job.chunksDone,
+    chunkFailures: job.chunkFailures ?? [],
+    mastering: job.request.mastering,
+    loudness: job.loudness
+  };
+}
+
+export type JobStatusPayload = ReturnType<typeof toJobStatusPayload>;
+
+const PREVIEW_CHARACTERS = 140;
+
+/** Compact entry for the job history listing. */
+export const toJobSummary = (job: SynthesisJob) => ({
+  id: job.id,
+  ...toJobStatusPayload(job),
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  voiceId: job.request.voiceId,
+  preview: job.request.text.replace(/\s+/g, " ").trim().slice(0, PREVIEW_CHARACTERS),
+  characters: job.request.text.length
+});
@@ -0,0 +1,48 @@
+import { VOICE_DEFINITIONS } from "@/lib/voices";
+import { runProcess } from "@/lib/ttsProviders/process";
+import type { TtsProvider } from "@/lib/ttsProviders/types";
+
+const ESPEAK_BINARY = process.env.ESPEAK_PATH ?? "espeak-ng";
+const BASE_WORDS_PER_MINUTE = 165;
+
+const EMOTION_PROFILES: Record<string, { rate: number; pitch: number; amplitude: number }> = {
+  neutro: { rate: 1, pitch: 0, amplitude: 100 },
+  feliz: { rate: 1.08, pitch: 8, amplitude: 110 },
+  triste: { rate: 0.88, pitch: -8, amplitude: 85 },
+  intenso: { rate: 1.05, pitch: 4, amplitude: 130 },
+  misterioso: { rate: 0.9, pitch: -4, amplitude: 80 },
+  épico: { rate: 0.95, pitch: -2, amplitude: 140 }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const espeakProvider: TtsProvider = {
+  id: "espeak",
+  label: "eSpeak NG (offline)",
+  capabilities: {
+    offline: true,
+    emotions: Object.keys(EMOTION_PROFILES),
+    pitchRange: [-10, 10],
+    speedRange: [0.5, 2]
+  },
+  async listVoices() {
+    return VOICE_DEFINITIONS.filter((voice) => voice.engineVoices.espeak);
+  },
+  synthesize({ text, voice, engineVoice, speed, pitch, emotion, emphasis, signal }) {
+    const profile = EMOTION_PROFILES[emotion] ?? EMOTION_PROFILES.neutro;
+    const stress = emphasis ? { rate: 0.92, amplitude: 1.25 } : { rate: 1, amplitude: 1 };
+    const args = [
+      "-v",
+      engineVoice,
+      "-s",
+      String(Math.round(BASE_WORDS_PER_MINUTE * speed * profile.rate * stress.rate)),
+      "-p",
+      String(clamp(voice.basePitch + pitch * 3 + profile.pitch, 0, 99)),
+      "-a",
+      String(Math.min(200, Math.round(profile.amplitude * stress.amplitude))),
+      "--stdin",
+      "--stdout"
+    ];
+    return runProcess(ESPEAK_BINARY, args, text, signal);
+  }
+};
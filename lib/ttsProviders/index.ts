@@ -0,0 +1,24 @@
+import { espeakProvider } from "@/lib/ttsProviders/espeak";
+import { piperProvider } from "@/lib/ttsProviders/piper";
+import type { TtsProvider } from "@/lib/ttsProviders/types";
+
+export type { ProviderCapabilities, ProviderSynthesisRequest, TtsProvider } from "@/lib/ttsProviders/types";
+
+const providers = new Map<string, TtsProvider>([
+  [espeakProvider.id, espeakProvider],
+  [piperProvider.id, piperProvider]
+]);
+
+export const DEFAULT_PROVIDER_ID = process.env.AURORA_TTS_PROVIDER ?? espeakProvider.id;
+
+export function registerProvider(provider: TtsProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(providerId: string = DEFAULT_PROVIDER_ID) {
+  return providers.get(providerId);
+}
+
+export function listProviders() {
+  return Array.from(providers.values());
+}
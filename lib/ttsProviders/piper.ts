@@ -0,0 +1,42 @@
+import { readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { v4 as uuid } from "uuid";
+import { VOICE_DEFINITIONS } from "@/lib/voices";
+import { runProcess } from "@/lib/ttsProviders/process";
+import type { TtsProvider } from "@/lib/ttsProviders/types";
+
+const PIPER_BINARY = process.env.PIPER_PATH ?? "piper";
+const PIPER_MODEL_DIR = process.env.PIPER_MODEL_DIR ?? path.join(process.cwd(), "models", "piper");
+
+export const piperProvider: TtsProvider = {
+  id: "piper",
+  label: "Piper (offline neural)",
+  capabilities: {
+    offline: true,
+    emotions: ["neutro"],
+    pitchRange: [0, 0],
+    speedRange: [0.5, 2]
+  },
+  async listVoices() {
+    return VOICE_DEFINITIONS.filter((voice) => voice.engineVoices.piper);
+  },
+  async synthesize({ text, engineVoice, speed, signal }) {
+    const outputPath = path.join(os.tmpdir(), `aurora-piper-${uuid()}.wav`);
+    const args = [
+      "--model",
+      path.join(PIPER_MODEL_DIR, `${engineVoice}.onnx`),
+      "--length_scale",
+      String(Number((1 / speed).toFixed(3))),
+      "--output_file",
+      outputPath
+    ];
+
+    try {
+      await runProcess(PIPER_BINARY, args, text, signal);
+      return await readFile(outputPath);
+    } finally {
+      await rm(outputPath, { force: true });
+    }
+  }
+};
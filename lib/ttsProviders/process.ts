@@ -0,0 +1,35 @@
+import { spawn } from "child_process";
+
+/** Runs a speech binary with the text on stdin; aborting the signal kills it and rejects with the abort reason. */
+export function runProcess(binary: string, args: string[], input: string, signal?: AbortSignal) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const child = spawn(binary, args, { signal });
+    const chunks: Buffer[] = [];
+    const errors: Buffer[] = [];
+
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => errors.push(chunk));
+    // A killed child closes its stdin early; the exit is reported below.
+    child.stdin.on("error", () => undefined);
+    child.on("error", (error) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      reject(new Error(`Motor de voz indisponível: ${error.message}`));
+    });
+    child.on("close", (code) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      if (code !== 0) {
+        reject(new Error(Buffer.concat(errors).toString().trim() || "Falha na síntese de voz"));
+        return;
+      }
+      resolve(Buffer.concat(chunks));
+    });
+
+    child.stdin.end(input);
+  });
+}
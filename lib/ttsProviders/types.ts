@@ -0,0 +1,29 @@
+import type { VoiceDefinition } from "@/lib/voices";
+
+export interface ProviderCapabilities {
+  offline: boolean;
+  emotions: string[];
+  pitchRange: [number, number];
+  speedRange: [number, number];
+}
+
+export interface ProviderSynthesisRequest {
+  text: string;
+  voice: VoiceDefinition;
+  engineVoice: string;
+  speed: number;
+  pitch: number;
+  emotion: string;
+  emphasis: boolean;
+  /** The job's signal; aborting it stops the engine mid-sentence. */
+  signal?: AbortSignal;
+}
+
+export interface TtsProvider {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  listVoices(): Promise<VoiceDefinition[]>;
+  /** Resolves with a PCM WAV buffer; encoding to the delivery format happens downstream. */
+  synthesize(request: ProviderSynthesisRequest): Promise<Buffer>;
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+interface HistoryEntry<T> {
+  label: string;
+  group?: string;
+  /** When the entry last absorbed an edit of its group, in epoch milliseconds. */
+  time: number;
+  state: T;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+// Edits of the same group closer together than this (a slider drag, a burst of typing) undo as one step.
+const GROUP_WINDOW_MS = 1000;
+
+type Update<T> = T | ((state: T) => T);
+
+const resolve = <T>(update: Update<T>, state: T) => (typeof update === "function" ? (update as (state: T) => T)(state) : update);
+
+/**
+ * Keeps `state` behind a command history. `apply` records an edit under a label that the undo and redo
+ * buttons show; edits sharing a `group` within a second of each other merge into one step. `replace`
+ * changes the state without recording it, for adjustments the editor makes on its own (they are carried
+ * into the next undo), and `reset` starts a fresh history, as when another project is opened.
+ * Updates that return the state unchanged record nothing.
+ */
+export function useEditHistory<T>(initial: T | (() => T)) {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === "function" ? (initial as () => T)() : initial,
+    future: []
+  }));
+
+  const apply = useCallback((label: string, update: Update<T>, group?: string) => {
+    setHistory((prev) => {
+      const next = resolve(update, prev.present);
+      if (next === prev.present) return prev;
+
+      const now = Date.now();
+      const last = prev.past[prev.past.length - 1];
+      if (group && last?.group === group && !prev.future.length && now - last.time < GROUP_WINDOW_MS) {
+        return { past: [...prev.past.slice(0, -1), { ...last, time: now }], present: next, future: [] };
+      }
+      const past = [...prev.past, { label, group, time: now, state: prev.present }].slice(-MAX_HISTORY_ENTRIES);
+      return { past, present: next, future: [] };
+    });
+  }, []);
+
+  const replace = useCallback((update: Update<T>) => {
+    setHistory((prev) => {
+      const next = resolve(update, prev.present);
+      return next === prev.present ? prev : { ...prev, present: next };
+    });
+  }, []);
+
+  const reset = useCallback((update: Update<T>) => {
+    setHistory((prev) => ({ past: [], present: resolve(update, prev.present), future: [] }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      const last = prev.past[prev.past.length - 1];
+      if (!last) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: last.state,
+        future: [{ ...last, state: prev.present }, ...prev.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      const [next, ...future] = prev.future;
+      if (!next) return prev;
+      // A redone step never absorbs the edits that follow it.
+      return { past: [...prev.past, { ...next, group: undefined, state: prev.present }], present: next.state, future };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    apply,
+    replace,
+    reset,
+    undo,
+    redo,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null
+  };
+}
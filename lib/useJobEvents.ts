@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+interface JobEventsOptions<T> {
+  onStatus: (status: T) => void;
+  isTerminal: (status: T) => boolean;
+  /** Changing the key reconnects, e.g. after a retry re-queues a finished job. */
+  key?: unknown;
+  pollInterval?: number;
+}
+
+const MAX_POLL_FAILURES = 3;
+
+/**
+ * Follows a job through `<baseUrl>/events` (SSE) and falls back to polling `baseUrl` when the browser
+ * has no EventSource or the stream cannot be kept open (proxies that buffer responses, for instance).
+ * Returns a message while the server cannot be reached.
+ */
+export function useJobEvents<T>(baseUrl: string | null, { onStatus, isTerminal, key, pollInterval = 1500 }: JobEventsOptions<T>) {
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const handlers = useRef({ onStatus, isTerminal });
+  handlers.current = { onStatus, isTerminal };
+
+  useEffect(() => {
+    if (!baseUrl) return;
+
+    let isCancelled = false;
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+
+    const handleStatus = (status: T) => {
+      setConnectionError(null);
+      handlers.current.onStatus(status);
+      return handlers.current.isTerminal(status);
+    };
+
+    const poll = async () => {
+      try {
+        const response = await fetch(baseUrl, { cache: "no-store" });
+        if (!response.ok) {
+          throw new Error("Falha ao consultar status");
+        }
+        const status: T = await response.json();
+        failures = 0;
+        if (isCancelled || handleStatus(status)) return;
+      } catch (error) {
+        console.error(error);
+        failures += 1;
+        if (failures >= MAX_POLL_FAILURES && !isCancelled) {
+          setConnectionError("Sem conexão com o servidor. Tentando novamente...");
+        }
+      }
+      if (!isCancelled) {
+        timer = setTimeout(poll, pollInterval);
+      }
+    };
+
+    const fallBackToPolling = () => {
+      source?.close();
+      source = null;
+      if (!isCancelled && timer === undefined) void poll();
+    };
+
+    if (typeof EventSource === "undefined") {
+      fallBackToPolling();
+    } else {
+      source = new EventSource(`${baseUrl}/events`);
+      source.addEventListener("status", (event) => {
+        if (handleStatus(JSON.parse((event as MessageEvent<string>).data))) {
+          source?.close();
+        }
+      });
+      // The server's "error" event carries data; a bare Event means the connection itself failed.
+      source.addEventListener("error", (event) => {
+        if (!(event instanceof MessageEvent)) fallBackToPolling();
+      });
+    }
+
+    return () => {
+      isCancelled = true;
+      source?.close();
+      if (timer !== undefined) clearTimeout(timer);
+    };
+  }, [baseUrl, key, pollInterval]);
+
+  return connectionError;
+}
@@ -0,0 +1,465 @@
+import { writeFile } from "fs/promises";
+import ffmpeg from "fluent-ffmpeg";
+import path from "path";
+import type { AudioTrackKind, DuckingSettings } from "@/lib/audioTracks";
+import { buildSpeedExpression, getClipWindow, getSourceOffset, type ClipWindow } from "@/lib/clipTiming";
+import { buildGradeFilters, isNeutralGrade, type ColorGrade } from "@/lib/colorGrade";
+import type { CaptionMode, ClipMotion, MediaType, TimelineItem } from "@/lib/composition";
+import { buildDuckingExpression, type SpeechInterval } from "@/lib/ducking";
+import { buildFramingFilters, type Size } from "@/lib/framing";
+import { buildMotionFilters } from "@/lib/motion";
+import {
+  OUTPUT_FPS,
+  getOutputFormat,
+  getVideoBitrate,
+  type OutputSettings,
+  type VideoCodec
+} from "@/lib/outputFormat";
+import {
+  BOX_PADDING,
+  LINE_HEIGHT,
+  REFERENCE_HEIGHT,
+  SUBTITLE_SCALE,
+  TEXT_FONTS,
+  buildOverlayExpressions,
+  getAnimationLength,
+  getOverlayBlockHeight,
+  getOverlayLines,
+  type TextOverlay
+} from "@/lib/textOverlays";
+import { buildTransitionFilter, resolveTransition } from "@/lib/transitions";
+
+export interface RenderSource {
+  id: string;
+  type: MediaType;
+  path: string;
+  /** Probed length of video sources; bounds the trim window and the handles. */
+  duration?: number;
+}
+
+export interface RenderAudioClip {
+  path: string;
+  offset: number;
+  duration?: number;
+  volume: number;
+}
+
+export interface RenderAudioTrack {
+  kind: AudioTrackKind;
+  volume: number;
+  clips: RenderAudioClip[];
+}
+
+export interface RenderOptions {
+  timeline: TimelineItem[];
+  sources: RenderSource[];
+  /** Audible tracks only; muted tracks are left out by the caller. */
+  audioTracks?: RenderAudioTrack[];
+  /** Ducks the music track under these narration spans. */
+  ducking?: { intervals: SpeechInterval[]; settings: DuckingSettings };
+  captions?: { path: string; mode: Exclude<CaptionMode, "none"> };
+  /** Drawn over the picture in order, so later overlays sit on top. */
+  overlays?: TextOverlay[];
+  output: OutputSettings;
+  /** The programme's grade, over every clip's own. */
+  grade?: ColorGrade;
+  /** Paths of the LUTs the grades use, by id. */
+  luts?: Record<string, string>;
+  /** Looped clips are pre-rendered and overlay text files written next to the output file. */
+  outputPath: string;
+  onProgress?: (progress: number) => void;
+}
+
+const parseTimemark = (timemark: unknown) => {
+  if (typeof timemark !== "string") return 0;
+  const [hours, minutes, seconds] = timemark.split(":").map(Number);
+  if ([hours, minutes, seconds].some((value) => Number.isNaN(value))) return 0;
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+/** Encoder, audio encoder and codec-specific options of each output codec. */
+const ENCODERS: Record<VideoCodec, { video: string; audio: string; format: string; options: string[] }> = {
+  h264: { video: "libx264", audio: "aac", format: "mp4", options: ["-preset medium", "-movflags +faststart"] },
+  // The hvc1 tag is what Apple players need to recognise HEVC in MP4.
+  h265: { video: "libx265", audio: "aac", format: "mp4", options: ["-preset medium", "-tag:v hvc1", "-movflags +faststart"] },
+  vp9: { video: "libvpx-vp9", audio: "libopus", format: "webm", options: ["-deadline good", "-cpu-used 2", "-row-mt 1"] }
+};
+
+const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Frames a clip into the output picture (see buildFramingFilters), grades it and conforms its rate. `retime`
+ * is a setpts expression applying the clip's trim speed; it runs before `fps` so held frames are filled in.
+ */
+const normaliseClip = (
+  inputIndex: number,
+  length: number,
+  clip: TimelineItem,
+  type: MediaType,
+  size: Size,
+  grade: string[],
+  retime?: string
+) => {
+  const filters = [...grade, `fps=${OUTPUT_FPS}`, "format=yuv420p"];
+  if (type === "video") {
+    filters.push(`tpad=stop_mode=clone:stop_duration=${length}`);
+  }
+  filters.push(`trim=duration=${length}`, "setpts=PTS-STARTPTS");
+  return [
+    ...(retime ? [`[${inputIndex}:v]setpts='${retime}'[r${inputIndex}]`] : []),
+    ...buildFramingFilters(retime ? `[r${inputIndex}]` : `[${inputIndex}:v]`, `f${inputIndex}`, clip, size.width, size.height),
+    `[f${inputIndex}]${filters.join(",")}[v${inputIndex}]`
+  ];
+};
+
+/** A still with Ken Burns motion: the move spans the clip's slot and holds through the transition tail. */
+const animateStill = (
+  inputIndex: number,
+  length: number,
+  clip: TimelineItem,
+  motion: ClipMotion,
+  size: Size,
+  grade: string[]
+) => {
+  const filters = [
+    ...buildMotionFilters(motion, clip.duration, OUTPUT_FPS, size.width, size.height),
+    ...grade,
+    "format=yuv420p",
+    `trim=duration=${length}`,
+    "setpts=PTS-STARTPTS"
+  ];
+  return [
+    ...buildFramingFilters(`[${inputIndex}:v]`, `f${inputIndex}`, clip, size.width * 2, size.height * 2),
+    `[f${inputIndex}]${filters.join(",")}[v${inputIndex}]`
+  ];
+};
+
+/**
+ * Looping inside the main graph would mean buffering every frame of the window, so looped clips are first
+ * rendered (trimmed and retimed, at the source's size) to a short file that the main pass reads with
+ * `-stream_loop` and frames like any other clip.
+ */
+function renderLoopSegment(sourcePath: string, window: ClipWindow, outputPath: string) {
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(sourcePath)
+      .inputOptions([...(window.start ? [`-ss ${window.start}`] : []), `-t ${window.length}`])
+      .outputOptions([
+        // yuv420p needs even dimensions.
+        `-vf setpts='${buildSpeedExpression(window, window.playable)}',fps=${OUTPUT_FPS},scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuv420p`,
+        "-an",
+        "-preset veryfast",
+        "-crf 16"
+      ])
+      .videoCodec("libx264")
+      .format("mp4")
+      .on("error", (error) => reject(toError(error)))
+      .on("end", () => resolve())
+      .save(outputPath);
+  });
+}
+
+const AUDIO_FORMAT = "aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo";
+
+const mixInputs = (labels: string[], output: string) =>
+  labels.length === 1
+    ? `${labels[0]}anull${output}`
+    : `${labels.join("")}amix=inputs=${labels.length}:duration=longest:normalize=0${output}`;
+
+/**
+ * Builds the audio graph: every clip is trimmed, gained and delayed to its offset, clips are summed per track
+ * (amix without normalisation, so levels match the preview), the track volume and — on the music bed — the
+ * ducking envelope are applied, and the tracks are summed into `[aout]`.
+ */
+function buildAudioFilters(tracks: RenderAudioTrack[], firstInput: number, ducking: RenderOptions["ducking"]) {
+  const filters: string[] = [];
+  const buses: string[] = [];
+  let inputIndex = firstInput;
+
+  tracks.forEach((track) => {
+    const clipLabels = track.clips.map((clip) => {
+      const label = `[a${inputIndex}]`;
+      const delay = Math.round(clip.offset * 1000);
+      filters.push(
+        `[${inputIndex}:a]${AUDIO_FORMAT},asetpts=PTS-STARTPTS,volume=${clip.volume},adelay=delays=${delay}:all=1${label}`
+      );
+      inputIndex += 1;
+      return label;
+    });
+
+    const bus = `[${track.kind}]`;
+    const gain = [`volume=${track.volume}`];
+    if (track.kind === "music" && ducking?.settings.enabled && ducking.intervals.length) {
+      gain.push(`volume='${buildDuckingExpression(ducking.intervals, ducking.settings)}':eval=frame`);
+    }
+    filters.push(mixInputs(clipLabels, `[${track.kind}mix]`), `[${track.kind}mix]${gain.join(",")}${bus}`);
+    buses.push(bus);
+  });
+
+  // Padding keeps the audio as long as the picture; `-t` cuts both at the timeline's length.
+  filters.push(mixInputs(buses, "[amix]"), "[amix]apad[aout]");
+  return filters;
+}
+
+// The path sits inside a quoted filter argument, where only the option-level ":" separator still needs escaping.
+const escapeFilterPath = (value: string) => value.replace(/\\/g, "/").replace(/:/g, "\\:");
+
+const round = (value: number) => Number(value.toFixed(3));
+
+const toFilterColor = (color: string, opacity = 1) => `0x${color.slice(1)}@${round(opacity)}`;
+
+/**
+ * Title card backgrounds become colour layers faded with the overlay; text is drawn with one `drawtext`
+ * per line (read from `lineFiles`, so nothing in it needs escaping), each aligned on its own width the
+ * way the preview lays lines out.
+ */
+function buildTextOverlayFilters(overlays: TextOverlay[], lineFiles: string[][], input: string, { width, height }: Size) {
+  // Sizes are relative to the shorter side, so text keeps its weight on vertical and square canvases.
+  const scale = Math.min(width, height) / REFERENCE_HEIGHT;
+  const filters: string[] = [];
+  let current = input;
+
+  overlays.forEach((overlay, index) => {
+    const { alpha, dx, dy } = buildOverlayExpressions(overlay);
+    const enable = `enable='between(t,${round(overlay.start)},${round(overlay.start + overlay.duration)})'`;
+
+    if (overlay.kind === "title" && overlay.background) {
+      const length = round(getAnimationLength(overlay));
+      const fades = [
+        ...(overlay.enter !== "none" && length ? [`fade=t=in:st=0:d=${length}:alpha=1`] : []),
+        ...(overlay.exit !== "none" && length ? [`fade=t=out:st=${round(overlay.duration - length)}:d=${length}:alpha=1`] : [])
+      ];
+      filters.push(
+        [
+          `color=c=${toFilterColor(overlay.background, overlay.backgroundOpacity)}:s=${width}x${height}:r=${OUTPUT_FPS}:d=${round(overlay.duration)}`,
+          "format=yuva420p",
+          ...fades,
+          `setpts=PTS+${round(overlay.start)}/TB`
+        ].join(",") + `[card${index}]`,
+        `${current}[card${index}]overlay=eof_action=pass[carded${index}]`
+      );
+      current = `[carded${index}]`;
+    }
+
+    const font = TEXT_FONTS.find((entry) => entry.value === overlay.font)?.fontconfig ?? "Sans";
+    const anchor = round(overlay.x * width);
+    const x = overlay.align === "left" ? `${anchor}` : overlay.align === "center" ? `${anchor}-text_w/2` : `${anchor}-text_w`;
+    let top = overlay.y * height - (getOverlayBlockHeight(overlay) * scale) / 2;
+
+    const draws = lineFiles[index].map((file, line) => {
+      const isSubtitle = Boolean(overlay.subtitle) && line === lineFiles[index].length - 1;
+      const fontSize = round(overlay.size * scale * (isSubtitle ? SUBTITLE_SCALE : 1));
+      const lineTop = top + (fontSize * LINE_HEIGHT - fontSize) / 2;
+      top += fontSize * LINE_HEIGHT;
+
+      const options = [
+        `textfile='${escapeFilterPath(file)}'`,
+        "expansion=none",
+        `font='${overlay.bold ? `${font}\\:weight=bold` : font}'`,
+        `fontsize=${fontSize}`,
+        `fontcolor=${toFilterColor(overlay.color)}`,
+        `alpha='${alpha}'`,
+        `x='${x}+${dx}*w'`,
+        `y='${round(lineTop)}+${dy}*h'`,
+        enable
+      ];
+      if (overlay.background && overlay.kind !== "title") {
+        options.push(
+          "box=1",
+          `boxcolor=${toFilterColor(overlay.background, overlay.backgroundOpacity)}`,
+          `boxborderw=${Math.round(fontSize * BOX_PADDING)}`
+        );
+      }
+      return `drawtext=${options.join(":")}`;
+    });
+
+    if (draws.length) {
+      filters.push(`${current}${draws.join(",")}[text${index}]`);
+      current = `[text${index}]`;
+    }
+  });
+
+  return { filters, output: current };
+}
+
+export const getTimelineDuration = (timeline: TimelineItem[]) =>
+  timeline.reduce((acc, clip) => acc + clip.duration, 0);
+
+export async function renderTimeline({
+  timeline,
+  sources,
+  audioTracks = [],
+  ducking,
+  captions,
+  overlays = [],
+  output,
+  grade,
+  luts = {},
+  outputPath,
+  onProgress
+}: RenderOptions) {
+  const findSource = (clip: TimelineItem) => {
+    const source = sources.find((item) => item.id === clip.assetId);
+    if (!source) {
+      throw new Error(`Mídia ${clip.assetId} não enviada para renderização`);
+    }
+    return source;
+  };
+
+  const buildGrade = (clipGrade?: ColorGrade) => {
+    if (!clipGrade || isNeutralGrade(clipGrade)) return [];
+    const lutPath = clipGrade.lut ? luts[clipGrade.lut] : undefined;
+    if (clipGrade.lut && !lutPath) {
+      throw new Error("LUT da correção de cor não enviada para renderização");
+    }
+    return buildGradeFilters(clipGrade, lutPath && escapeFilterPath(lutPath));
+  };
+
+  const loopSegments = new Map<number, string>();
+  for (const [index, clip] of timeline.entries()) {
+    const source = findSource(clip);
+    if (source.type === "video" && clip.fill === "loop") {
+      const segmentPath = path.join(path.dirname(outputPath), `loop-${index}.mp4`);
+      await renderLoopSegment(source.path, getClipWindow(clip, source.duration), segmentPath);
+      loopSegments.set(index, segmentPath);
+    }
+  }
+
+  const lineFiles = await Promise.all(
+    overlays.map((overlay, index) =>
+      Promise.all(
+        [...getOverlayLines(overlay), ...(overlay.subtitle ? [overlay.subtitle] : [])].map(async (line, lineIndex) => {
+          const file = path.join(path.dirname(outputPath), `overlay-${index}-${lineIndex}.txt`);
+          await writeFile(file, line);
+          return file;
+        })
+      )
+    )
+  );
+
+  return new Promise<void>((resolve, reject) => {
+    const totalDuration = getTimelineDuration(timeline);
+    const size = getOutputFormat(output.format);
+    const encoder = ENCODERS[output.codec];
+    const command = ffmpeg();
+    const filters: string[] = [];
+
+    const transitions = timeline.map((clip, index) => resolveTransition(clip, timeline[index - 1]));
+
+    timeline.forEach((clip, index) => {
+      const source = findSource(clip);
+      // The outgoing clip runs on for the length of the next transition, into its handle when the source
+      // has material past the out point, so the junction starts exactly at the cut point and the export
+      // keeps the timeline's total length.
+      const length = clip.duration + (transitions[index + 1]?.duration ?? 0);
+      const loopSegment = loopSegments.get(index);
+
+      if (source.type === "image") {
+        command.input(source.path);
+        command.inputOptions(["-loop 1", `-framerate ${OUTPUT_FPS}`, `-t ${length}`]);
+        filters.push(
+          ...(clip.motion
+            ? animateStill(index, length, clip, clip.motion, size, buildGrade(clip.grade))
+            : normaliseClip(index, length, clip, source.type, size, buildGrade(clip.grade)))
+        );
+      } else if (loopSegment) {
+        command.input(loopSegment);
+        command.inputOptions(["-stream_loop -1", `-t ${length}`]);
+        filters.push(...normaliseClip(index, length, clip, source.type, size, buildGrade(clip.grade)));
+      } else {
+        const window = getClipWindow(clip, source.duration);
+        // One extra frame of source keeps the last output frame from being dropped by rounding.
+        const needed = getSourceOffset(window, clip.duration, length, clip.fill) + 1 / OUTPUT_FPS;
+        command.input(source.path);
+        command.inputOptions([...(window.start ? [`-ss ${window.start}`] : []), `-t ${needed.toFixed(3)}`]);
+        const retime = buildSpeedExpression(window, Math.max(window.playable, clip.duration));
+        filters.push(...normaliseClip(index, length, clip, source.type, size, buildGrade(clip.grade), retime));
+      }
+    });
+
+    let current = "[v0]";
+    let offset = timeline[0]?.duration ?? 0;
+
+    for (let index = 1; index < timeline.length; index += 1) {
+      const output = `[x${index}]`;
+      const transition = transitions[index];
+      if (transition.style === "corte") {
+        filters.push(`${current}[v${index}]concat=n=2:v=1:a=0${output}`);
+      } else {
+        const { xfade, post } = buildTransitionFilter(transition, Number(offset.toFixed(3)));
+        filters.push(`${current}[v${index}]${[xfade, ...post].join(",")}${output}`);
+      }
+      current = output;
+      offset += timeline[index].duration;
+    }
+
+    const programmeGrade = buildGrade(grade);
+    if (programmeGrade.length) {
+      filters.push(`${current}${programmeGrade.join(",")}[graded]`);
+      current = "[graded]";
+    }
+
+    const textOverlays = buildTextOverlayFilters(overlays, lineFiles, current, size);
+    filters.push(...textOverlays.filters);
+    current = textOverlays.output;
+
+    // libass lays subtitles out on a 384×288 script, scaled by height; the factor keeps them as large
+    // against the shorter side on vertical canvases as on landscape ones.
+    const subtitleScale = Math.min(size.width, size.height) / size.height;
+    const subtitleStyle = `FontName=Inter,FontSize=${round(22 * subtitleScale)},Outline=1,MarginV=${Math.round(40 * subtitleScale)}`;
+    filters.push(
+      captions?.mode === "burn"
+        ? `${current}subtitles='${escapeFilterPath(captions.path)}':force_style='${subtitleStyle}'[vout]`
+        : `${current}null[vout]`
+    );
+
+    const bitrate = getVideoBitrate(output);
+    const outputOptions = [
+      "-map [vout]",
+      ...encoder.options,
+      `-b:v ${bitrate}k`,
+      `-maxrate ${Math.round(bitrate * 1.5)}k`,
+      `-bufsize ${bitrate * 2}k`,
+      "-pix_fmt yuv420p",
+      `-t ${totalDuration}`
+    ];
+
+    // Clips starting after the end of the picture would only be cut away again.
+    const audible = audioTracks
+      .map((track) => ({ ...track, clips: track.clips.filter((clip) => clip.offset < totalDuration) }))
+      .filter((track) => track.clips.length);
+    let inputCount = timeline.length;
+
+    if (audible.length) {
+      audible.forEach((track) =>
+        track.clips.forEach((clip) => {
+          command.input(clip.path);
+          if (clip.duration) command.inputOptions([`-t ${clip.duration}`]);
+        })
+      );
+      filters.push(...buildAudioFilters(audible, inputCount, ducking));
+      inputCount += audible.reduce((count, track) => count + track.clips.length, 0);
+      outputOptions.push("-map [aout]");
+      command.audioCodec(encoder.audio).audioBitrate("192k");
+    }
+
+    if (captions?.mode === "attach") {
+      command.input(captions.path);
+      // WebM only carries WebVTT subtitles.
+      outputOptions.push(`-map ${inputCount}:s`, `-c:s ${encoder.format === "webm" ? "webvtt" : "mov_text"}`, "-metadata:s:s:0 language=por");
+    }
+
+    command
+      .complexFilter(filters)
+      .videoCodec(encoder.video)
+      .outputOptions(outputOptions)
+      .format(encoder.format)
+      .on("progress", (info) => {
+        if (!totalDuration) return;
+        const elapsed = parseTimemark(info?.timemark);
+        onProgress?.(Math.min(99, Math.round((elapsed / totalDuration) * 100)));
+      })
+      .on("error", (error) => reject(toError(error)))
+      .on("end", () => resolve())
+      .save(outputPath);
+  });
+}
@@ -0,0 +1,115 @@
+import { mkdir, readdir, rm } from "fs/promises";
+import path from "path";
+import { v4 as uuid } from "uuid";
+import { readOptional, resolveDataDirectory, writeAtomic } from "@/lib/fileStorage";
+import { encodeAudio, renderSpeechWav } from "@/lib/ttsEngine";
+import { getProvider } from "@/lib/ttsProviders";
+import type { VoiceCatalogEntry, VoicePreset } from "@/lib/voices";
+
+const SAMPLE_TEXT = "Olá! Esta é uma amostra da minha voz, pronta para narrar a sua história.";
+
+interface VoiceLibraryState {
+  directory: string;
+  ready: Promise<unknown>;
+  /** Encoded samples by engine and voice; a sample is synthesised once per server process. */
+  samples: Map<string, ReturnType<typeof encodeAudio>>;
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+const PRESET_FILE_PATTERN = /^([a-zA-Z0-9-]+)\.json$/;
+
+const globalState = globalThis as typeof globalThis & { __auroraVoiceLibrary?: VoiceLibraryState };
+
+const state: VoiceLibraryState = (globalState.__auroraVoiceLibrary ??= (() => {
+  const directory = resolveDataDirectory("voice-presets");
+  return { directory, ready: mkdir(directory, { recursive: true }), samples: new Map<string, ReturnType<typeof encodeAudio>>() };
+})());
+
+const resolvePresetPath = (presetId: string) => {
+  if (!ID_PATTERN.test(presetId)) {
+    throw new Error("Identificador de predefinição inválido");
+  }
+  return path.join(state.directory, `${presetId}.json`);
+};
+
+const getSampleUrl = (voiceId: string, engine?: string) =>
+  `/api/voices/${voiceId}/sample${engine ? `?engine=${encodeURIComponent(engine)}` : ""}`;
+
+/**
+ * The voices the engine can speak with, described for the form: the engine's emotions and ranges apply
+ * to every voice it lists. Returns undefined for an engine that is not registered.
+ */
+export async function getVoiceCatalog(engine?: string) {
+  const provider = getProvider(engine);
+  if (!provider) return undefined;
+
+  const voices = await provider.listVoices();
+  return {
+    engine: { id: provider.id, label: provider.label, ...provider.capabilities },
+    voices: voices.map(
+      ({ engineVoices: _engineVoices, basePitch: _basePitch, ...voice }): VoiceCatalogEntry => ({
+        ...voice,
+        emotions: provider.capabilities.emotions,
+        sampleUrl: getSampleUrl(voice.id, engine)
+      })
+    )
+  };
+}
+
+/** A short MP3 of the voice reading a fixed phrase with neutral settings. */
+export function getVoiceSample(voiceId: string, engine?: string) {
+  const provider = getProvider(engine);
+  if (!provider) {
+    return Promise.reject(new Error("Motor de voz indisponível"));
+  }
+
+  const key = `${provider.id}:${voiceId}`;
+  let sample = state.samples.get(key);
+  if (!sample) {
+    sample = renderSpeechWav({ text: SAMPLE_TEXT, voiceId, speed: 1, pitch: 0, emotion: "neutro", emphasis: false, engine })
+      .then((wav) => encodeAudio(wav, "mp3"));
+    // A failed synthesis (a missing binary or model) is retried on the next request.
+    sample.catch(() => state.samples.delete(key));
+    state.samples.set(key, sample);
+  }
+  return sample;
+}
+
+export async function getVoicePreset(presetId: string) {
+  if (!ID_PATTERN.test(presetId)) return undefined;
+  await state.ready;
+  const data = await readOptional(resolvePresetPath(presetId));
+  return data ? (JSON.parse(data.toString("utf8")) as VoicePreset) : undefined;
+}
+
+export async function listVoicePresets() {
+  await state.ready;
+  const entries = await readdir(state.directory);
+  const presets = await Promise.all(
+    entries.flatMap((entry) => {
+      const match = entry.match(PRESET_FILE_PATTERN);
+      return match ? [getVoicePreset(match[1])] : [];
+    })
+  );
+  return presets
+    .filter((preset): preset is VoicePreset => Boolean(preset))
+    .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+}
+
+/** Names are compared ignoring case, so "Narrador" and "narrador" cannot both be saved. */
+export async function findVoicePresetByName(name: string) {
+  const normalised = name.trim().toLocaleLowerCase("pt-BR");
+  return (await listVoicePresets()).find((preset) => preset.name.toLocaleLowerCase("pt-BR") === normalised);
+}
+
+export async function createVoicePreset(data: Omit<VoicePreset, "id" | "createdAt">) {
+  await state.ready;
+  const preset: VoicePreset = { id: uuid(), ...data, createdAt: Date.now() };
+  await writeAtomic(resolvePresetPath(preset.id), JSON.stringify(preset));
+  return preset;
+}
+
+export async function deleteVoicePreset(presetId: string) {
+  await state.ready;
+  await rm(resolvePresetPath(presetId), { force: true });
+}
@@ -0,0 +1,127 @@
+export interface VoiceDefinition {
+  id: string;
+  label: string;
+  description: string;
+  gender: "masculine" | "feminine";
+  tone: string;
+  /** BCP 47 tag of the language the voice speaks. */
+  language: string;
+  accent: string;
+  engineVoices: Partial<Record<string, string>>;
+  basePitch: number;
+}
+
+export const VOICE_DEFINITIONS: VoiceDefinition[] = [
+  {
+    id: "masc-deep",
+    label: "Atlas",
+    description: "Grave e aveludada, ideal para documentários e trailers.",
+    gender: "masculine",
+    tone: "grave",
+    language: "pt-BR",
+    accent: "Brasileiro",
+    engineVoices: { espeak: "pt-br+m3", piper: "pt_BR-faber-medium" },
+    basePitch: 30
+  },
+  {
+    id: "masc-warm",
+    label: "Bento",
+    description: "Calorosa e próxima, perfeita para podcasts e tutoriais.",
+    gender: "masculine",
+    tone: "caloroso",
+    language: "pt-BR",
+    accent: "Brasileiro",
+    engineVoices: { espeak: "pt-br+m1", piper: "pt_BR-faber-medium" },
+    basePitch: 42
+  },
+  {
+    id: "masc-epic",
+    label: "Caetano",
+    description: "Projeção intensa para narrativas épicas e chamadas publicitárias.",
+    gender: "masculine",
+    tone: "épico",
+    language: "pt-BR",
+    accent: "Brasileiro",
+    engineVoices: { espeak: "pt-br+m7", piper: "pt_BR-edresson-low" },
+    basePitch: 36
+  },
+  {
+    id: "fem-soft",
+    label: "Aurora",
+    description: "Suave e envolvente, indicada para audiolivros e meditações.",
+    gender: "feminine",
+    tone: "suave",
+    language: "pt-BR",
+    accent: "Brasileiro",
+    engineVoices: { espeak: "pt-br+f2" },
+    basePitch: 58
+  },
+  {
+    id: "fem-bright",
+    label: "Lívia",
+    description: "Brilhante e enérgica, feita para vídeos institucionais e e-learning.",
+    gender: "feminine",
+    tone: "brilhante",
+    language: "pt-BR",
+    accent: "Brasileiro",
+    engineVoices: { espeak: "pt-br+f4" },
+    basePitch: 64
+  },
+  {
+    id: "fem-dramatic",
+    label: "Marina",
+    description: "Expressiva e dramática, pensada para ficção e personagens.",
+    gender: "feminine",
+    tone: "dramático",
+    language: "pt-BR",
+    accent: "Brasileiro",
+    engineVoices: { espeak: "pt-br+f3" },
+    basePitch: 55
+  }
+];
+
+/** A voice of the active engine as the catalogue lists it, with what that engine can do with it. */
+export interface VoiceCatalogEntry extends Omit<VoiceDefinition, "engineVoices" | "basePitch"> {
+  emotions: string[];
+  /** A short phrase spoken by the voice. */
+  sampleUrl: string;
+}
+
+/** Voice, speed, pitch and emotion saved under a name, to be picked again from the form. */
+export interface VoicePreset {
+  id: string;
+  name: string;
+  voiceId: string;
+  speed: number;
+  pitch: number;
+  emotion: string;
+  createdAt: number;
+}
+
+export const SPEED_RANGE = [0.5, 2] as const;
+export const PITCH_RANGE = [-10, 10] as const;
+
+export const getVoiceDefinition = (voiceId: string) => VOICE_DEFINITIONS.find((voice) => voice.id === voiceId);
+
+export const EMOTIONS = ["neutro", "feliz", "triste", "intenso", "misterioso", "épico"] as const;
+
+export const findVoice = (reference: string) => {
+  const normalised = reference.trim().toLowerCase();
+  return VOICE_DEFINITIONS.find((voice) => voice.id === normalised || voice.label.toLowerCase() === normalised);
+};
+
+const MAX_PRESET_NAME_LENGTH = 80;
+
+const isInRange = (value: unknown, [min, max]: readonly [number, number]): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+/** Validates an untrusted preset submission; returns null when a field is missing, unknown or out of range. */
+export const parseVoicePreset = (value: unknown): Omit<VoicePreset, "id" | "createdAt"> | null => {
+  if (!value || typeof value !== "object") return null;
+  const { name, voiceId, speed, pitch, emotion } = value as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim()) return null;
+  if (typeof voiceId !== "string" || !getVoiceDefinition(voiceId)) return null;
+  if (!isInRange(speed, SPEED_RANGE) || !isInRange(pitch, PITCH_RANGE)) return null;
+  if (typeof emotion !== "string" || !(EMOTIONS as readonly string[]).includes(emotion)) return null;
+  return { name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH), voiceId, speed, pitch, emotion };
+};
@@ -0,0 +1,163 @@
+export interface WavFormat {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+export interface ParsedWav {
+  format: WavFormat;
+  data: Buffer;
+}
+
+const findChunk = (wav: Buffer, id: string) => {
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString("ascii", offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+    if (chunkId === id) {
+      // Streamed WAVs (espeak-ng --stdout) carry a placeholder size; fall back to the rest of the buffer.
+      const end = size === 0 || size === 0xffffffff ? wav.length : Math.min(wav.length, offset + 8 + size);
+      return wav.subarray(offset + 8, end);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+};
+
+export function parseWav(wav: Buffer): ParsedWav {
+  if (wav.toString("ascii", 0, 4) !== "RIFF" || wav.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Áudio WAV inválido");
+  }
+  const fmt = findChunk(wav, "fmt ");
+  const data = findChunk(wav, "data");
+  if (!fmt || !data) {
+    throw new Error("Áudio WAV incompleto");
+  }
+  return {
+    format: {
+      channels: fmt.readUInt16LE(2),
+      sampleRate: fmt.readUInt32LE(4),
+      bitsPerSample: fmt.readUInt16LE(14)
+    },
+    data
+  };
+}
+
+export const bytesPerSecond = ({ channels, sampleRate, bitsPerSample }: WavFormat) =>
+  channels * sampleRate * (bitsPerSample / 8);
+
+export const readWavDuration = (wav: Buffer) => {
+  const { format, data } = parseWav(wav);
+  return data.length / bytesPerSecond(format);
+};
+
+/** Largest data size a header can declare; used for live streams whose length is not known yet. */
+export const STREAMING_DATA_LENGTH = 0xffffffff - 36;
+
+export function createWavHeader(format: WavFormat, dataLength: number) {
+  const header = Buffer.alloc(44);
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(format.bitsPerSample, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataLength, 40);
+  return header;
+}
+
+export const createWav = (format: WavFormat, data: Buffer) => Buffer.concat([createWavHeader(format, data.length), data]);
+
+export function createSilence(format: WavFormat, seconds: number) {
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+  const frames = Math.round(format.sampleRate * Math.max(0, seconds));
+  return Buffer.alloc(frames * blockAlign);
+}
+
+export type WavPart = Buffer | { silence: number };
+
+export function concatWav(parts: WavPart[]) {
+  const parsed = parts.map((part) => (Buffer.isBuffer(part) ? parseWav(part) : part));
+  const reference = parsed.find((part): part is ParsedWav => "format" in part);
+  if (!reference) {
+    throw new Error("Nenhum trecho de áudio para concatenar");
+  }
+
+  const { format } = reference;
+  const buffers = parsed.map((part) => {
+    if (!("format" in part)) return createSilence(format, part.silence);
+    const { channels, sampleRate, bitsPerSample } = part.format;
+    if (channels !== format.channels || sampleRate !== format.sampleRate || bitsPerSample !== format.bitsPerSample) {
+      throw new Error("Trechos de áudio com formatos incompatíveis");
+    }
+    return part.data;
+  });
+
+  return createWav(format, Buffer.concat(buffers));
+}
+
+/**
+ * Converts 16-bit PCM to another sample rate by linear interpolation; a WAV already at the rate is returned
+ * as it is. Speech engines only need upsampling here (Piper's low models run at 16 kHz against 22.05 kHz
+ * for the others), where interpolation adds no aliasing.
+ */
+export function resampleWav(wav: Buffer, sampleRate: number) {
+  const { format, data } = parseWav(wav);
+  if (format.sampleRate === sampleRate) return wav;
+  if (format.bitsPerSample !== 16) {
+    throw new Error("Apenas áudio PCM de 16 bits pode ser reamostrado");
+  }
+
+  const frameSize = format.channels * 2;
+  const inputFrames = Math.floor(data.length / frameSize);
+  const outputFrames = Math.round((inputFrames * sampleRate) / format.sampleRate);
+  const output = Buffer.alloc(outputFrames * frameSize);
+  const step = format.sampleRate / sampleRate;
+
+  for (let frame = 0; frame < outputFrames; frame += 1) {
+    const position = frame * step;
+    const index = Math.min(Math.floor(position), inputFrames - 1);
+    const next = Math.min(index + 1, inputFrames - 1);
+    const fraction = position - index;
+    for (let channel = 0; channel < format.channels; channel += 1) {
+      const current = data.readInt16LE(index * frameSize + channel * 2);
+      const following = data.readInt16LE(next * frameSize + channel * 2);
+      output.writeInt16LE(Math.round(current + (following - current) * fraction), frame * frameSize + channel * 2);
+    }
+  }
+
+  return createWav({ ...format, sampleRate }, output);
+}
+
+/** Byte lengths of the silent run at each edge of 16-bit PCM, less `padding` seconds kept on each side. */
+export function measureEdgeSilence({ format, data }: ParsedWav, thresholdDb: number, padding: number) {
+  if (format.bitsPerSample !== 16) return { leading: 0, trailing: 0 };
+
+  const frameSize = format.channels * 2;
+  const frames = Math.floor(data.length / frameSize);
+  const threshold = 32768 * 10 ** (thresholdDb / 20);
+  const isSilent = (frame: number) => {
+    for (let channel = 0; channel < format.channels; channel += 1) {
+      if (Math.abs(data.readInt16LE(frame * frameSize + channel * 2)) > threshold) return false;
+    }
+    return true;
+  };
+
+  let first = 0;
+  while (first < frames && isSilent(first)) first += 1;
+  let last = frames;
+  while (last > first && isSilent(last - 1)) last -= 1;
+
+  const paddingFrames = Math.round(format.sampleRate * padding);
+  return {
+    leading: Math.max(0, first - paddingFrames) * frameSize,
+    trailing: Math.max(0, frames - last - paddingFrames) * frameSize
+  };
+}
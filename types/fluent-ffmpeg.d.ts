@@ -7,16 +7,45 @@ declare module "fluent-ffmpeg" {
   interface Command {
     input(source: string | Readable): Command;
     inputFormat(format: string): Command;
+    inputOptions(options: string[]): Command;
+    complexFilter(filters: string | string[], map?: string | string[]): Command;
+    outputOptions(options: string[]): Command;
+    videoCodec(codec: string): Command;
     audioCodec(codec: string): Command;
     audioBitrate(bitrate: string | number): Command;
+    audioFilters(filters: string | string[]): Command;
     format(format: string): Command;
     on(event: EventName, handler: (arg?: any) => void): Command;
     pipe(stream: Writable, opts?: { end?: boolean }): Writable;
+    save(path: string): Command;
+    kill(signal?: string): Command;
+  }
+
+  interface FfprobeStream {
+    index: number;
+    codec_type?: string;
+    codec_name?: string;
+    width?: number;
+    height?: number;
+    duration?: string | number;
+    tags?: Record<string, string>;
+    side_data_list?: { side_data_type?: string; rotation?: number }[];
+  }
+
+  interface FfprobeData {
+    streams: FfprobeStream[];
+    format: {
+      format_name?: string;
+      duration?: number;
+      size?: number;
+      tags?: Record<string, string>;
+    };
   }
 
   interface FfmpegStatic {
     (input?: string | Readable): Command;
     setFfmpegPath(path: string): void;
+    ffprobe(file: string, callback: (error: any, data: FfprobeData) => void): void;
   }
 
   const ffmpeg: FfmpegStatic;